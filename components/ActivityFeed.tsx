@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react'
+import {
+  ACTIVITY_ACTION_VERBS,
+  ACTIVITY_ENTITY_TYPES,
+  ActivityEntityType,
+  ActivityEntry,
+  getActivityEntityName,
+  getChangedFields,
+} from '../utils/activity'
+import { formatCurrency, fromMinorUnits } from '../utils/currency'
+
+interface Member {
+  id: string
+  name: string
+}
+
+interface ActivityFeedProps {
+  projectId: string
+  currency: string
+  members: Member[]
+}
+
+export default function ActivityFeed({ projectId, currency, members }: ActivityFeedProps) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [memberFilter, setMemberFilter] = useState('')
+  const [entityFilter, setEntityFilter] = useState<ActivityEntityType | ''>('')
+
+  const fetchEntries = async (offset: number) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const query = new URLSearchParams({
+        offset: String(offset),
+        ...(memberFilter && { memberId: memberFilter }),
+        ...(entityFilter && { entityType: entityFilter }),
+      })
+      const response = await fetch(`/api/projects/${projectId}/activity?${query}`)
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch activity')
+      }
+
+      setEntries((current) => (offset === 0 ? result.data.entries : [...current, ...result.data.entries]))
+      setHasMore(result.data.hasMore)
+    } catch (error) {
+      console.error('Error fetching activity:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch activity')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEntries(0)
+  }, [projectId, memberFilter, entityFilter])
+
+  const getActorName = (entry: ActivityEntry) => {
+    if (!entry.actorMemberId) return 'Someone'
+    return members.find((member) => member.id === entry.actorMemberId)?.name ?? 'A removed member'
+  }
+
+  const formatAmount = (state: Record<string, unknown> | null) =>
+    typeof state?.amount === 'number'
+      ? formatCurrency(fromMinorUnits(state.amount, currency), currency)
+      : null
+
+  const renderDetails = (entry: ActivityEntry) => {
+    if (entry.entityType !== 'expense') {
+      const changed = getChangedFields(entry)
+      return changed.length > 0 ? `Changed ${changed.join(', ')}` : null
+    }
+
+    if (entry.action !== 'update' && entry.action !== 'revert')
+      return formatAmount(entry.after ?? entry.before)
+
+    const changed = getChangedFields(entry)
+    const before = formatAmount(entry.before)
+    const after = formatAmount(entry.after)
+    return [
+      changed.length > 0 ? `Changed ${changed.join(', ')}` : 'No changes',
+      before !== after ? `${before} → ${after}` : null,
+    ]
+      .filter(Boolean)
+      .join(' · ')
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <select
+          className="input flex-1"
+          value={memberFilter}
+          onChange={(e) => setMemberFilter(e.target.value)}
+          aria-label="Filter by member"
+        >
+          <option value="">All members</option>
+          {members.map((member) => (
+            <option key={member.id} value={member.id}>
+              {member.name}
+            </option>
+          ))}
+        </select>
+        <select
+          className="input flex-1"
+          value={entityFilter}
+          onChange={(e) => setEntityFilter(e.target.value as ActivityEntityType | '')}
+          aria-label="Filter by type"
+        >
+          <option value="">Everything</option>
+          {ACTIVITY_ENTITY_TYPES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="rounded border border-red-400 bg-red-100 px-4 py-3 text-red-700">{error}</div>
+      )}
+
+      {entries.length === 0 && !isLoading ? (
+        <p className="text-sm text-gray-500">No activity yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {entries.map((entry) => {
+            const noun = ACTIVITY_ENTITY_TYPES.find((option) => option.value === entry.entityType)?.noun
+            const name = getActivityEntityName(entry)
+            const details = renderDetails(entry)
+
+            return (
+              <li key={entry.id} className="py-2 text-sm">
+                <div>
+                  <span className="font-medium">{getActorName(entry)}</span>{' '}
+                  {ACTIVITY_ACTION_VERBS[entry.action]} {noun}
+                  {name && <span className="font-medium"> “{name}”</span>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(entry.createdAt).toLocaleString()}
+                  {details && ` · ${details}`}
+                </div>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {hasMore && (
+        <button
+          type="button"
+          onClick={() => fetchEntries(entries.length)}
+          className="btn btn-secondary w-full"
+          disabled={isLoading}
+        >
+          {isLoading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,29 @@
-import { useEffect, useState } from 'react'
-import { formatCurrency } from '../utils/currency'
+import { useEffect, useRef, useState } from 'react'
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_EXPENSE,
+  formatFileSize,
+  uploadAttachment,
+} from '../utils/attachments'
+import {
+  CURRENCY_OPTIONS,
+  formatCurrency,
+  fromMinorUnits,
+  getCurrencyDecimals,
+  getMinorUnit,
+  roundToCurrency,
+  toMinorUnits,
+} from '../utils/currency'
+import { findExchangeRate } from '../utils/exchangeRates'
 import { evaluateArithmeticExpression } from '../utils/mathExpression'
-
-const roundToCent = (value: number): number => {
-  return Math.round(value * 100) / 100
-}
+import { RECURRENCE_FREQUENCIES, RecurrenceFrequency } from '../utils/recurrence'
+import {
+  SplitShareInput,
+  SplitType,
+  calculateItemizedOwedAmounts,
+  calculateOwedAmounts,
+} from '../utils/splits'
 
 interface Member {
   id: string
@@ -29,20 +48,59 @@ interface Split {
   shares?: number
   sharesInput?: string
   percent?: number
+  percentInput?: string
+  adjustment?: number
+  adjustmentInput?: string
   owedAmount: number
 }
 
+interface ExpenseItem {
+  description: string
+  amount: number
+  memberIds: string[]
+}
+
+interface ExpenseItemRow extends ExpenseItem {
+  amountInput: string
+}
+
 interface PaymentMethod {
   id: string
   name: string
   icon: string
 }
 
+interface ExchangeRate {
+  date: string | Date
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+}
+
+interface ExpenseTemplate {
+  id: string
+  name: string
+  description: string | null
+  categoryId: string | null
+  paymentMethodId: string | null
+  payerIds: string[]
+  splitType: SplitType
+  splits: {
+    memberId: string
+    shares: number | null
+    percent: number | null
+    adjustment: number | null
+  }[]
+}
+
 interface AddOrEditExpenseFormProps {
   projectId: string
   members: Member[]
   categories: Category[]
   paymentMethods: PaymentMethod[]
+  exchangeRates?: ExchangeRate[]
+  expenseTemplates?: ExpenseTemplate[]
+  onExpenseTemplateSaved?: (template: ExpenseTemplate) => void
   currentMemberId: string
   onClose: () => void
   onExpenseAdded: () => void
@@ -51,12 +109,18 @@ interface AddOrEditExpenseFormProps {
     id: string
     description: string
     amount: number
+    originalCurrency?: string | null
+    originalAmount?: number | null
+    exchangeRate?: number | null
     date: string | Date
-    splitType: 'even' | 'amount' | 'percent' | 'shares'
+    splitType: SplitType
     categoryId: string | null
     paymentMethodId?: string | null
     payments: Payment[]
     splits: Split[]
+    items?: ExpenseItem[]
+    taxAmount?: number | null
+    tipAmount?: number | null
     notes?: string
   }
   isEditing?: boolean
@@ -67,6 +131,9 @@ export default function AddOrEditExpenseForm({
   members,
   categories,
   paymentMethods,
+  exchangeRates = [],
+  expenseTemplates = [],
+  onExpenseTemplateSaved,
   currentMemberId,
   onClose,
   onExpenseAdded,
@@ -76,6 +143,115 @@ export default function AddOrEditExpenseForm({
 }: AddOrEditExpenseFormProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [templateMessage, setTemplateMessage] = useState<string | null>(null)
+  // Set when a template fills in the splits, so rebuilding the split structure keeps its values
+  const keepSplitInputsRef = useRef(false)
+
+  // Amounts are rounded to the project currency's minor unit, e.g. whole yen for JPY
+  const minorUnit = getMinorUnit(currency)
+  const amountPlaceholder = (0).toFixed(getCurrencyDecimals(currency))
+  const roundAmount = (value: number): number => roundToCurrency(value, currency)
+
+  // Owed amounts come from the shared split engine, so the form shows exactly what the server stores
+  const allocateAmount = (totalAmount: number, type: SplitType, inputs: SplitShareInput[]): number[] =>
+    calculateOwedAmounts(toMinorUnits(totalAmount, currency), type, inputs).map((units) =>
+      fromMinorUnits(units, currency)
+    )
+
+  // Recalculate participants' owed amounts from their shares; when all shares are 0, split evenly
+  const withSharesOwedAmounts = (currentSplits: Split[], totalAmount: number): Split[] => {
+    const participantSplits = currentSplits.filter((s) => participants.includes(s.memberId))
+    if (participantSplits.length === 0) return currentSplits
+
+    const totalShares = participantSplits.reduce((sum, s) => sum + (s.shares || 0), 0)
+    const owedAmounts = allocateAmount(totalAmount, totalShares > 0 ? 'shares' : 'even', participantSplits)
+
+    return currentSplits.map((split) => {
+      const index = participantSplits.indexOf(split)
+      return index === -1 ? split : { ...split, owedAmount: owedAmounts[index] }
+    })
+  }
+
+  // Percentages may be entered with float noise (e.g. 100/3), so totals within 0.01% count as 100%
+  const isFullPercent = (percentTotal: number) => Math.abs(percentTotal - 100) <= 0.01
+
+  // Recalculate participants' owed amounts from their percentages. Until they add up to 100%,
+  // each participant is shown their plain share of the total.
+  const withPercentOwedAmounts = (currentSplits: Split[], totalAmount: number): Split[] => {
+    const participantSplits = currentSplits.filter((s) => participants.includes(s.memberId))
+    if (participantSplits.length === 0) return currentSplits
+
+    const percentTotal = participantSplits.reduce((sum, s) => sum + (s.percent || 0), 0)
+    const owedAmounts = isFullPercent(percentTotal)
+      ? allocateAmount(totalAmount, 'percent', participantSplits)
+      : participantSplits.map((s) => roundAmount((totalAmount * (s.percent || 0)) / 100))
+
+    return currentSplits.map((split) => {
+      const index = participantSplits.indexOf(split)
+      return index === -1 ? split : { ...split, owedAmount: owedAmounts[index] }
+    })
+  }
+
+  // Recalculate participants' owed amounts as an even share of what is left after their adjustments
+  const withAdjustmentOwedAmounts = (currentSplits: Split[], totalAmount: number): Split[] => {
+    const participantSplits = currentSplits.filter((s) => participants.includes(s.memberId))
+    if (participantSplits.length === 0) return currentSplits
+
+    const owedAmounts = allocateAmount(
+      totalAmount,
+      'adjustment',
+      participantSplits.map((s) => ({
+        memberId: s.memberId,
+        adjustment: toMinorUnits(s.adjustment || 0, currency),
+      }))
+    )
+
+    return currentSplits.map((split) => {
+      const index = participantSplits.indexOf(split)
+      return index === -1 ? split : { ...split, owedAmount: owedAmounts[index] }
+    })
+  }
+
+  // Items only count members who are involved; tax and tip may be math expressions like amounts
+  const getItemizedRequest = () => {
+    const parseExtra = (value: string) => {
+      const evaluated = evaluateExpressionClient(value || '0')
+      return evaluated !== null && Number.isFinite(evaluated) ? roundAmount(evaluated) : 0
+    }
+
+    return {
+      items: items.map((item) => ({
+        description: item.description.trim(),
+        amount: item.amount,
+        memberIds: item.memberIds.filter((memberId) => participants.includes(memberId)),
+      })),
+      taxAmount: parseExtra(taxInput),
+      tipAmount: parseExtra(tipInput),
+    }
+  }
+
+  // Recalculate owed amounts from the items, with tax and tip distributed in proportion to them.
+  // Items without an amount or members are left out until they are complete.
+  const withItemizedOwedAmounts = (currentSplits: Split[]): Split[] => {
+    const itemized = getItemizedRequest()
+    const completeItems = itemized.items.filter((item) => item.amount > 0 && item.memberIds.length > 0)
+    const owedAmounts =
+      completeItems.length === 0
+        ? []
+        : calculateItemizedOwedAmounts(
+            completeItems.map((item) => ({
+              amount: toMinorUnits(item.amount, currency),
+              memberIds: item.memberIds,
+            })),
+            toMinorUnits(itemized.taxAmount, currency),
+            toMinorUnits(itemized.tipAmount, currency)
+          )
+    const owedByMember = new Map(
+      owedAmounts.map((owed) => [owed.memberId, fromMinorUnits(owed.owedAmount, currency)])
+    )
+
+    return currentSplits.map((split) => ({ ...split, owedAmount: owedByMember.get(split.memberId) ?? 0 }))
+  }
 
   // Safe arithmetic-only evaluator for split amount inputs.
   const evaluateExpressionClient = (expression: string): number | null => {
@@ -91,6 +267,12 @@ export default function AddOrEditExpenseForm({
 
   const [description, setDescription] = useState(expense?.description || '')
   const [amount, setAmount] = useState(expense ? expense.amount.toString() : '')
+  // Currency the expense was paid in; the amount above is always in the project currency
+  const [expenseCurrency, setExpenseCurrency] = useState(expense?.originalCurrency || currency)
+  const [originalAmount, setOriginalAmount] = useState(expense?.originalAmount?.toString() || '')
+  const [exchangeRate, setExchangeRate] = useState(expense?.exchangeRate?.toString() || '')
+  const [exchangeRateDate, setExchangeRateDate] = useState<string | null>(null)
+  const isForeignCurrency = expenseCurrency !== currency
   const [date, setDate] = useState(() => {
     if (expense?.date) {
       if (expense.date instanceof Date) {
@@ -104,14 +286,16 @@ export default function AddOrEditExpenseForm({
     }
     return new Date().toISOString().split('T')[0]
   })
-  const [splitType, setSplitType] = useState<'even' | 'amount' | 'shares'>(() => {
-    if (expense?.splitType === 'percent') {
-      return 'shares'
-    }
-    return (expense?.splitType as 'even' | 'amount' | 'shares') || 'even'
-  })
+  const [splitType, setSplitType] = useState<SplitType>(expense?.splitType || 'even')
   const [categoryId, setCategoryId] = useState<string | null>(expense?.categoryId || null)
   const [notes, setNotes] = useState<string>(expense?.notes || '')
+  // New expenses can repeat; the date above is then the first occurrence
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | ''>('')
+  const [repeatEnd, setRepeatEnd] = useState<'never' | 'date' | 'count'>('never')
+  const [repeatEndDate, setRepeatEndDate] = useState('')
+  const [repeatCount, setRepeatCount] = useState('')
+  // Receipts are uploaded once the expense is saved
+  const [receipts, setReceipts] = useState<File[]>([])
 
   const initialParticipants =
     expense?.splits && expense.splits.length > 0
@@ -126,6 +310,12 @@ export default function AddOrEditExpenseForm({
 
   const [splits, setSplits] = useState<Split[]>(expense?.splits || [])
 
+  const [items, setItems] = useState<ExpenseItemRow[]>(
+    (expense?.items ?? []).map((item) => ({ ...item, amountInput: item.amount.toString() }))
+  )
+  const [taxInput, setTaxInput] = useState(expense?.taxAmount?.toString() || '')
+  const [tipInput, setTipInput] = useState(expense?.tipAmount?.toString() || '')
+
   useEffect(() => {
     initializeSplitsStructure()
   }, [participants, splitType])
@@ -135,6 +325,92 @@ export default function AddOrEditExpenseForm({
     recalculateOwedAmounts(parsedAmount)
   }, [amount, participants, splitType])
 
+  useEffect(() => {
+    if (splitType === 'itemized') setSplits(withItemizedOwedAmounts)
+  }, [items, taxInput, tipInput, participants, splitType])
+
+  // Split inputs sent to the server: participants only, and shares fall back to an even split until set
+  const getSplitRequest = () => {
+    const participantSplits = splits.filter((s) => participants.includes(s.memberId))
+    const totalShares = participantSplits.reduce((sum, s) => sum + (s.shares || 0), 0)
+
+    return {
+      splitType: splitType === 'shares' && totalShares <= 0 ? 'even' : splitType,
+      splits: participantSplits.map(({ memberId, amount, shares, percent, adjustment, owedAmount }) => ({
+        memberId,
+        amount,
+        shares,
+        percent,
+        adjustment,
+        owedAmount,
+      })),
+      // Itemized splits are derived from the items on the server
+      ...(splitType === 'itemized' && getItemizedRequest()),
+    }
+  }
+
+  // Render the split the way the server will store it. The local calculation is shown until the preview arrives.
+  const splitRequest = getSplitRequest()
+  const previewKey = JSON.stringify({
+    amount,
+    splitType: splitRequest.splitType,
+    splits: splitRequest.splits.map(({ memberId, shares, percent, adjustment }) => ({
+      memberId,
+      shares,
+      percent,
+      adjustment,
+    })),
+  })
+
+  useEffect(() => {
+    const parsedAmount = Number(amount)
+    if (splitRequest.splitType === 'amount' || splitRequest.splitType === 'itemized') return
+    if (!(parsedAmount > 0) || splitRequest.splits.length === 0) return
+    // The server rejects percentages that do not add up to 100%; the footer already reports that
+    if (
+      splitRequest.splitType === 'percent' &&
+      !isFullPercent(splitRequest.splits.reduce((sum, s) => sum + (s.percent || 0), 0))
+    ) {
+      return
+    }
+
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/expenses/preview', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            projectId,
+            amount: parsedAmount,
+            splitType: splitRequest.splitType,
+            splits: splitRequest.splits.map(({ owedAmount, ...split }) => split),
+          }),
+        })
+        const result = await response.json()
+        if (cancelled || !result.success) return
+
+        const previewed = new Map<string, number>(
+          result.data.splits.map((split: Split) => [split.memberId, split.owedAmount])
+        )
+        setSplits((currentSplits) =>
+          currentSplits.map((split) =>
+            previewed.has(split.memberId) ? { ...split, owedAmount: previewed.get(split.memberId)! } : split
+          )
+        )
+      } catch (error) {
+        console.error('Error previewing split:', error)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [previewKey])
+
   const toggleParticipant = (memberId: string) => {
     if (participants.includes(memberId)) {
       if (participants.length <= 1) return
@@ -153,13 +429,15 @@ export default function AddOrEditExpenseForm({
         return { ...(existingSplit || { memberId: member.id }), owedAmount: 0 }
       }
 
-      // For edit mode: preserve existing split data with all properties
-      if (isEditing && existingSplit) {
+      // For edit mode or an applied template: preserve existing split data with all properties
+      if ((isEditing || keepSplitInputsRef.current) && existingSplit) {
         return {
           ...existingSplit,
           // Ensure these fields exist for editing
           amountInput: existingSplit.amount?.toString() || '',
           sharesInput: existingSplit.shares?.toString() || '',
+          percentInput: existingSplit.percent?.toString() || '',
+          adjustmentInput: existingSplit.adjustment?.toString() || '',
         } satisfies Split
       }
 
@@ -171,11 +449,16 @@ export default function AddOrEditExpenseForm({
         amountInput: '',
         shares: 0,
         sharesInput: '',
+        percent: 0,
+        percentInput: '',
+        adjustment: 0,
+        adjustmentInput: '',
       }
 
       return baseSplit
     })
 
+    keepSplitInputsRef.current = false
     setSplits(updatedSplits)
   }
 
@@ -188,6 +471,42 @@ export default function AddOrEditExpenseForm({
     }
   }
 
+  const addItem = () => {
+    setItems([...items, { description: '', amount: 0, amountInput: '', memberIds: participants }])
+  }
+
+  const removeItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index))
+  }
+
+  const updateItem = (index: number, field: 'description' | 'amountInput', rawValue: string) => {
+    const newItems = [...items]
+
+    if (field === 'amountInput') {
+      const value = rawValue.replace(/[^0-9.,+\-*/() ]/g, '')
+      const evaluatedValue = evaluateExpressionClient(value || '0')
+      newItems[index] = { ...newItems[index], amountInput: value }
+      if (evaluatedValue !== null && Number.isFinite(evaluatedValue)) {
+        newItems[index].amount = roundAmount(evaluatedValue)
+      }
+    } else {
+      newItems[index] = { ...newItems[index], description: rawValue }
+    }
+
+    setItems(newItems)
+  }
+
+  const toggleItemMember = (index: number, memberId: string) => {
+    const item = items[index]
+    const memberIds = item.memberIds.includes(memberId)
+      ? item.memberIds.filter((id) => id !== memberId)
+      : [...item.memberIds, memberId]
+
+    const newItems = [...items]
+    newItems[index] = { ...item, memberIds }
+    setItems(newItems)
+  }
+
   const removePayer = (index: number) => {
     if (payers.length > 1) {
       const newPayers = [...payers]
@@ -215,17 +534,27 @@ export default function AddOrEditExpenseForm({
 
   const updateSplit = (
     index: number,
-    field: 'amount' | 'shares' | 'amountInput' | 'sharesInput',
+    field: 'amount' | 'shares' | 'amountInput' | 'sharesInput' | 'percentInput' | 'adjustmentInput',
     rawValue: string
   ) => {
-    const value =
-      field === 'amountInput' ? rawValue.replace(/[^0-9.,+\-*/() ]/g, '') : rawValue.replace(/[^0-9.,]/g, '')
+    const acceptsExpression =
+      field === 'amountInput' || field === 'percentInput' || field === 'adjustmentInput'
+    const value = acceptsExpression
+      ? rawValue.replace(/[^0-9.,+\-*/() ]/g, '')
+      : rawValue.replace(/[^0-9.,]/g, '')
 
     const newSplits = [...splits]
 
     // Handle input fields and update corresponding numeric value
-    if (field === 'amountInput' || field === 'sharesInput') {
-      const numericField = field === 'amountInput' ? 'amount' : 'shares'
+    if (acceptsExpression || field === 'sharesInput') {
+      const numericField =
+        field === 'amountInput'
+          ? 'amount'
+          : field === 'sharesInput'
+            ? 'shares'
+            : field === 'percentInput'
+              ? 'percent'
+              : 'adjustment'
 
       // Update the string input value
       newSplits[index] = {
@@ -233,86 +562,24 @@ export default function AddOrEditExpenseForm({
         [field]: value,
       }
 
-      const evaluatedValue = field === 'amountInput' ? evaluateExpressionClient(value || '0') : Number(value)
+      const evaluatedValue = acceptsExpression ? evaluateExpressionClient(value || '0') : Number(value)
       if (evaluatedValue !== null && Number.isFinite(evaluatedValue)) {
-        newSplits[index][numericField] = roundToCent(evaluatedValue)
+        // Percentages keep their precision so that e.g. 100/3 three times still adds up to 100%
+        newSplits[index][numericField] =
+          numericField === 'percent' ? evaluatedValue : roundAmount(evaluatedValue)
       }
 
       // Add calculation code back
-      if (numericField === 'shares') {
+      if (numericField === 'percent') {
+        const totalAmountNum = parseFloat(amount) || 0
+        setSplits(withPercentOwedAmounts(newSplits, totalAmountNum))
+      } else if (numericField === 'adjustment') {
+        const totalAmountNum = parseFloat(amount) || 0
+        setSplits(withAdjustmentOwedAmounts(newSplits, totalAmountNum))
+      } else if (numericField === 'shares') {
         // Shares calculation logic
-        const totalShares = newSplits
-          .filter((s) => participants.includes(s.memberId))
-          .reduce((sum, s) => sum + (s.shares || 0), 0)
-
         const totalAmountNum = parseFloat(amount) || 0
-
-        if (totalShares > 0) {
-          const updatedSplits = newSplits.map((split) => {
-            if (!participants.includes(split.memberId)) {
-              return split
-            }
-
-            return {
-              ...split,
-              owedAmount: roundToCent(totalAmountNum * ((split.shares || 0) / totalShares)),
-            }
-          })
-
-          const participantSplits = updatedSplits.filter((s) => participants.includes(s.memberId))
-          const totalCalculated = participantSplits.reduce((sum, s) => sum + s.owedAmount, 0)
-          const difference = roundToCent(totalAmountNum - totalCalculated)
-
-          if (Math.abs(difference) > 0.001 && participantSplits.length > 0) {
-            const lastParticipantId = participantSplits[participantSplits.length - 1].memberId
-            const lastIndex = updatedSplits.findIndex((s) => s.memberId === lastParticipantId)
-
-            if (lastIndex >= 0) {
-              updatedSplits[lastIndex] = {
-                ...updatedSplits[lastIndex],
-                owedAmount: roundToCent(updatedSplits[lastIndex].owedAmount + difference),
-              }
-            }
-          }
-
-          setSplits(updatedSplits)
-        } else {
-          // When all shares are 0, distribute evenly like in "even" split type
-          const participantCount = participants.length
-          if (participantCount > 0 && totalAmountNum > 0) {
-            const evenAmount = roundToCent(totalAmountNum / participantCount)
-
-            const evenSplits = newSplits.map((split) => {
-              if (!participants.includes(split.memberId)) {
-                return split
-              }
-              return {
-                ...split,
-                owedAmount: evenAmount,
-              }
-            })
-
-            // Fix rounding errors
-            const totalEvenAmount = evenAmount * participantCount
-            const difference = roundToCent(totalAmountNum - totalEvenAmount)
-
-            if (Math.abs(difference) > 0.001 && participants.length > 0) {
-              const lastParticipantId = participants[participants.length - 1]
-              const lastIndex = evenSplits.findIndex((s) => s.memberId === lastParticipantId)
-
-              if (lastIndex >= 0) {
-                evenSplits[lastIndex] = {
-                  ...evenSplits[lastIndex],
-                  owedAmount: roundToCent(evenSplits[lastIndex].owedAmount + difference),
-                }
-              }
-            }
-
-            setSplits(evenSplits)
-          } else {
-            setSplits(newSplits)
-          }
-        }
+        setSplits(withSharesOwedAmounts(newSplits, totalAmountNum))
       } else if (numericField === 'amount') {
         // Amount calculation logic
         const amountValue = newSplits[index].amount || 0
@@ -331,78 +598,8 @@ export default function AddOrEditExpenseForm({
 
       if (field === 'shares') {
         // Shares calculation logic (same as above)
-        const totalShares = newSplits
-          .filter((s) => participants.includes(s.memberId))
-          .reduce((sum, s) => sum + (s.shares || 0), 0)
-
         const totalAmountNum = parseFloat(amount) || 0
-
-        if (totalShares > 0) {
-          const updatedSplits = newSplits.map((split) => {
-            if (!participants.includes(split.memberId)) {
-              return split
-            }
-
-            return {
-              ...split,
-              owedAmount: roundToCent(totalAmountNum * ((split.shares || 0) / totalShares)),
-            }
-          })
-
-          const participantSplits = updatedSplits.filter((s) => participants.includes(s.memberId))
-          const totalCalculated = participantSplits.reduce((sum, s) => sum + s.owedAmount, 0)
-          const difference = roundToCent(totalAmountNum - totalCalculated)
-
-          if (Math.abs(difference) > 0.001 && participantSplits.length > 0) {
-            const lastParticipantId = participantSplits[participantSplits.length - 1].memberId
-            const lastIndex = updatedSplits.findIndex((s) => s.memberId === lastParticipantId)
-
-            if (lastIndex >= 0) {
-              updatedSplits[lastIndex] = {
-                ...updatedSplits[lastIndex],
-                owedAmount: roundToCent(updatedSplits[lastIndex].owedAmount + difference),
-              }
-            }
-          }
-
-          setSplits(updatedSplits)
-        } else {
-          // When all shares are 0, distribute evenly like in "even" split type
-          const participantCount = participants.length
-          if (participantCount > 0 && totalAmountNum > 0) {
-            const evenAmount = roundToCent(totalAmountNum / participantCount)
-
-            const evenSplits = newSplits.map((split) => {
-              if (!participants.includes(split.memberId)) {
-                return split
-              }
-              return {
-                ...split,
-                owedAmount: evenAmount,
-              }
-            })
-
-            // Fix rounding errors
-            const totalEvenAmount = evenAmount * participantCount
-            const difference = roundToCent(totalAmountNum - totalEvenAmount)
-
-            if (Math.abs(difference) > 0.001 && participants.length > 0) {
-              const lastParticipantId = participants[participants.length - 1]
-              const lastIndex = evenSplits.findIndex((s) => s.memberId === lastParticipantId)
-
-              if (lastIndex >= 0) {
-                evenSplits[lastIndex] = {
-                  ...evenSplits[lastIndex],
-                  owedAmount: roundToCent(evenSplits[lastIndex].owedAmount + difference),
-                }
-              }
-            }
-
-            setSplits(evenSplits)
-          } else {
-            setSplits(newSplits)
-          }
-        }
+        setSplits(withSharesOwedAmounts(newSplits, totalAmountNum))
       } else if (field === 'amount') {
         // Amount calculation logic (same as above)
         const memberIndex = newSplits.findIndex((s, i) => i === index)
@@ -437,9 +634,18 @@ export default function AddOrEditExpenseForm({
           owedAmount: split.amount || 0,
         }))
         break
+      case 'percent':
+        calculatedSplits = withPercentOwedAmounts(participantSplits, totalAmount)
+        break
       case 'shares':
         calculatedSplits = calculateSharesSplits(totalAmount)
         break
+      case 'itemized':
+        calculatedSplits = withItemizedOwedAmounts(participantSplits)
+        break
+      case 'adjustment':
+        calculatedSplits = withAdjustmentOwedAmounts(participantSplits, totalAmount)
+        break
     }
 
     setSplits((prevSplits) => {
@@ -457,6 +663,17 @@ export default function AddOrEditExpenseForm({
       return false
     }
 
+    if (isForeignCurrency) {
+      if (!(Number(originalAmount) > 0)) {
+        setError(`Valid amount in ${expenseCurrency} is required`)
+        return false
+      }
+      if (!(Number(exchangeRate) > 0)) {
+        setError('Valid exchange rate is required')
+        return false
+      }
+    }
+
     const parsedAmount = Number(amount)
     if (amount === '' || isNaN(parsedAmount) || parsedAmount <= 0) {
       setError('Valid amount is required')
@@ -464,7 +681,7 @@ export default function AddOrEditExpenseForm({
     }
 
     const totalPayment = payers.reduce((sum, payer) => sum + payer.amount, 0)
-    if (Math.abs(totalPayment - parsedAmount) > 0.01) {
+    if (Math.abs(totalPayment - parsedAmount) > minorUnit / 2) {
       // If there's only one payer, adjust the amount automatically
       if (payers.length === 1) {
         setPayers([{ ...payers[0], amount: parsedAmount }])
@@ -476,13 +693,13 @@ export default function AddOrEditExpenseForm({
 
         // Adjust all but the last payer
         for (let i = 0; i < newPayers.length - 1; i++) {
-          const adjustedAmount = roundToCent(newPayers[i].amount * ratio)
+          const adjustedAmount = roundAmount(newPayers[i].amount * ratio)
           newPayers[i].amount = adjustedAmount
           totalAdjusted += adjustedAmount
         }
 
         // Adjust the last payer to account for rounding errors
-        newPayers[newPayers.length - 1].amount = roundToCent(parsedAmount - totalAdjusted)
+        newPayers[newPayers.length - 1].amount = roundAmount(parsedAmount - totalAdjusted)
 
         setPayers(newPayers)
       } else {
@@ -493,12 +710,69 @@ export default function AddOrEditExpenseForm({
 
     if (splitType === 'amount') {
       const totalSplitAmount = splits.reduce((sum, split) => sum + (split.owedAmount || 0), 0)
-      if (Math.abs(totalSplitAmount - parsedAmount) > 0.01) {
+      if (Math.abs(totalSplitAmount - parsedAmount) > minorUnit / 2) {
         setError('Total split amount must equal expense amount')
         return false
       }
     }
 
+    if (splitType === 'percent') {
+      const percentTotal = splits
+        .filter((split) => participants.includes(split.memberId))
+        .reduce((sum, split) => sum + (split.percent || 0), 0)
+      if (!isFullPercent(percentTotal)) {
+        setError('Total percentage must equal 100%')
+        return false
+      }
+    }
+
+    if (splitType === 'adjustment') {
+      const participantSplits = splits.filter((split) => participants.includes(split.memberId))
+      const totalAdjustment = participantSplits.reduce((sum, split) => sum + (split.adjustment || 0), 0)
+      if (totalAdjustment - parsedAmount > minorUnit / 2) {
+        setError('Adjustments cannot add up to more than the expense amount')
+        return false
+      }
+      if (participantSplits.some((split) => split.owedAmount < 0)) {
+        setError('An adjustment leaves someone with a negative share')
+        return false
+      }
+    }
+
+    if (splitType === 'itemized') {
+      const itemized = getItemizedRequest()
+      if (itemized.items.length === 0) {
+        setError('Add at least one item')
+        return false
+      }
+
+      const incompleteIndex = itemized.items.findIndex(
+        (item) => !item.description || !(item.amount > 0) || item.memberIds.length === 0
+      )
+      if (incompleteIndex !== -1) {
+        setError(`Item ${incompleteIndex + 1} needs a description, an amount and at least one member`)
+        return false
+      }
+
+      const itemizedTotal =
+        itemized.items.reduce((sum, item) => sum + item.amount, 0) + itemized.taxAmount + itemized.tipAmount
+      if (Math.abs(itemizedTotal - parsedAmount) > minorUnit / 2) {
+        setError('Items, tax and tip must add up to the expense amount')
+        return false
+      }
+    }
+
+    if (repeatFrequency) {
+      if (repeatEnd === 'date' && (!repeatEndDate || repeatEndDate < date)) {
+        setError('End date must not be before the expense date')
+        return false
+      }
+      if (repeatEnd === 'count' && !(Number.isInteger(Number(repeatCount)) && Number(repeatCount) >= 1)) {
+        setError('Number of occurrences must be a whole number of at least 1')
+        return false
+      }
+    }
+
     return true
   }
 
@@ -513,7 +787,13 @@ export default function AddOrEditExpenseForm({
     setError(null)
 
     try {
-      const url = isEditing && expense ? `/api/expenses/${expense.id}` : '/api/expenses'
+      const isRecurring = !isEditing && repeatFrequency !== ''
+      const url =
+        isEditing && expense
+          ? `/api/expenses/${expense.id}`
+          : isRecurring
+            ? `/api/projects/${projectId}/recurring-expenses`
+            : '/api/expenses'
 
       const method = isEditing ? 'PUT' : 'POST'
 
@@ -526,13 +806,22 @@ export default function AddOrEditExpenseForm({
           projectId,
           description,
           amount: parseFloat(amount),
+          originalCurrency: isForeignCurrency ? expenseCurrency : null,
+          originalAmount: isForeignCurrency ? Number(originalAmount) : null,
+          exchangeRate: isForeignCurrency ? Number(exchangeRate) : null,
           date,
-          splitType,
+          ...splitRequest,
           categoryId,
           paymentMethodId: selectedPaymentMethod || null,
           payments: payers,
-          splits,
           notes: notes.trim() || null,
+          ...(isRecurring && {
+            recurrence: {
+              frequency: repeatFrequency,
+              endDate: repeatEnd === 'date' ? repeatEndDate : null,
+              occurrenceLimit: repeatEnd === 'count' ? Number(repeatCount) : null,
+            },
+          }),
         }),
       })
 
@@ -542,8 +831,25 @@ export default function AddOrEditExpenseForm({
         throw new Error(result.error || `Failed to ${isEditing ? 'update' : 'create'} expense`)
       }
 
+      // The expense is saved at this point, so a failed upload is reported without keeping the form open
+      const failedUploads: string[] = []
+      if (!isRecurring) {
+        for (const file of receipts) {
+          try {
+            await uploadAttachment(result.data.id, file)
+          } catch (error) {
+            console.error('Error uploading receipt:', error)
+            failedUploads.push(error instanceof Error ? error.message : `Failed to upload ${file.name}`)
+          }
+        }
+      }
+
       onExpenseAdded()
 
+      if (failedUploads.length > 0) {
+        alert(`The expense was saved, but some receipts were not attached:\n${failedUploads.join('\n')}`)
+      }
+
       onClose()
     } catch (error) {
       console.error(`Error ${isEditing ? 'updating' : 'creating'} expense:`, error)
@@ -567,6 +873,90 @@ export default function AddOrEditExpenseForm({
     expense?.paymentMethodId ?? ''
   )
 
+  // Pre-fill everything but the amount and date from a saved template. Members who have since
+  // left the project are skipped.
+  const applyTemplate = (template: ExpenseTemplate) => {
+    const memberIds = new Set(members.map((member) => member.id))
+    const payerIds = template.payerIds.filter((memberId) => memberIds.has(memberId))
+    const templateSplits = template.splits.filter((split) => memberIds.has(split.memberId))
+
+    setDescription(template.description || template.name)
+    setCategoryId(template.categoryId)
+    setSelectedPaymentMethod(template.paymentMethodId ?? '')
+
+    if (payerIds.length > 0) {
+      const payerAmounts = allocateAmount(
+        parseFloat(amount) || 0,
+        'even',
+        payerIds.map((memberId) => ({ memberId }))
+      )
+      setPayers(payerIds.map((memberId, index) => ({ memberId, amount: payerAmounts[index] })))
+    }
+
+    if (templateSplits.length > 0) {
+      keepSplitInputsRef.current = true
+      setParticipants(templateSplits.map((split) => split.memberId))
+      setSplits(
+        members.map((member) => {
+          const templateSplit = templateSplits.find((split) => split.memberId === member.id)
+          return {
+            memberId: member.id,
+            owedAmount: 0,
+            amount: 0,
+            shares: templateSplit?.shares ?? 0,
+            percent: templateSplit?.percent ?? 0,
+            adjustment: templateSplit?.adjustment ?? 0,
+          }
+        })
+      )
+      setSplitType(template.splitType)
+    }
+  }
+
+  const saveAsTemplate = async () => {
+    const name = prompt('Template name', description.trim())
+    if (!name?.trim()) return
+
+    setError(null)
+    setTemplateMessage(null)
+
+    try {
+      const response = await fetch('/api/expense-templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          projectId,
+          name,
+          description: description.trim() || null,
+          categoryId,
+          paymentMethodId: selectedPaymentMethod || null,
+          payerIds: payers.map((payer) => payer.memberId),
+          splitType: splitRequest.splitType,
+          splits: splitRequest.splits.map(({ memberId, shares, percent, adjustment }) => ({
+            memberId,
+            shares,
+            percent,
+            adjustment,
+          })),
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save template')
+      }
+
+      onExpenseTemplateSaved?.(result.data)
+      setTemplateMessage(`Saved template "${result.data.name}"`)
+    } catch (error) {
+      console.error('Error saving expense template:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save template')
+    }
+  }
+
   const handleAmountChange = (rawNewValue: string) => {
     const newValue = rawNewValue.replace(/[^0-9.,]/g, '')
 
@@ -586,28 +976,39 @@ export default function AddOrEditExpenseForm({
     }
   }
 
-  const calculateEvenSplits = (totalAmount: number): Split[] => {
-    if (participants.length === 0 || totalAmount <= 0) return []
+  // Convert the original amount into the project currency whenever the amount or rate changes
+  const handleConversionChange = (rawOriginalAmount: string, rawExchangeRate: string) => {
+    const newOriginalAmount = rawOriginalAmount.replace(/[^0-9.]/g, '')
+    const newExchangeRate = rawExchangeRate.replace(/[^0-9.]/g, '')
+    setOriginalAmount(newOriginalAmount)
+    setExchangeRate(newExchangeRate)
+
+    const parsedOriginalAmount = Number(newOriginalAmount)
+    const parsedExchangeRate = Number(newExchangeRate)
+    if (parsedOriginalAmount > 0 && parsedExchangeRate > 0) {
+      handleAmountChange(roundAmount(parsedOriginalAmount * parsedExchangeRate).toString())
+    }
+  }
 
-    const evenAmount = totalAmount / participants.length
-    const splits: Split[] = []
+  // Pre-fill the rate from the project's exchange-rate table, using the nearest earlier rate
+  const prefillExchangeRate = (currencyCode: string, dateValue: string) => {
+    if (currencyCode === currency) return
 
-    participants.forEach((pId) => {
-      splits.push({
-        memberId: pId,
-        owedAmount: roundToCent(evenAmount),
-      })
-    })
+    const match = findExchangeRate(exchangeRates, currencyCode, currency, dateValue)
+    setExchangeRateDate(match ? match.date : null)
+    if (match) handleConversionChange(originalAmount, match.rate.toString())
+  }
 
-    const totalCalculated = splits.reduce((sum, s) => sum + s.owedAmount, 0)
-    const difference = roundToCent(totalAmount - totalCalculated)
+  const calculateEvenSplits = (totalAmount: number): Split[] => {
+    if (participants.length === 0 || totalAmount <= 0) return []
 
-    if (Math.abs(difference) > 0.001 && splits.length > 0) {
-      const lastIndex = splits.length - 1
-      splits[lastIndex].owedAmount = roundToCent(splits[lastIndex].owedAmount + difference)
-    }
+    const owedAmounts = allocateAmount(
+      totalAmount,
+      'even',
+      participants.map((memberId) => ({ memberId }))
+    )
 
-    return splits
+    return participants.map((memberId, index) => ({ memberId, owedAmount: owedAmounts[index] }))
   }
 
   const calculateSharesSplits = (totalAmount: number): Split[] => {
@@ -620,29 +1021,13 @@ export default function AddOrEditExpenseForm({
       return calculateEvenSplits(totalAmount)
     }
 
-    const newSplits: Split[] = []
-
-    participants.forEach((pId) => {
-      const existingSplit = splits.find((s) => s.memberId === pId)
-      const shares = existingSplit?.shares || 0
-      const sharesProportion = shares / totalShares
-
-      newSplits.push({
-        memberId: pId,
-        shares,
-        owedAmount: roundToCent(totalAmount * sharesProportion),
-      })
-    })
-
-    const totalCalculated = newSplits.reduce((sum, s) => sum + s.owedAmount, 0)
-    const difference = roundToCent(totalAmount - totalCalculated)
+    const newSplits = participants.map((pId) => ({
+      memberId: pId,
+      shares: splits.find((s) => s.memberId === pId)?.shares || 0,
+    }))
+    const owedAmounts = allocateAmount(totalAmount, 'shares', newSplits)
 
-    if (Math.abs(difference) > 0.001 && newSplits.length > 0) {
-      const lastIndex = newSplits.length - 1
-      newSplits[lastIndex].owedAmount = roundToCent(newSplits[lastIndex].owedAmount + difference)
-    }
-
-    return newSplits
+    return newSplits.map((split, index) => ({ ...split, owedAmount: owedAmounts[index] }))
   }
 
   const autoFillSplits = () => {
@@ -669,17 +1054,17 @@ export default function AddOrEditExpenseForm({
     // If all fields are set, override everything
     // If some fields are set, only update the empty ones
     if (allHaveAmounts || !someHaveAmounts) {
-      // Distribute evenly among all participants
-      const amountPerPerson = roundToCent(totalAmountNum / participantIds.length)
+      // Distribute evenly among all participants, with leftover cents assigned by the split engine
+      const evenAmounts = allocateAmount(
+        totalAmountNum,
+        'even',
+        participantIds.map((memberId) => ({ memberId }))
+      )
 
       participantIds.forEach((pid, idx) => {
         const splitIndex = newSplits.findIndex((s) => s.memberId === pid)
         if (splitIndex >= 0) {
-          // Last person gets any remaining cents to ensure total is exact
-          const isLast = idx === participantIds.length - 1
-          const adjustedAmount = isLast
-            ? roundToCent(totalAmountNum - amountPerPerson * (participantIds.length - 1))
-            : amountPerPerson
+          const adjustedAmount = evenAmounts[idx]
 
           newSplits[splitIndex] = {
             ...newSplits[splitIndex],
@@ -703,20 +1088,13 @@ export default function AddOrEditExpenseForm({
         // Calculate remaining amount to distribute among empty fields
         const remainingAmount = Math.max(0, totalAmountNum - totalAllocated)
 
-        const amountPerEmptyPerson = roundToCent(remainingAmount / emptyParticipants.length)
+        const emptyAmounts = allocateAmount(remainingAmount, 'even', emptyParticipants)
 
         // Update only the empty fields
-        let distributedAmount = 0
         emptyParticipants.forEach((split, idx) => {
           const splitIndex = newSplits.findIndex((s) => s.memberId === split.memberId)
           if (splitIndex >= 0) {
-            // Last empty person gets any remaining cents to ensure total is exact
-            const isLast = idx === emptyParticipants.length - 1
-            const adjustedAmount = isLast
-              ? roundToCent(remainingAmount - distributedAmount)
-              : amountPerEmptyPerson
-
-            distributedAmount += amountPerEmptyPerson
+            const adjustedAmount = emptyAmounts[idx]
 
             newSplits[splitIndex] = {
               ...newSplits[splitIndex],
@@ -737,7 +1115,7 @@ export default function AddOrEditExpenseForm({
 
     const totalAmountNum = parseFloat(amount)
     const currentPayments = payers.reduce((sum, p, i) => (i !== index ? sum + (p.amount || 0) : sum), 0)
-    const remainingAmount = roundToCent(totalAmountNum - currentPayments)
+    const remainingAmount = roundAmount(totalAmountNum - currentPayments)
 
     // Always replace the amount regardless of current value
     // Ensure value is not negative
@@ -768,6 +1146,35 @@ export default function AddOrEditExpenseForm({
       {error && (
         <div className="mb-4 rounded border border-red-400 bg-red-100 px-4 py-3 text-red-700">{error}</div>
       )}
+      {templateMessage && (
+        <div className="mb-4 rounded border border-green-400 bg-green-100 px-4 py-3 text-green-700">
+          {templateMessage}
+        </div>
+      )}
+
+      {!isEditing && expenseTemplates.length > 0 && (
+        <div>
+          <label htmlFor="template" className="mb-1 block text-sm font-medium">
+            Template
+          </label>
+          <select
+            id="template"
+            className="input w-full"
+            defaultValue=""
+            onChange={(e) => {
+              const template = expenseTemplates.find((t) => t.id === e.target.value)
+              if (template) applyTemplate(template)
+            }}
+          >
+            <option value="">Start from scratch</option>
+            {expenseTemplates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
 
       <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
         <div>
@@ -796,14 +1203,80 @@ export default function AddOrEditExpenseForm({
             className="input w-full"
             value={amount}
             onChange={(e) => handleAmountChange(e.target.value)}
-            placeholder="0.00"
-            step="0.01"
+            placeholder={amountPlaceholder}
+            step={minorUnit}
             min="0"
+            readOnly={isForeignCurrency}
             required
           />
         </div>
       </div>
 
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <div>
+          <label htmlFor="expenseCurrency" className="mb-1 block text-sm font-medium">
+            Paid in
+          </label>
+          <select
+            id="expenseCurrency"
+            className="input w-full"
+            value={expenseCurrency}
+            onChange={(e) => {
+              setExpenseCurrency(e.target.value)
+              prefillExchangeRate(e.target.value, date)
+            }}
+          >
+            {CURRENCY_OPTIONS.map((option) => (
+              <option key={option.code} value={option.code}>
+                {option.code} - {option.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isForeignCurrency && (
+          <>
+            <div>
+              <label htmlFor="originalAmount" className="mb-1 block text-sm font-medium">
+                Amount ({expenseCurrency})
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                id="originalAmount"
+                className="input w-full"
+                value={originalAmount}
+                onChange={(e) => handleConversionChange(e.target.value, exchangeRate)}
+                placeholder={(0).toFixed(getCurrencyDecimals(expenseCurrency))}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="exchangeRate" className="mb-1 block text-sm font-medium">
+                Rate (1 {expenseCurrency} = ? {currency})
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                id="exchangeRate"
+                className="input w-full"
+                value={exchangeRate}
+                onChange={(e) => {
+                  setExchangeRateDate(null)
+                  handleConversionChange(originalAmount, e.target.value)
+                }}
+                placeholder="1.00"
+                required
+              />
+              {exchangeRateDate && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Rate from {exchangeRateDate}</p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
       <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
         <div>
           <label htmlFor="date" className="mb-1 block text-sm font-medium">
@@ -819,6 +1292,7 @@ export default function AddOrEditExpenseForm({
               const date = new Date(value)
               if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(date.getTime())) {
                 setDate(value)
+                prefillExchangeRate(expenseCurrency, value)
               }
             }}
             required
@@ -911,8 +1385,8 @@ export default function AddOrEditExpenseForm({
                       className="input w-full pr-9"
                       value={payer.amount || ''}
                       onChange={(e) => updatePayer(index, 'amount', e.target.value)}
-                      placeholder="0.00"
-                      step="0.01"
+                      placeholder={amountPlaceholder}
+                      step={minorUnit}
                       min="0"
                     />
                     <button
@@ -954,7 +1428,7 @@ export default function AddOrEditExpenseForm({
           <h3 className="text-md font-medium">How to split?</h3>
         </div>
 
-        <div className="mb-4 grid grid-cols-3 gap-2">
+        <div className="mb-4 grid grid-cols-2 gap-2 sm:grid-cols-3">
           <button
             type="button"
             className={`btn ${splitType === 'even' ? 'btn-primary' : 'btn-secondary'}`}
@@ -971,6 +1445,14 @@ export default function AddOrEditExpenseForm({
             By Amount
           </button>
 
+          <button
+            type="button"
+            className={`btn ${splitType === 'percent' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setSplitType('percent')}
+          >
+            By Percent
+          </button>
+
           <button
             type="button"
             className={`btn ${splitType === 'shares' ? 'btn-primary' : 'btn-secondary'}`}
@@ -978,12 +1460,28 @@ export default function AddOrEditExpenseForm({
           >
             By Shares
           </button>
+
+          <button
+            type="button"
+            className={`btn ${splitType === 'itemized' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setSplitType('itemized')}
+          >
+            Itemized
+          </button>
+
+          <button
+            type="button"
+            className={`btn ${splitType === 'adjustment' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setSplitType('adjustment')}
+          >
+            Even + Adjustments
+          </button>
         </div>
 
         <div className="rounded border border-gray-200 bg-gray-50 p-3 dark:border-gray-700 dark:bg-gray-800">
           <div className="mb-2 flex items-center justify-between">
             <h4 className="text-sm font-medium">Split Details</h4>
-            {splitType === 'amount' && (
+            {splitType !== 'even' && splitType !== 'shares' && (
               <span className="ml-2 min-w-0 flex-1 overflow-hidden text-ellipsis whitespace-nowrap text-xs text-gray-500 dark:text-gray-400">
                 (Math expressions allowed)
               </span>
@@ -1010,6 +1508,106 @@ export default function AddOrEditExpenseForm({
             )}
           </div>
 
+          {splitType === 'itemized' && (
+            <div className="mb-4 space-y-3 border-b border-gray-200 pb-4 dark:border-gray-700">
+              {items.map((item, index) => (
+                <div key={index} className="rounded border border-gray-200 p-2 dark:border-gray-700">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      className="input min-w-0 flex-grow"
+                      value={item.description}
+                      onChange={(e) => updateItem(index, 'description', e.target.value)}
+                      placeholder="Item"
+                    />
+                    <input
+                      type="text"
+                      inputMode="tel"
+                      className={`input w-28 ${
+                        !isValidNumberFormat(item.amountInput, true)
+                          ? 'border-red-500 bg-red-50 dark:border-red-400 dark:bg-red-900/20'
+                          : ''
+                      }`}
+                      value={item.amountInput}
+                      onChange={(e) => updateItem(index, 'amountInput', e.target.value)}
+                      placeholder={amountPlaceholder}
+                      title={
+                        !isValidNumberFormat(item.amountInput, true)
+                          ? 'Invalid number format - using previous valid value'
+                          : ''
+                      }
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeItem(index)}
+                      className="rounded-full p-1 text-red-600 hover:bg-red-50 hover:text-red-800 dark:hover:bg-red-900/20"
+                      title="Remove item"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {participants.map((memberId) => (
+                      <button
+                        key={memberId}
+                        type="button"
+                        onClick={() => toggleItemMember(index, memberId)}
+                        className={`rounded-full border px-2 py-0.5 text-xs ${
+                          item.memberIds.includes(memberId)
+                            ? 'border-blue-500 bg-blue-100 dark:border-blue-400 dark:bg-blue-900'
+                            : 'border-gray-300 bg-gray-100 text-gray-500 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-400'
+                        }`}
+                      >
+                        {getMemberName(memberId)}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <button
+                type="button"
+                onClick={addItem}
+                className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                + Add item
+              </button>
+
+              <div className="grid grid-cols-2 gap-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <span className="w-8">Tax</span>
+                  <input
+                    type="text"
+                    inputMode="tel"
+                    className={`input w-full ${
+                      !isValidNumberFormat(taxInput, true)
+                        ? 'border-red-500 bg-red-50 dark:border-red-400 dark:bg-red-900/20'
+                        : ''
+                    }`}
+                    value={taxInput}
+                    onChange={(e) => setTaxInput(e.target.value.replace(/[^0-9.,+\-*/() ]/g, ''))}
+                    placeholder={amountPlaceholder}
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <span className="w-8">Tip</span>
+                  <input
+                    type="text"
+                    inputMode="tel"
+                    className={`input w-full ${
+                      !isValidNumberFormat(tipInput, true)
+                        ? 'border-red-500 bg-red-50 dark:border-red-400 dark:bg-red-900/20'
+                        : ''
+                    }`}
+                    value={tipInput}
+                    onChange={(e) => setTipInput(e.target.value.replace(/[^0-9.,+\-*/() ]/g, ''))}
+                    placeholder={amountPlaceholder}
+                  />
+                </label>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-3">
             {splits
               .filter((split) => participants.includes(split.memberId))
@@ -1035,8 +1633,8 @@ export default function AddOrEditExpenseForm({
                           onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
                             updateSplit(originalIndex, 'amountInput', e.target.value)
                           }
-                          placeholder="0.00"
-                          step="0.01"
+                          placeholder={amountPlaceholder}
+                          step={minorUnit}
                           min="0"
                           title={
                             !isValidNumberFormat(split.amountInput, true)
@@ -1057,7 +1655,7 @@ export default function AddOrEditExpenseForm({
                               )
                               .reduce((sum, s) => sum + (s.amount || 0), 0)
 
-                            const remainingAmount = roundToCent(totalAmountNum - otherSplits)
+                            const remainingAmount = roundAmount(totalAmountNum - otherSplits)
 
                             // Always replace the value regardless of current value
                             // Ensure value is not negative
@@ -1090,6 +1688,94 @@ export default function AddOrEditExpenseForm({
                       </div>
                     )}
 
+                    {splitType === 'percent' && (
+                      <div className="relative flex-grow">
+                        <input
+                          type="text"
+                          inputMode="tel"
+                          className={`input w-full pr-14 ${
+                            !isValidNumberFormat(split.percentInput, true)
+                              ? 'border-red-500 bg-red-50 dark:border-red-400 dark:bg-red-900/20'
+                              : ''
+                          }`}
+                          value={split.percentInput || ''}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            updateSplit(originalIndex, 'percentInput', e.target.value)
+                          }
+                          placeholder="0"
+                          title={
+                            !isValidNumberFormat(split.percentInput, true)
+                              ? 'Invalid number format - using previous valid value'
+                              : ''
+                          }
+                        />
+                        <span className="pointer-events-none absolute right-10 top-1/2 -translate-y-1/2 text-gray-500 dark:text-gray-400">
+                          %
+                        </span>
+                        <button
+                          type="button"
+                          className="absolute bottom-0 right-0 top-0 flex items-center justify-center px-3 text-blue-600 hover:bg-black/5 dark:text-blue-400 dark:hover:bg-white/5"
+                          onClick={() => {
+                            const otherPercent = splits
+                              .filter(
+                                (s) => participants.includes(s.memberId) && s.memberId !== split.memberId
+                              )
+                              .reduce((sum, s) => sum + (s.percent || 0), 0)
+
+                            const newPercent = Math.max(0, Math.round((100 - otherPercent) * 10000) / 10000)
+                            updateSplit(originalIndex, 'percentInput', newPercent.toString())
+                          }}
+                          title="Fill with remaining percentage"
+                        >
+                          ↓
+                        </button>
+                        {!isValidNumberFormat(split.percentInput, true) && (
+                          <div className="absolute right-14 top-1/2 -translate-y-1/2 text-red-500 dark:text-red-400">
+                            <span
+                              className="cursor-help text-xs"
+                              title="Invalid number format - using previous valid value"
+                            >
+                              !
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {splitType === 'adjustment' && (
+                      <div className="relative flex-grow">
+                        <input
+                          type="text"
+                          inputMode="tel"
+                          className={`input w-full ${
+                            !isValidNumberFormat(split.adjustmentInput, true)
+                              ? 'border-red-500 bg-red-50 dark:border-red-400 dark:bg-red-900/20'
+                              : ''
+                          }`}
+                          value={split.adjustmentInput || ''}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            updateSplit(originalIndex, 'adjustmentInput', e.target.value)
+                          }
+                          placeholder={`±${amountPlaceholder}`}
+                          title={
+                            !isValidNumberFormat(split.adjustmentInput, true)
+                              ? 'Invalid number format - using previous valid value'
+                              : 'Extra amount for this person; use a negative amount to reduce their share'
+                          }
+                        />
+                        {!isValidNumberFormat(split.adjustmentInput, true) && (
+                          <div className="absolute right-3 top-1/2 -translate-y-1/2 text-red-500 dark:text-red-400">
+                            <span
+                              className="cursor-help text-xs"
+                              title="Invalid number format - using previous valid value"
+                            >
+                              !
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {splitType === 'shares' && (
                       <div className="flex flex-grow items-center">
                         <div className="relative flex-grow">
@@ -1158,8 +1844,8 @@ export default function AddOrEditExpenseForm({
                     (sum, s) => sum + (s.amount || 0),
                     0
                   )
-                  const difference = roundToCent(totalAmountNum - currentSplitTotalAmount)
-                  const isMatch = Math.abs(difference) < 0.01
+                  const difference = roundAmount(totalAmountNum - currentSplitTotalAmount)
+                  const isMatch = Math.abs(difference) < minorUnit / 2
                   const hasInput = participantSplits.some((s) => s.amount !== undefined && s.amount !== null)
 
                   let textColor = 'text-gray-500 dark:text-gray-400'
@@ -1182,6 +1868,101 @@ export default function AddOrEditExpenseForm({
 
                   return <p className={`mt-1 text-sm ${textColor} ${fontWeight}`}>{hintText}</p>
                 })()}
+              {splitType === 'percent' &&
+                (() => {
+                  const participantSplits = splits.filter((s) => participants.includes(s.memberId))
+                  const percentTotal = participantSplits.reduce((sum, s) => sum + (s.percent || 0), 0)
+                  const remainingPercent = Math.round((100 - percentTotal) * 100) / 100
+                  const hasInput = participantSplits.some((s) => s.percentInput)
+
+                  let textColor = 'text-gray-500 dark:text-gray-400'
+                  let fontWeight = 'font-normal'
+                  let hintText = 'Total must equal 100%.'
+
+                  if (hasInput) {
+                    fontWeight = 'font-semibold'
+                    if (isFullPercent(percentTotal)) {
+                      textColor = 'text-green-600 dark:text-green-400'
+                      hintText = 'Total matches: 100%'
+                    } else {
+                      textColor = 'text-red-600 dark:text-red-400'
+                      hintText = `${Math.abs(remainingPercent).toLocaleString()}% ${
+                        remainingPercent > 0 ? 'left' : 'over'
+                      }. Current total: ${(Math.round(percentTotal * 100) / 100).toLocaleString()}%`
+                    }
+                  }
+
+                  return <p className={`mt-1 text-sm ${textColor} ${fontWeight}`}>{hintText}</p>
+                })()}
+              {splitType === 'itemized' &&
+                (() => {
+                  const totalAmountNum = parseFloat(amount) || 0
+                  const itemized = getItemizedRequest()
+                  const itemizedTotal = roundAmount(
+                    itemized.items.reduce((sum, item) => sum + item.amount, 0) +
+                      itemized.taxAmount +
+                      itemized.tipAmount
+                  )
+                  const difference = roundAmount(totalAmountNum - itemizedTotal)
+                  const isMatch = Math.abs(difference) < minorUnit / 2
+
+                  if (items.length === 0) {
+                    return (
+                      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                        Add the items on the receipt. Tax and tip are shared in proportion to them.
+                      </p>
+                    )
+                  }
+
+                  return (
+                    <div className="mt-1 flex items-center justify-between gap-2">
+                      <p
+                        className={`text-sm font-semibold ${
+                          isMatch ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                        }`}
+                      >
+                        {isMatch
+                          ? `Total matches: ${formatAmount(totalAmountNum)}`
+                          : `Items, tax and tip: ${formatAmount(itemizedTotal)} (${formatAmount(
+                              Math.abs(difference)
+                            )} ${difference > 0 ? 'left' : 'over'})`}
+                      </p>
+                      {!isMatch && !isForeignCurrency && itemizedTotal > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => handleAmountChange(itemizedTotal.toString())}
+                          className="whitespace-nowrap text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                        >
+                          Use as amount
+                        </button>
+                      )}
+                    </div>
+                  )
+                })()}
+              {splitType === 'adjustment' &&
+                participants.length > 0 &&
+                (() => {
+                  const totalAmountNum = parseFloat(amount) || 0
+                  const totalAdjustment = splits
+                    .filter((s) => participants.includes(s.memberId))
+                    .reduce((sum, s) => sum + (s.adjustment || 0), 0)
+                  const remainder = roundAmount(totalAmountNum - totalAdjustment)
+
+                  if (remainder < 0) {
+                    return (
+                      <p className="mt-1 text-sm font-semibold text-red-600 dark:text-red-400">
+                        Adjustments are {formatAmount(-remainder)} over the expense amount
+                      </p>
+                    )
+                  }
+
+                  return (
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                      {formatAmount(remainder)} is split evenly, about{' '}
+                      {formatAmount(roundAmount(remainder / participants.length))} each, plus adjustments
+                    </p>
+                  )
+                })()}
               {splitType === 'shares' && (
                 <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                   Total shares:{' '}
@@ -1193,7 +1974,7 @@ export default function AddOrEditExpenseForm({
               {splitType === 'even' && participants.length > 0 && (
                 <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
                   Each person pays{' '}
-                  {formatAmount(roundToCent((parseFloat(amount) || 0) / participants.length))}
+                  {formatAmount(roundAmount((parseFloat(amount) || 0) / participants.length))}
                 </p>
               )}
             </div>
@@ -1215,7 +1996,100 @@ export default function AddOrEditExpenseForm({
         />
       </div>
 
+      {!repeatFrequency && (
+        <div>
+          <label htmlFor="receipts" className="mb-1 block text-sm font-medium">
+            {isEditing ? 'Add Receipts (Optional)' : 'Receipts (Optional)'}
+          </label>
+          <input
+            id="receipts"
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? [])
+              if (files.length > MAX_ATTACHMENTS_PER_EXPENSE) {
+                setError(`An expense can have at most ${MAX_ATTACHMENTS_PER_EXPENSE} attachments`)
+                e.target.value = ''
+                return
+              }
+              setReceipts(files)
+            }}
+            className="text-sm"
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Photos or PDFs of up to {formatFileSize(MAX_ATTACHMENT_SIZE)} each.
+          </p>
+        </div>
+      )}
+
+      {!isEditing && (
+        <div>
+          <label htmlFor="repeat" className="mb-1 block text-sm font-medium">
+            Repeat
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              id="repeat"
+              className="input w-36"
+              value={repeatFrequency}
+              onChange={(e) => setRepeatFrequency(e.target.value as RecurrenceFrequency | '')}
+            >
+              <option value="">Does not repeat</option>
+              {RECURRENCE_FREQUENCIES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {repeatFrequency && (
+              <>
+                <select
+                  className="input w-40"
+                  value={repeatEnd}
+                  onChange={(e) => setRepeatEnd(e.target.value as 'never' | 'date' | 'count')}
+                >
+                  <option value="never">Until stopped</option>
+                  <option value="date">Until a date</option>
+                  <option value="count">A number of times</option>
+                </select>
+                {repeatEnd === 'date' && (
+                  <input
+                    type="date"
+                    className="input w-40"
+                    value={repeatEndDate}
+                    min={date}
+                    onChange={(e) => setRepeatEndDate(e.target.value)}
+                  />
+                )}
+                {repeatEnd === 'count' && (
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    className="input w-24"
+                    value={repeatCount}
+                    onChange={(e) => setRepeatCount(e.target.value.replace(/[^0-9]/g, ''))}
+                    placeholder="Times"
+                  />
+                )}
+              </>
+            )}
+          </div>
+          {repeatFrequency && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              The expense is added on {date} and then {repeatFrequency}; occurrences up to today are added
+              right away.
+            </p>
+          )}
+        </div>
+      )}
+
       <div className="flex justify-end space-x-3 pt-4">
+        {splitType !== 'amount' && splitType !== 'itemized' && (
+          <button type="button" onClick={saveAsTemplate} className="btn btn-secondary mr-auto">
+            Save as Template
+          </button>
+        )}
         <button type="button" onClick={onClose} className="btn btn-secondary">
           Cancel
         </button>
@@ -0,0 +1,375 @@
+import { useState } from 'react'
+import { formatCurrency } from '../utils/currency'
+import { parseCsv } from '../utils/csv'
+import {
+  CSV_DATE_FORMATS,
+  CSV_IMPORT_FIELDS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvDecimalSeparator,
+  CsvDelimiter,
+  CsvImportField,
+  guessCsvColumnMapping,
+  guessCsvDelimiter,
+} from '../utils/csvImport'
+
+interface CsvPreviewRow {
+  row: number
+  error: string | null
+  expense: {
+    description: string
+    amount: number
+    date: string
+    category: string | null
+    paidBy: string | null
+    splitBetween: (string | null)[]
+  } | null
+}
+
+interface CsvImportPreview {
+  rows: CsvPreviewRow[]
+  validCount: number
+  invalidCount: number
+  newCategories: string[]
+}
+
+interface CsvImportWizardProps {
+  projectId: string
+  currency: string
+  onClose: () => void
+  // Imported expenses change balances, so the parent reloads the project
+  onImported: () => void
+}
+
+const DELIMITER_OPTIONS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: ';', label: 'Semicolon' },
+  { value: '\t', label: 'Tab' },
+]
+
+// Imports expenses from a CSV file: pick a file, map its columns, check every row, then import
+export default function CsvImportWizard({ projectId, currency, onClose, onImported }: CsvImportWizardProps) {
+  const [csv, setCsv] = useState<string | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',')
+  const [hasHeader, setHasHeader] = useState(true)
+  const [mapping, setMapping] = useState<CsvColumnMapping>({})
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('YYYY-MM-DD')
+  const [decimalSeparator, setDecimalSeparator] = useState<CsvDecimalSeparator>('.')
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false)
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const rows = csv ? parseCsv(csv, delimiter) : []
+  const columnCount = rows.reduce((count, row) => Math.max(count, row.length), 0)
+  const columns = Array.from({ length: columnCount }, (_, index) =>
+    hasHeader && rows[0]?.[index]?.trim() ? rows[0][index].trim() : `Column ${index + 1}`
+  )
+  const sampleRow = rows[hasHeader ? 1 : 0] ?? []
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      const text = await file.text()
+      const guessedDelimiter = guessCsvDelimiter(text)
+      setCsv(text)
+      setFileName(file.name)
+      setDelimiter(guessedDelimiter)
+      setMapping(guessCsvColumnMapping(parseCsv(text, guessedDelimiter)[0] ?? []))
+      // Semicolon-separated files usually come from spreadsheets that write decimal commas
+      setDecimalSeparator(guessedDelimiter === ';' ? ',' : '.')
+      setPreview(null)
+      setError(null)
+    } catch (error) {
+      console.error('Error reading CSV file:', error)
+      setError('Failed to read the CSV file')
+    }
+  }
+
+  const updateMapping = (field: CsvImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current }
+      if (value === '') delete next[field]
+      else next[field] = Number(value)
+      return next
+    })
+    setPreview(null)
+  }
+
+  const postImport = async (previewOnly: boolean) => {
+    const response = await fetch(`/api/projects/${projectId}/import-csv${previewOnly ? '?preview=1' : ''}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        csv,
+        mapping,
+        dateFormat,
+        decimalSeparator,
+        delimiter,
+        hasHeader,
+        skipInvalidRows,
+      }),
+    })
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to import CSV')
+    }
+
+    return result.data
+  }
+
+  const handlePreview = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      setPreview(await postImport(true))
+    } catch (error) {
+      console.error('Error previewing CSV import:', error)
+      setError(error instanceof Error ? error.message : 'Failed to check the CSV file')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await postImport(false)
+      onImported()
+      onClose()
+    } catch (error) {
+      console.error('Error importing CSV:', error)
+      setError(error instanceof Error ? error.message : 'Failed to import CSV')
+      setIsLoading(false)
+    }
+  }
+
+  const missingFields = CSV_IMPORT_FIELDS.filter(
+    ({ field, required }) => required && mapping[field] === undefined
+  )
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="max-h-[90vh] w-full max-w-3xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+        <div className="space-y-4 p-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold">Import Expenses from CSV</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              ✕
+            </button>
+          </div>
+
+          {error && (
+            <div className="rounded border border-red-400 bg-red-100 px-4 py-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="csvImportFile" className="mb-1 block text-sm font-medium">
+              CSV file
+            </label>
+            <input id="csvImportFile" type="file" accept=".csv,.txt" onChange={handleFileSelected} />
+            {fileName && (
+              <p className="mt-1 text-xs text-gray-500">
+                {fileName}: {Math.max(rows.length - (hasHeader ? 1 : 0), 0)} rows
+              </p>
+            )}
+          </div>
+
+          {csv && (
+            <>
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                <div>
+                  <label htmlFor="csvDelimiter" className="mb-1 block text-sm font-medium">
+                    Separator
+                  </label>
+                  <select
+                    id="csvDelimiter"
+                    className="input w-full"
+                    value={delimiter}
+                    onChange={(e) => {
+                      setDelimiter(e.target.value as CsvDelimiter)
+                      setPreview(null)
+                    }}
+                  >
+                    {DELIMITER_OPTIONS.map((option) => (
+                      <option key={option.label} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="csvDateFormat" className="mb-1 block text-sm font-medium">
+                    Date format
+                  </label>
+                  <select
+                    id="csvDateFormat"
+                    className="input w-full"
+                    value={dateFormat}
+                    onChange={(e) => {
+                      setDateFormat(e.target.value as CsvDateFormat)
+                      setPreview(null)
+                    }}
+                  >
+                    {CSV_DATE_FORMATS.map((format) => (
+                      <option key={format} value={format}>
+                        {format}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="csvDecimalSeparator" className="mb-1 block text-sm font-medium">
+                    Decimal separator
+                  </label>
+                  <select
+                    id="csvDecimalSeparator"
+                    className="input w-full"
+                    value={decimalSeparator}
+                    onChange={(e) => {
+                      setDecimalSeparator(e.target.value as CsvDecimalSeparator)
+                      setPreview(null)
+                    }}
+                  >
+                    <option value=".">Point (1,234.56)</option>
+                    <option value=",">Comma (1.234,56)</option>
+                  </select>
+                </div>
+                <label className="flex items-end gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={hasHeader}
+                    onChange={(e) => {
+                      setHasHeader(e.target.checked)
+                      setPreview(null)
+                    }}
+                  />
+                  First row is a header
+                </label>
+              </div>
+
+              <div>
+                <h3 className="mb-2 text-sm font-medium">Columns</h3>
+                <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                  {CSV_IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <div key={field}>
+                      <label htmlFor={`csvColumn-${field}`} className="mb-1 block text-xs text-gray-600">
+                        {label}
+                        {!required && ' (optional)'}
+                      </label>
+                      <select
+                        id={`csvColumn-${field}`}
+                        className="input w-full"
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => updateMapping(field, e.target.value)}
+                      >
+                        <option value="">{required ? 'Choose a column' : 'None'}</option>
+                        {columns.map((column, index) => (
+                          <option key={index} value={index}>
+                            {column}
+                            {sampleRow[index] ? ` (e.g. ${sampleRow[index].trim()})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Expenses are split evenly. Member names must match the members of this project; rows without
+                  participants are split between everyone. Categories that do not exist yet are created.
+                </p>
+              </div>
+
+              {preview && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium">
+                    {preview.validCount} of {preview.rows.length} rows can be imported
+                    {preview.newCategories.length > 0 &&
+                      `, creating the categories ${preview.newCategories.join(', ')}`}
+                  </h3>
+                  <ul className="max-h-80 divide-y divide-gray-100 overflow-y-auto rounded-lg border border-gray-200 text-sm dark:divide-gray-700 dark:border-gray-700">
+                    {preview.rows.map((row) => (
+                      <li
+                        key={row.row}
+                        className={`flex justify-between gap-2 px-3 py-2 ${
+                          row.error ? 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' : ''
+                        }`}
+                      >
+                        {row.expense ? (
+                          <>
+                            <div>
+                              <div>{row.expense.description}</div>
+                              <div className="text-xs text-gray-500">
+                                Row {row.row} · {new Date(row.expense.date).toLocaleDateString()}
+                                {row.expense.paidBy && ` · paid by ${row.expense.paidBy}`}
+                                {` · for ${row.expense.splitBetween.filter(Boolean).join(', ')}`}
+                                {row.expense.category && ` · ${row.expense.category}`}
+                              </div>
+                            </div>
+                            <span>{formatCurrency(row.expense.amount, currency)}</span>
+                          </>
+                        ) : (
+                          <span>
+                            Row {row.row}: {row.error}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  {preview.invalidCount > 0 && (
+                    <label className="mt-2 flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={skipInvalidRows}
+                        onChange={(e) => setSkipInvalidRows(e.target.checked)}
+                      />
+                      Skip the {preview.invalidCount} invalid {preview.invalidCount === 1 ? 'row' : 'rows'}
+                    </label>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="btn btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            {preview ? (
+              <button
+                onClick={handleImport}
+                className="btn btn-primary"
+                disabled={
+                  isLoading || preview.validCount === 0 || (preview.invalidCount > 0 && !skipInvalidRows)
+                }
+              >
+                {isLoading
+                  ? 'Importing...'
+                  : `Import ${preview.validCount} ${preview.validCount === 1 ? 'expense' : 'expenses'}`}
+              </button>
+            ) : (
+              <button
+                onClick={handlePreview}
+                className="btn btn-primary"
+                disabled={!csv || missingFields.length > 0 || isLoading}
+              >
+                {isLoading ? 'Checking...' : 'Check rows'}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
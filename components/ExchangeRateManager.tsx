@@ -0,0 +1,349 @@
+import { useRef, useState } from 'react'
+import { CURRENCY_OPTIONS } from '../utils/currency'
+import { parseExchangeRateFile, toDateKey } from '../utils/exchangeRates'
+
+interface ExchangeRate {
+  id: string
+  date: string | Date
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+}
+
+interface ExchangeRateManagerProps {
+  projectId: string
+  currency: string
+  onExchangeRatesChange: (exchangeRates: ExchangeRate[]) => void
+  initialExchangeRates?: ExchangeRate[]
+}
+
+interface RateForm {
+  date: string
+  fromCurrency: string
+  toCurrency: string
+  rate: string
+}
+
+// Only the most recent rates are listed; imported ECB history can contain thousands
+const MAX_LISTED_RATES = 100
+
+export default function ExchangeRateManager({
+  projectId,
+  currency,
+  onExchangeRatesChange,
+  initialExchangeRates = [],
+}: ExchangeRateManagerProps) {
+  const emptyForm: RateForm = {
+    date: new Date().toISOString().split('T')[0],
+    fromCurrency: CURRENCY_OPTIONS.find((option) => option.code !== currency)?.code || 'EUR',
+    toCurrency: currency,
+    rate: '',
+  }
+
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>(initialExchangeRates)
+  const [newRate, setNewRate] = useState<RateForm>(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingRate, setEditingRate] = useState<RateForm>(emptyForm)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const sortedRates = [...exchangeRates].sort((a, b) => toDateKey(b.date).localeCompare(toDateKey(a.date)))
+
+  const updateRates = (updatedRates: ExchangeRate[]) => {
+    setExchangeRates(updatedRates)
+    onExchangeRatesChange(updatedRates)
+  }
+
+  const fetchExchangeRates = async () => {
+    const response = await fetch(`/api/projects/${projectId}/exchange-rates`)
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to fetch exchange rates')
+    }
+
+    updateRates(result.data)
+  }
+
+  const saveRate = async (form: RateForm, rateId?: string) => {
+    if (!(Number(form.rate) > 0)) {
+      setError('Rate must be a positive number')
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/exchange-rates${rateId ? `/${rateId}` : ''}`, {
+        method: rateId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...form, rate: Number(form.rate) }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save exchange rate')
+      }
+
+      // Adding a rate may replace an existing one for the same day, so reload the table
+      await fetchExchangeRates()
+
+      if (rateId) {
+        setEditingId(null)
+      } else {
+        setNewRate({ ...form, rate: '' })
+      }
+    } catch (error) {
+      console.error('Error saving exchange rate:', error)
+      setError(error instanceof Error ? error.message : 'Failed to save exchange rate')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const deleteRate = async (rateId: string) => {
+    if (!confirm('Are you sure you want to delete this exchange rate?')) {
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/exchange-rates/${rateId}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete exchange rate')
+      }
+
+      updateRates(exchangeRates.filter((rate) => rate.id !== rateId))
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error)
+      setError(error instanceof Error ? error.message : 'Failed to delete exchange rate')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const importRates = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setIsLoading(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const rates = parseExchangeRateFile(await file.text())
+
+      const response = await fetch(`/api/projects/${projectId}/exchange-rates`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ rates }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to import exchange rates')
+      }
+
+      await fetchExchangeRates()
+      setMessage(`Imported ${result.data.imported} exchange rates`)
+    } catch (error) {
+      console.error('Error importing exchange rates:', error)
+      setError(error instanceof Error ? error.message : 'Failed to import exchange rates')
+    } finally {
+      setIsLoading(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const renderFields = (form: RateForm, onChange: (form: RateForm) => void) => (
+    <>
+      <input
+        type="date"
+        className="input w-36"
+        value={form.date}
+        onChange={(e) => onChange({ ...form, date: e.target.value })}
+      />
+      <span className="text-sm text-gray-500">1</span>
+      <select
+        className="input w-24"
+        value={form.fromCurrency}
+        onChange={(e) => onChange({ ...form, fromCurrency: e.target.value })}
+      >
+        {CURRENCY_OPTIONS.map((option) => (
+          <option key={option.code} value={option.code}>
+            {option.code}
+          </option>
+        ))}
+      </select>
+      <span className="text-sm text-gray-500">=</span>
+      <input
+        type="text"
+        inputMode="decimal"
+        className="input w-24"
+        value={form.rate}
+        onChange={(e) => onChange({ ...form, rate: e.target.value.replace(/[^0-9.]/g, '') })}
+        placeholder="Rate"
+      />
+      <select
+        className="input w-24"
+        value={form.toCurrency}
+        onChange={(e) => onChange({ ...form, toCurrency: e.target.value })}
+      >
+        {CURRENCY_OPTIONS.map((option) => (
+          <option key={option.code} value={option.code}>
+            {option.code}
+          </option>
+        ))}
+      </select>
+    </>
+  )
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="mb-4 rounded border border-red-400 bg-red-100 px-4 py-3 text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="mb-4 rounded border border-green-400 bg-green-100 px-4 py-3 text-green-700">
+          {message}
+        </div>
+      )}
+
+      <div className="mb-4">
+        <h3 className="mb-2 text-sm font-medium text-gray-500">Current Exchange Rates</h3>
+        {sortedRates.length > 0 ? (
+          <div className="space-y-2">
+            {sortedRates.slice(0, MAX_LISTED_RATES).map((rate) =>
+              editingId === rate.id ? (
+                <div
+                  key={rate.id}
+                  className="flex flex-wrap items-center gap-2 rounded-lg border border-blue-200 p-2 dark:border-blue-800"
+                >
+                  {renderFields(editingRate, setEditingRate)}
+                  <button
+                    type="button"
+                    onClick={() => saveRate(editingRate, rate.id)}
+                    className="btn btn-primary px-2 py-1 text-xs"
+                    disabled={isLoading}
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="btn btn-secondary px-2 py-1 text-xs"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div
+                  key={rate.id}
+                  className="flex items-center justify-between rounded-lg border border-gray-200 p-2 dark:border-gray-700"
+                >
+                  <div className="text-sm">
+                    <span className="mr-2 text-gray-500">{toDateKey(rate.date)}</span>1 {rate.fromCurrency} ={' '}
+                    {rate.rate} {rate.toCurrency}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => {
+                        setEditingId(rate.id)
+                        setEditingRate({
+                          date: toDateKey(rate.date),
+                          fromCurrency: rate.fromCurrency,
+                          toCurrency: rate.toCurrency,
+                          rate: rate.rate.toString(),
+                        })
+                      }}
+                      className="rounded px-1.5 py-0.5 text-xs text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                      disabled={isLoading}
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => deleteRate(rate.id)}
+                      className="rounded-full p-1 text-red-600 hover:bg-red-50 hover:text-red-800 dark:hover:bg-red-900/20"
+                      disabled={isLoading}
+                      title="Delete exchange rate"
+                    >
+                      <svg
+                        xmlns="http://www.w3.org/2000/svg"
+                        className="h-4 w-4"
+                        fill="none"
+                        viewBox="0 0 24 24"
+                        stroke="currentColor"
+                      >
+                        <path
+                          strokeLinecap="round"
+                          strokeLinejoin="round"
+                          strokeWidth={2}
+                          d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                        />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              )
+            )}
+            {sortedRates.length > MAX_LISTED_RATES && (
+              <p className="text-xs italic text-gray-500">
+                Showing the {MAX_LISTED_RATES} most recent of {sortedRates.length} rates
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm italic text-gray-500">No exchange rates yet</p>
+        )}
+      </div>
+
+      <div className="border-t border-gray-200 pt-4 dark:border-gray-700">
+        <h3 className="mb-2 text-sm font-medium text-gray-500">Add Exchange Rate</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {renderFields(newRate, setNewRate)}
+          <button
+            type="button"
+            onClick={() => saveRate(newRate)}
+            className="btn btn-primary"
+            disabled={isLoading || !newRate.rate}
+          >
+            {isLoading ? 'Saving...' : 'Add'}
+          </button>
+        </div>
+      </div>
+
+      <div className="border-t border-gray-200 pt-4 dark:border-gray-700">
+        <h3 className="mb-2 text-sm font-medium text-gray-500">Import Rates</h3>
+        <p className="mb-2 text-xs text-gray-500">
+          CSV with date, from, to and rate columns, or an ECB reference rates XML file (eurofxref).
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xml,text/csv,text/xml,application/xml"
+          onChange={importRates}
+          disabled={isLoading}
+          className="text-sm"
+        />
+      </div>
+    </div>
+  )
+}
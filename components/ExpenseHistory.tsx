@@ -0,0 +1,189 @@
+import { useEffect, useState } from 'react'
+import { ACTIVITY_ACTION_VERBS, ActivityEntry, getChangedKeys, getFieldLabel } from '../utils/activity'
+import { formatCurrency, fromMinorUnits } from '../utils/currency'
+
+interface NamedOption {
+  id: string
+  name: string
+}
+
+interface ExpenseHistoryProps {
+  projectId: string
+  expenseId: string
+  currency: string
+  members: NamedOption[]
+  categories: NamedOption[]
+  paymentMethods: NamedOption[]
+  canEdit: boolean
+  // Reverting changes the expense and balances, so the parent reloads the project
+  onRevert: () => void
+}
+
+// Entries are fetched in one page; an expense rarely changes this often
+const HISTORY_LIMIT = 200
+
+export default function ExpenseHistory({
+  projectId,
+  expenseId,
+  currency,
+  members,
+  categories,
+  paymentMethods,
+  canEdit,
+  onRevert,
+}: ExpenseHistoryProps) {
+  const [entries, setEntries] = useState<ActivityEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const query = new URLSearchParams({
+          entityType: 'expense',
+          entityId: expenseId,
+          limit: String(HISTORY_LIMIT),
+        })
+        const response = await fetch(`/api/projects/${projectId}/activity?${query}`)
+        const result = await response.json()
+
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to fetch history')
+        }
+
+        setEntries(result.data.entries)
+      } catch (error) {
+        console.error('Error fetching expense history:', error)
+        setError(error instanceof Error ? error.message : 'Failed to fetch history')
+      }
+    }
+
+    fetchHistory()
+  }, [projectId, expenseId])
+
+  const revertTo = async (entry: ActivityEntry) => {
+    if (!confirm(`Set this expense back to how it was on ${new Date(entry.createdAt).toLocaleString()}?`))
+      return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/expenses/${expenseId}/revert`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ revisionId: entry.id }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revert expense')
+      }
+
+      onRevert()
+    } catch (error) {
+      console.error('Error reverting expense:', error)
+      setError(error instanceof Error ? error.message : 'Failed to revert expense')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const getMemberName = (memberId: unknown) =>
+    members.find((member) => member.id === memberId)?.name ?? 'A removed member'
+
+  const formatMoney = (amount: unknown) =>
+    typeof amount === 'number' ? formatCurrency(fromMinorUnits(amount, currency), currency) : '—'
+
+  // Payers and splits are shown as each member with their amount
+  const formatMemberAmounts = (rows: unknown, amountKey: string) =>
+    Array.isArray(rows) && rows.length > 0
+      ? rows.map((row) => `${getMemberName(row.memberId)} ${formatMoney(row[amountKey])}`).join(', ')
+      : '—'
+
+  const formatValue = (key: string, value: unknown): string => {
+    switch (key) {
+      case 'amount':
+      case 'taxAmount':
+      case 'tipAmount':
+        return formatMoney(value)
+      case 'date':
+        return typeof value === 'string' ? new Date(value).toLocaleDateString() : '—'
+      case 'categoryId':
+        return value
+          ? (categories.find((category) => category.id === value)?.name ?? 'A removed category')
+          : 'None'
+      case 'paymentMethodId':
+        return value
+          ? (paymentMethods.find((method) => method.id === value)?.name ?? 'A removed payment method')
+          : 'None'
+      case 'payments':
+        return formatMemberAmounts(value, 'amount')
+      case 'splits':
+        return formatMemberAmounts(value, 'owedAmount')
+      case 'items':
+        return Array.isArray(value) ? `${value.length} ${value.length === 1 ? 'item' : 'items'}` : '—'
+      default:
+        return value === null || value === undefined || value === '' ? '—' : String(value)
+    }
+  }
+
+  const getActorName = (entry: ActivityEntry) => {
+    if (!entry.actorMemberId) return 'Someone'
+    return getMemberName(entry.actorMemberId)
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="rounded border border-red-400 bg-red-100 px-4 py-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes recorded yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 overflow-hidden rounded-lg border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+          {entries.map((entry, index) => {
+            const changes = getChangedKeys(entry)
+
+            return (
+              <li key={entry.id} className="p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <span className="font-medium">{getActorName(entry)}</span>{' '}
+                    {ACTIVITY_ACTION_VERBS[entry.action]} this expense
+                    <div className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString()}</div>
+                  </div>
+                  {/* The newest entry is the expense as it is now */}
+                  {canEdit && index > 0 && entry.after && (
+                    <button
+                      type="button"
+                      onClick={() => revertTo(entry)}
+                      className="btn btn-secondary px-2 py-1 text-xs"
+                      disabled={isLoading}
+                    >
+                      Revert to this version
+                    </button>
+                  )}
+                </div>
+                {changes.length > 0 && (
+                  <ul className="mt-1 space-y-0.5 text-xs text-gray-600 dark:text-gray-400">
+                    {changes.map((key) => (
+                      <li key={key}>
+                        <span className="capitalize">{getFieldLabel(key)}</span>:{' '}
+                        <span className="line-through">{formatValue(key, entry.before?.[key])}</span> →{' '}
+                        {formatValue(key, entry.after?.[key])}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react'
+
+interface Member {
+  id: string
+  name: string
+}
+
+interface Category {
+  id: string
+  name: string
+  color: string
+}
+
+interface PaymentMethod {
+  id: string
+  name: string
+  icon: string
+}
+
+interface ExpenseTemplate {
+  id: string
+  name: string
+  description: string | null
+  categoryId: string | null
+  paymentMethodId: string | null
+  payerIds: string[]
+  splitType: string
+  splits: { memberId: string }[]
+}
+
+interface ExpenseTemplateManagerProps {
+  members: Member[]
+  categories: Category[]
+  paymentMethods: PaymentMethod[]
+  onExpenseTemplatesChange: (expenseTemplates: ExpenseTemplate[]) => void
+  initialExpenseTemplates?: ExpenseTemplate[]
+}
+
+const SPLIT_TYPE_LABELS: Record<string, string> = {
+  even: 'split evenly',
+  shares: 'split by shares',
+  percent: 'split by percent',
+  adjustment: 'split evenly with adjustments',
+}
+
+export default function ExpenseTemplateManager({
+  members,
+  categories,
+  paymentMethods,
+  onExpenseTemplatesChange,
+  initialExpenseTemplates = [],
+}: ExpenseTemplateManagerProps) {
+  const [expenseTemplates, setExpenseTemplates] = useState<ExpenseTemplate[]>(initialExpenseTemplates)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const getMemberName = (memberId: string) =>
+    members.find((member) => member.id === memberId)?.name ?? 'Former member'
+
+  const deleteExpenseTemplate = async (templateId: string) => {
+    if (!confirm('Are you sure you want to delete this template?')) {
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/expense-templates/${templateId}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        const updatedTemplates = expenseTemplates.filter((template) => template.id !== templateId)
+        setExpenseTemplates(updatedTemplates)
+        onExpenseTemplatesChange(updatedTemplates)
+      } else {
+        setError(result.error || 'Failed to delete template')
+      }
+    } catch (error) {
+      console.error('Error deleting expense template:', error)
+      setError(error instanceof Error ? error.message : 'Failed to delete template')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="mb-4 rounded border border-red-400 bg-red-100 px-4 py-3 text-red-700">{error}</div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Templates pre-fill a new expense with everything but its amount and date. Fill in the Add Expense form
+        and click "Save as Template" to create one.
+      </p>
+
+      {expenseTemplates.length > 0 ? (
+        <div className="space-y-2">
+          {expenseTemplates.map((template) => {
+            const category = categories.find((c) => c.id === template.categoryId)
+            const paymentMethod = paymentMethods.find((method) => method.id === template.paymentMethodId)
+
+            return (
+              <div
+                key={template.id}
+                className="flex items-center justify-between rounded-lg border border-gray-200 p-2 dark:border-gray-700"
+              >
+                <div className="text-sm">
+                  <div className="font-medium">
+                    {template.name}
+                    {template.description && template.description !== template.name && (
+                      <span className="ml-2 font-normal text-gray-500">{template.description}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Paid by {template.payerIds.map(getMemberName).join(', ')},{' '}
+                    {SPLIT_TYPE_LABELS[template.splitType] ?? template.splitType} between{' '}
+                    {template.splits.length} {template.splits.length === 1 ? 'member' : 'members'}
+                    {category && (
+                      <>
+                        {' · '}
+                        <span style={{ color: category.color }}>{category.name}</span>
+                      </>
+                    )}
+                    {paymentMethod && ` · ${paymentMethod.icon} ${paymentMethod.name}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => deleteExpenseTemplate(template.id)}
+                  className="rounded-full p-1 text-red-600 hover:bg-red-50 hover:text-red-800 dark:hover:bg-red-900/20"
+                  disabled={isLoading}
+                  title="Delete template"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <p className="text-sm italic text-gray-500">No templates yet</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react'
+import { formatCurrency } from '../utils/currency'
+import { toDateKey } from '../utils/exchangeRates'
+import { RECURRENCE_FREQUENCIES } from '../utils/recurrence'
+
+interface RecurringExpense {
+  id: string
+  template: {
+    description: string
+    amount: number
+  }
+  frequency: string
+  endDate: string | Date | null
+  occurrenceLimit: number | null
+  nextOccurrence: number
+  paused: boolean
+  lastError: string | null
+  nextDate: string | Date | null
+}
+
+interface RecurringExpenseManagerProps {
+  projectId: string
+  currency: string
+  // Changing a recurring expense can create expenses, so the parent reloads the project
+  onRecurringExpensesChange: () => void
+  initialRecurringExpenses?: RecurringExpense[]
+}
+
+export default function RecurringExpenseManager({
+  projectId,
+  currency,
+  onRecurringExpensesChange,
+  initialRecurringExpenses = [],
+}: RecurringExpenseManagerProps) {
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>(initialRecurringExpenses)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const getFrequencyLabel = (frequency: string) =>
+    RECURRENCE_FREQUENCIES.find((option) => option.value === frequency)?.label ?? frequency
+
+  const updateRecurringExpense = async (
+    recurringId: string,
+    changes: { paused?: boolean; skipNext?: boolean }
+  ) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/recurring-expenses/${recurringId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update recurring expense')
+      }
+
+      setRecurringExpenses(
+        recurringExpenses.map((recurring) => (recurring.id === recurringId ? result.data : recurring))
+      )
+      onRecurringExpensesChange()
+    } catch (error) {
+      console.error('Error updating recurring expense:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update recurring expense')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const deleteRecurringExpense = async (recurringId: string) => {
+    if (!confirm('Stop this recurring expense? Expenses it already added are kept.')) {
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/recurring-expenses/${recurringId}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete recurring expense')
+      }
+
+      setRecurringExpenses(recurringExpenses.filter((recurring) => recurring.id !== recurringId))
+      onRecurringExpensesChange()
+    } catch (error) {
+      console.error('Error deleting recurring expense:', error)
+      setError(error instanceof Error ? error.message : 'Failed to delete recurring expense')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const describeSchedule = (recurring: RecurringExpense) => {
+    const parts = [getFrequencyLabel(recurring.frequency)]
+    if (recurring.endDate) parts.push(`until ${toDateKey(recurring.endDate)}`)
+    if (recurring.occurrenceLimit !== null) parts.push(`${recurring.occurrenceLimit} times`)
+    return parts.join(', ')
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="mb-4 rounded border border-red-400 bg-red-100 px-4 py-3 text-red-700">{error}</div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Recurring expenses are added automatically when they fall due. To create one, add an expense and
+        choose how often it repeats.
+      </p>
+
+      {recurringExpenses.length > 0 ? (
+        <div className="space-y-2">
+          {recurringExpenses.map((recurring) => (
+            <div
+              key={recurring.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-gray-200 p-2 dark:border-gray-700"
+            >
+              <div className="text-sm">
+                <div className="font-medium">
+                  {recurring.template.description}{' '}
+                  <span className="text-gray-500">{formatCurrency(recurring.template.amount, currency)}</span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  {describeSchedule(recurring)} ·{' '}
+                  {recurring.paused
+                    ? 'Paused'
+                    : recurring.nextDate
+                      ? `Next on ${toDateKey(recurring.nextDate)}`
+                      : 'Ended'}
+                </div>
+                {recurring.lastError && (
+                  <div className="text-xs text-red-600">Paused because: {recurring.lastError}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {recurring.nextDate && (
+                  <>
+                    <button
+                      onClick={() => updateRecurringExpense(recurring.id, { paused: !recurring.paused })}
+                      className="rounded px-1.5 py-0.5 text-xs text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                      disabled={isLoading}
+                    >
+                      {recurring.paused ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={() => updateRecurringExpense(recurring.id, { skipNext: true })}
+                      className="rounded px-1.5 py-0.5 text-xs text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                      disabled={isLoading}
+                      title={`Skip the occurrence on ${toDateKey(recurring.nextDate)}`}
+                    >
+                      Skip next
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => deleteRecurringExpense(recurring.id)}
+                  className="rounded-full p-1 text-red-600 hover:bg-red-50 hover:text-red-800 dark:hover:bg-red-900/20"
+                  disabled={isLoading}
+                  title="Delete recurring expense"
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                    />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm italic text-gray-500">No recurring expenses yet</p>
+      )}
+    </div>
+  )
+}
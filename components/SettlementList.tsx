@@ -0,0 +1,89 @@
+import { formatCurrency } from '../utils/currency'
+
+interface Member {
+  id: string
+  name: string
+}
+
+interface Settlement {
+  id: string
+  fromMemberId: string
+  toMemberId: string
+  amount: number
+  date: string | Date | null
+  notes?: string | null
+}
+
+interface SettlementListProps {
+  settlements: Settlement[]
+  members: Member[]
+  currency: string
+  currentMemberId?: string
+  onDelete: (settlement: Settlement) => void
+}
+
+export default function SettlementList({
+  settlements,
+  members,
+  currency,
+  currentMemberId,
+  onDelete,
+}: SettlementListProps) {
+  const getMemberName = (memberId: string) => {
+    if (memberId === currentMemberId) return 'You'
+    return members.find((m) => m.id === memberId)?.name || 'Unknown'
+  }
+
+  const sortedSettlements = settlements.slice().sort((a, b) => {
+    const dateA = a.date ? new Date(a.date).getTime() : 0
+    const dateB = b.date ? new Date(b.date).getTime() : 0
+    return dateB - dateA
+  })
+
+  if (sortedSettlements.length === 0) {
+    return <p className="text-xs italic text-gray-500">No settlements recorded yet.</p>
+  }
+
+  return (
+    <div className="divide-y divide-gray-100 dark:divide-gray-700">
+      {sortedSettlements.map((settlement) => (
+        <div key={settlement.id} className="flex items-center justify-between py-2 text-sm">
+          <div className="min-w-0 flex-1">
+            <p className="truncate">
+              <span className="font-medium">{getMemberName(settlement.fromMemberId)}</span>
+              <span className="mx-1 text-gray-400">→</span>
+              <span className="font-medium">{getMemberName(settlement.toMemberId)}</span>
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {settlement.date ? new Date(settlement.date).toLocaleDateString() : 'No date'}
+              {settlement.notes && ` • ${settlement.notes}`}
+            </p>
+          </div>
+          <div className="ml-2 flex items-center gap-2">
+            <span className="font-semibold">{formatCurrency(settlement.amount, currency)}</span>
+            <button
+              onClick={() => onDelete(settlement)}
+              className="rounded-full p-1 text-red-600 hover:bg-red-50 hover:text-red-800 dark:hover:bg-red-900/20"
+              title="Delete settlement"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-4 w-4"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
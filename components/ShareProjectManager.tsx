@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react'
+import { setProjectAccessToken, setProjectSessionToken } from '../utils/localStorage'
+import { ACCESS_LEVELS, AccessLevel, MIN_PASSPHRASE_LENGTH, getShareUrl } from '../utils/projectAccess'
+
+interface ProjectAccessState {
+  level: AccessLevel
+  hasPassphrase: boolean
+  // Only the levels at or below the caller's own are included
+  tokens: Partial<Record<AccessLevel, string | null>>
+  // Members who joined before share links existed can still fetch the admin link
+  adminSecretClaimable: boolean
+}
+
+interface ShareProjectManagerProps {
+  projectId: string
+}
+
+export default function ShareProjectManager({ projectId }: ShareProjectManagerProps) {
+  const [access, setAccess] = useState<ProjectAccessState | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copiedLevel, setCopiedLevel] = useState<AccessLevel | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+
+  useEffect(() => {
+    const fetchAccess = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/access`)
+        const result = await response.json()
+
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to fetch share links')
+        }
+
+        setAccess(result.data)
+      } catch (error) {
+        console.error('Error fetching share links:', error)
+        setError(error instanceof Error ? error.message : 'Failed to fetch share links')
+      }
+    }
+
+    fetchAccess()
+  }, [projectId])
+
+  const copyLink = async (level: AccessLevel, token: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(window.location.origin, projectId, token))
+      setCopiedLevel(level)
+      setTimeout(() => setCopiedLevel(null), 2000)
+    } catch (error) {
+      console.error('Failed to copy share link:', error)
+      alert('Failed to copy link to clipboard.')
+    }
+  }
+
+  const changeLink = async (level: AccessLevel, action: 'reset' | 'disable') => {
+    // Replacing a link locks out whoever joined with the old one
+    if (access?.tokens[level] && !confirm('Links shared before will stop working. Continue?')) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/access${action === 'disable' ? `?level=${level}` : ''}`,
+        action === 'disable'
+          ? { method: 'DELETE' }
+          : {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ level }),
+            }
+      )
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update share link')
+      }
+
+      // A new admin secret replaces the one this device signs in with
+      if (level === 'admin' && result.data.tokens.admin) {
+        setProjectAccessToken(projectId, result.data.tokens.admin)
+      }
+
+      setAccess(result.data)
+    } catch (error) {
+      console.error('Error updating share link:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update share link')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const changePassphrase = async (action: 'set' | 'remove') => {
+    const warning =
+      action === 'set'
+        ? access?.hasPassphrase
+          ? 'Everyone will need to enter the new passphrase. Continue?'
+          : 'Everyone will need to enter the passphrase to open the project. Continue?'
+        : 'Anyone with a share link will be able to open the project without a passphrase. Continue?'
+    if (!confirm(warning)) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/passphrase`,
+        action === 'remove'
+          ? { method: 'DELETE' }
+          : {
+              method: 'PUT',
+              headers: {
+                'Content-Type': 'application/json',
+              },
+              body: JSON.stringify({ passphrase }),
+            }
+      )
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update passphrase')
+      }
+
+      // Setting a passphrase ends all sessions, so this device continues with the new one
+      setProjectSessionToken(projectId, action === 'set' ? result.data.sessionToken : null)
+      setPassphrase('')
+      setAccess((current) => current && { ...current, hasPassphrase: action === 'set' })
+    } catch (error) {
+      console.error('Error updating passphrase:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update passphrase')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!access) {
+    return error ? (
+      <div className="rounded border border-red-400 bg-red-100 px-4 py-3 text-red-700">{error}</div>
+    ) : (
+      <p className="text-sm text-gray-500">Loading share links...</p>
+    )
+  }
+
+  const isAdmin = access.level === 'admin'
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="mb-4 rounded border border-red-400 bg-red-100 px-4 py-3 text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {ACCESS_LEVELS.filter((option) => option.value in access.tokens).map((option) => {
+          const token = access.tokens[option.value]
+
+          return (
+            <div
+              key={option.value}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-gray-200 p-2 dark:border-gray-700"
+            >
+              <div className="text-sm">
+                <div className="font-medium">{option.label} link</div>
+                <div className="text-xs text-gray-500">{token ? option.description : 'Not created'}</div>
+              </div>
+              <div className="flex items-center gap-1">
+                {token && (
+                  <button
+                    type="button"
+                    onClick={() => copyLink(option.value, token)}
+                    className="btn btn-secondary px-2 py-1 text-xs"
+                  >
+                    {copiedLevel === option.value ? 'Copied!' : 'Copy'}
+                  </button>
+                )}
+                {isAdmin && (
+                  <button
+                    type="button"
+                    onClick={() => changeLink(option.value, 'reset')}
+                    className="rounded px-1.5 py-0.5 text-xs text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20"
+                    disabled={isLoading}
+                  >
+                    {token ? 'Reset' : 'Create'}
+                  </button>
+                )}
+                {isAdmin && token && option.value !== 'admin' && (
+                  <button
+                    type="button"
+                    onClick={() => changeLink(option.value, 'disable')}
+                    className="rounded px-1.5 py-0.5 text-xs text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    disabled={isLoading}
+                  >
+                    Disable
+                  </button>
+                )}
+              </div>
+            </div>
+          )
+        })}
+        <p className="text-xs text-gray-500">
+          Whoever opens a link joins with its access. Resetting or disabling a link locks out everyone who
+          joined with it.
+        </p>
+        {isAdmin && access.adminSecretClaimable && (
+          <p className="text-xs text-gray-500">
+            Members who joined before share links existed get the admin link the next time they open the
+            project. Reset the admin link to stop that; they will then need a new link.
+          </p>
+        )}
+      </div>
+
+      {isAdmin && (
+        <div className="space-y-2 border-t border-gray-200 pt-4 dark:border-gray-700">
+          <div className="text-sm">
+            <div className="font-medium">Passphrase</div>
+            <div className="text-xs text-gray-500">
+              {access.hasPassphrase
+                ? 'Everyone has to enter the passphrase once per device, on top of having a share link.'
+                : 'Require a passphrase on top of a share link, in case a link ends up in the wrong hands.'}
+            </div>
+          </div>
+          <form
+            className="flex flex-wrap gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              changePassphrase('set')
+            }}
+          >
+            <input
+              type="password"
+              className="input flex-grow"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={access.hasPassphrase ? 'New passphrase' : 'Passphrase'}
+              autoComplete="new-password"
+              minLength={MIN_PASSPHRASE_LENGTH}
+              required
+            />
+            <button type="submit" className="btn btn-primary" disabled={isLoading}>
+              {access.hasPassphrase ? 'Change' : 'Set Passphrase'}
+            </button>
+            {access.hasPassphrase && (
+              <button
+                type="button"
+                onClick={() => changePassphrase('remove')}
+                className="btn btn-secondary"
+                disabled={isLoading}
+              >
+                Remove
+              </button>
+            )}
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
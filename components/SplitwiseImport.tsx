@@ -0,0 +1,178 @@
+import { useRouter } from 'next/router'
+import { useEffect, useState } from 'react'
+import { formatCurrency } from '../utils/currency'
+import { getShareUrl } from '../utils/projectAccess'
+
+interface ImportPreview {
+  name: string
+  currency: string
+  members: { name: string; paid: number; owed: number; net: number }[]
+  categories: string[]
+  expenseCount: number
+  settlementCount: number
+  expenses: { date: string; title: string; amount: number; category: string | null; paidBy: string[] }[]
+}
+
+interface SplitwiseImportProps {
+  file: File
+  onClose: () => void
+}
+
+// Previews a Splitwise CSV export as a new project, then imports it once confirmed
+export default function SplitwiseImport({ file, onClose }: SplitwiseImportProps) {
+  const router = useRouter()
+  const [csv, setCsv] = useState<string | null>(null)
+  const [name, setName] = useState(file.name.replace(/\.csv$/i, ''))
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const postImport = async (text: string, previewOnly: boolean) => {
+    const response = await fetch(`/api/projects/import${previewOnly ? '?preview=1' : ''}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ format: 'splitwise', name, csv: text }),
+    })
+    const result = await response.json()
+
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to import project')
+    }
+
+    return result.data
+  }
+
+  useEffect(() => {
+    const loadPreview = async () => {
+      try {
+        const text = await file.text()
+        setCsv(text)
+        setPreview(await postImport(text, true))
+      } catch (error) {
+        console.error('Error previewing import:', error)
+        setError(error instanceof Error ? error.message : 'Failed to read the Splitwise export')
+      }
+    }
+
+    loadPreview()
+  }, [file])
+
+  const handleImport = async () => {
+    if (!csv) return
+
+    setIsImporting(true)
+    setError(null)
+
+    try {
+      const data = await postImport(csv, false)
+      router.push(getShareUrl('', data.projectId, data.adminSecret))
+    } catch (error) {
+      console.error('Error importing project:', error)
+      setError(error instanceof Error ? error.message : 'Failed to import project')
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+      <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+        <div className="space-y-4 p-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold">Import from Splitwise</h2>
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              ✕
+            </button>
+          </div>
+
+          {error && (
+            <div className="rounded border border-red-400 bg-red-100 px-4 py-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {!preview && !error && <p className="text-sm text-gray-500">Reading {file.name}...</p>}
+
+          {preview && (
+            <>
+              <div>
+                <label htmlFor="splitwiseProjectName" className="mb-1 block text-sm font-medium">
+                  Project name
+                </label>
+                <input
+                  id="splitwiseProjectName"
+                  className="input w-full"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {preview.expenseCount} {preview.expenseCount === 1 ? 'expense' : 'expenses'} and{' '}
+                {preview.settlementCount} {preview.settlementCount === 1 ? 'payment' : 'payments'} in{' '}
+                {preview.currency}
+                {preview.categories.length > 0 && `, with the categories ${preview.categories.join(', ')}`}.
+                Splitwise only exports what each expense changed in every balance, so expenses are split by
+                amount.
+              </p>
+
+              <div>
+                <h3 className="mb-2 text-sm font-medium">Balances after the import</h3>
+                <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 text-sm dark:divide-gray-700 dark:border-gray-700">
+                  {preview.members.map((member) => (
+                    <li key={member.name} className="flex justify-between px-3 py-2">
+                      <span>{member.name}</span>
+                      <span className={member.net < 0 ? 'text-red-600' : 'text-green-600'}>
+                        {formatCurrency(member.net, preview.currency)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {preview.expenses.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-sm font-medium">
+                    {preview.expenses.length < preview.expenseCount
+                      ? `First ${preview.expenses.length} expenses`
+                      : 'Expenses'}
+                  </h3>
+                  <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200 text-sm dark:divide-gray-700 dark:border-gray-700">
+                    {preview.expenses.map((expense, index) => (
+                      <li key={index} className="flex justify-between gap-2 px-3 py-2">
+                        <div>
+                          <div>{expense.title}</div>
+                          <div className="text-xs text-gray-500">
+                            {new Date(expense.date).toLocaleDateString()}
+                            {expense.paidBy.length > 0 && ` · paid by ${expense.paidBy.join(', ')}`}
+                            {expense.category && ` · ${expense.category}`}
+                          </div>
+                        </div>
+                        <span>{formatCurrency(expense.amount, preview.currency)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button onClick={onClose} className="btn btn-secondary" disabled={isImporting}>
+              Cancel
+            </button>
+            <button
+              onClick={handleImport}
+              className="btn btn-primary"
+              disabled={!preview || !name.trim() || isImporting}
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
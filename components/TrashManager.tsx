@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react'
+import { formatCurrency } from '../utils/currency'
+
+interface TrashedExpense {
+  id: string
+  description: string
+  amount: number
+  date: string
+  payments: { memberId: string }[]
+  deletedAt: string
+  purgeAt: string
+}
+
+interface TrashManagerProps {
+  projectId: string
+  currency: string
+  members: { id: string; name: string }[]
+  canEdit: boolean
+  // Restoring an expense changes balances, so the parent reloads the project
+  onTrashChange: () => void
+}
+
+export default function TrashManager({
+  projectId,
+  currency,
+  members,
+  canEdit,
+  onTrashChange,
+}: TrashManagerProps) {
+  const [expenses, setExpenses] = useState<TrashedExpense[]>([])
+  const [retentionDays, setRetentionDays] = useState<number | null>(null)
+  const [retentionInput, setRetentionInput] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/trash`)
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch trash')
+      }
+
+      setExpenses(result.data.expenses)
+      setRetentionDays(result.data.trashRetentionDays)
+      setRetentionInput(String(result.data.trashRetentionDays))
+    } catch (error) {
+      console.error('Error fetching trash:', error)
+      setError(error instanceof Error ? error.message : 'Failed to fetch trash')
+    }
+  }
+
+  useEffect(() => {
+    fetchTrash()
+  }, [projectId])
+
+  const restoreExpense = async (expenseId: string) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/expenses/${expenseId}/restore`, { method: 'POST' })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore expense')
+      }
+
+      setExpenses((current) => current.filter((expense) => expense.id !== expenseId))
+      onTrashChange()
+    } catch (error) {
+      console.error('Error restoring expense:', error)
+      setError(error instanceof Error ? error.message : 'Failed to restore expense')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const deleteExpense = async (expense: TrashedExpense) => {
+    if (!confirm(`Delete "${expense.description}" for good? This cannot be undone.`)) return
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      // Deleting an expense that is already in the trash removes it permanently
+      const response = await fetch(`/api/expenses/${expense.id}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete expense')
+      }
+
+      setExpenses((current) => current.filter((trashed) => trashed.id !== expense.id))
+    } catch (error) {
+      console.error('Error deleting expense:', error)
+      setError(error instanceof Error ? error.message : 'Failed to delete expense')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const updateRetention = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ trashRetentionDays: Number(retentionInput) }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update trash retention')
+      }
+
+      // A shorter period can make expenses due for removal, so load the trash again
+      await fetchTrash()
+    } catch (error) {
+      console.error('Error updating trash retention:', error)
+      setError(error instanceof Error ? error.message : 'Failed to update trash retention')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const getPayerNames = (expense: TrashedExpense) =>
+    expense.payments
+      .map((payment) => members.find((member) => member.id === payment.memberId)?.name)
+      .filter(Boolean)
+      .join(', ')
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded border border-red-400 bg-red-100 px-4 py-3 text-red-700">{error}</div>
+      )}
+
+      {retentionDays !== null && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Deleted expenses stay here for {retentionDays} {retentionDays === 1 ? 'day' : 'days'}, then they are
+          removed for good. They do not count towards balances or statistics while in the trash.
+        </p>
+      )}
+
+      {expenses.length === 0 ? (
+        <p className="text-sm text-gray-500">The trash is empty.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {expenses.map((expense) => (
+            <li key={expense.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+              <div className="text-sm">
+                <div className="font-medium">
+                  {expense.description} · {formatCurrency(expense.amount, currency)}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {new Date(expense.date).toLocaleDateString()}
+                  {getPayerNames(expense) && ` · paid by ${getPayerNames(expense)}`} · deleted{' '}
+                  {new Date(expense.deletedAt).toLocaleDateString()}, removed on{' '}
+                  {new Date(expense.purgeAt).toLocaleDateString()}
+                </div>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => restoreExpense(expense.id)}
+                    className="btn btn-secondary px-2 py-1 text-xs"
+                    disabled={isLoading}
+                  >
+                    Restore
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deleteExpense(expense)}
+                    className="rounded px-1.5 py-0.5 text-xs text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                    disabled={isLoading}
+                  >
+                    Delete forever
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && retentionDays !== null && (
+        <form onSubmit={updateRetention} className="flex items-center gap-2 border-t pt-4 text-sm">
+          <label htmlFor="trashRetentionDays">Keep deleted expenses for</label>
+          <input
+            id="trashRetentionDays"
+            type="number"
+            className="input w-20"
+            min={1}
+            value={retentionInput}
+            onChange={(e) => setRetentionInput(e.target.value)}
+            required
+          />
+          <span>days</span>
+          <button
+            type="submit"
+            className="btn btn-secondary px-2 py-1 text-xs"
+            disabled={isLoading || Number(retentionInput) === retentionDays}
+          >
+            Save
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
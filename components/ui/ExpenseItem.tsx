@@ -1,3 +1,4 @@
+import { isImageAttachment } from '../../utils/attachments'
 import { formatCurrency } from '../../utils/currency'
 
 interface Category {
@@ -24,6 +25,18 @@ interface Split {
   owedAmount: number
 }
 
+interface LineItem {
+  description: string
+  amount: number
+  memberIds: string[]
+}
+
+interface ExpenseAttachment {
+  id: string
+  fileName: string
+  mimeType: string
+}
+
 interface PaymentMethod {
   id: string
   name: string
@@ -35,12 +48,19 @@ export interface ExpenseItemProps {
     id: string
     description: string
     amount: number
+    originalCurrency?: string | null
+    originalAmount?: number | null
+    exchangeRate?: number | null
     date: string | Date
-    splitType: 'even' | 'amount' | 'percent' | 'shares'
+    splitType: 'even' | 'amount' | 'percent' | 'shares' | 'itemized' | 'adjustment'
     categoryId: string | null
     paymentMethodId?: string | null
     payments: Payment[]
     splits: Split[]
+    items?: LineItem[]
+    attachments?: ExpenseAttachment[]
+    taxAmount?: number | null
+    tipAmount?: number | null
     notes?: string
     createdAt?: string | Date
   }
@@ -110,6 +130,12 @@ export default function ExpenseItem({
     return formatCurrency(amount, currency)
   }
 
+  // Expense total, including the amount in the currency it was paid in
+  const formattedTotal = formatCurrency(expense.amount, currency, {
+    amount: expense.originalAmount,
+    currency: expense.originalCurrency,
+  })
+
   // Returns a summary of who paid and who owes for the default variant
   const createSplitSummary = () => {
     if (variant !== 'default') return null
@@ -152,6 +178,82 @@ export default function ExpenseItem({
     )
   }
 
+  // Line items of itemized expenses with the members sharing each, followed by tax and tip
+  const renderLineItems = () => {
+    if (!expense.items || expense.items.length === 0) return null
+
+    const memberNames = (memberIds: string[]) =>
+      memberIds
+        .map((memberId) => {
+          const member = members.find((m) => m.id === memberId)
+          return member
+            ? currentMemberId && member.id === currentMemberId
+              ? 'You'
+              : member.name.split(' ')[0]
+            : 'Unknown'
+        })
+        .join(', ')
+
+    const extras = [
+      { label: 'Tax', amount: expense.taxAmount },
+      { label: 'Tip', amount: expense.tipAmount },
+    ].filter((extra): extra is { label: string; amount: number } => !!extra.amount)
+
+    return (
+      <ul className="mt-2 space-y-0.5 border-t border-gray-100 pt-2 text-xs text-gray-500 dark:border-gray-700 dark:text-gray-400">
+        {expense.items.map((item, index) => (
+          <li key={index} className="flex justify-between gap-2">
+            <span className="truncate">
+              {item.description}
+              <span className="ml-1 text-gray-400 dark:text-gray-500">· {memberNames(item.memberIds)}</span>
+            </span>
+            <span className="whitespace-nowrap">{formatAmount(item.amount)}</span>
+          </li>
+        ))}
+        {extras.map((extra) => (
+          <li key={extra.label} className="flex justify-between gap-2 italic">
+            <span>{extra.label}</span>
+            <span className="whitespace-nowrap">{formatAmount(extra.amount)}</span>
+          </li>
+        ))}
+      </ul>
+    )
+  }
+
+  // Receipt thumbnails; files that cannot be previewed show their extension instead
+  const renderAttachments = () => {
+    if (!expense.attachments || expense.attachments.length === 0) return null
+
+    return (
+      <div className="mt-2 flex flex-wrap gap-1.5">
+        {expense.attachments.map((attachment) => (
+          <a
+            key={attachment.id}
+            href={`/api/attachments/${attachment.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={attachment.fileName}
+            onClick={(e) => e.stopPropagation()}
+            className="block h-12 w-12 overflow-hidden rounded border border-gray-200 dark:border-gray-700"
+          >
+            {isImageAttachment(attachment) ? (
+              <img
+                src={`/api/attachments/${attachment.id}`}
+                alt={attachment.fileName}
+                loading="lazy"
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              <span className="flex h-full w-full items-center justify-center bg-gray-100 text-xs font-medium uppercase text-gray-500 dark:bg-gray-700 dark:text-gray-400">
+                {attachment.fileName.split('.').pop()?.slice(0, 4) || 'file'}
+              </span>
+            )}
+          </a>
+        ))}
+      </div>
+    )
+  }
+
   const handleClick = () => {
     if (onClick) {
       onClick(expense)
@@ -230,7 +332,7 @@ export default function ExpenseItem({
                     : 'text-gray-900 dark:text-white'
                 }`}
               >
-                {formatAmount(expense.amount)}
+                {formattedTotal}
               </div>
               {currentMemberId && (
                 <div
@@ -256,6 +358,8 @@ export default function ExpenseItem({
             <span>{formatDate(expense.date)}</span>
             {createSplitSummary()}
           </div>
+          {renderLineItems()}
+          {renderAttachments()}
         </div>
       </div>
     )
@@ -326,7 +430,7 @@ export default function ExpenseItem({
           </div>
           <div className="flex items-center space-x-4">
             <div className="text-right">
-              <div className="text-lg font-medium">{formatAmount(expense.amount)}</div>
+              <div className="text-lg font-medium">{formattedTotal}</div>
               <div className="text-sm text-gray-500 dark:text-gray-400">
                 {expense.splits.length} {expense.splits.length === 1 ? 'person' : 'people'}
               </div>
@@ -381,6 +485,8 @@ export default function ExpenseItem({
             )}
           </div>
         </div>
+        {renderLineItems()}
+        {renderAttachments()}
       </div>
     )
   }
@@ -416,7 +522,7 @@ export default function ExpenseItem({
                 </span>
               )}
             </h3>
-            <span className="font-semibold">{formatAmount(expense.amount)}</span>
+            <span className="font-semibold">{formattedTotal}</span>
           </div>
           <div className="mt-1 flex justify-between text-xs text-gray-500 dark:text-gray-400">
             <div className="flex items-center">
@@ -464,7 +570,7 @@ export default function ExpenseItem({
               </span>
             )}
           </h3>
-          <span className="text-sm font-medium">{formatAmount(expense.amount)}</span>
+          <span className="text-sm font-medium">{formattedTotal}</span>
         </div>
         <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
           <span>{formatDate(expense.date)}</span>
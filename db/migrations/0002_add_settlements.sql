@@ -0,0 +1,19 @@
+CREATE TABLE `settlements` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`from_member_id` text NOT NULL,
+	`to_member_id` text NOT NULL,
+	`amount` real NOT NULL,
+	`date` integer DEFAULT (strftime('%s', 'now')),
+	`notes` text,
+	`created_at` integer DEFAULT (strftime('%s', 'now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`from_member_id`) REFERENCES `members`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`to_member_id`) REFERENCES `members`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_settlements_project_id` ON `settlements` (`project_id`);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_settlements_from_member_id` ON `settlements` (`from_member_id`);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_settlements_to_member_id` ON `settlements` (`to_member_id`);
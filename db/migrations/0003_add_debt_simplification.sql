@@ -0,0 +1 @@
+ALTER TABLE `projects` ADD `debt_simplification` text DEFAULT 'greedy' NOT NULL;
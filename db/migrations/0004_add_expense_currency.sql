@@ -0,0 +1,3 @@
+ALTER TABLE `expenses` ADD `original_currency` text;--> statement-breakpoint
+ALTER TABLE `expenses` ADD `original_amount` real;--> statement-breakpoint
+ALTER TABLE `expenses` ADD `exchange_rate` real;
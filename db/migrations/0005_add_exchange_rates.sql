@@ -0,0 +1,12 @@
+CREATE TABLE `exchange_rates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`date` integer NOT NULL,
+	`from_currency` text NOT NULL,
+	`to_currency` text NOT NULL,
+	`rate` real NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s', 'now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_exchange_rates_project_pair_date` ON `exchange_rates` (`project_id`,`from_currency`,`to_currency`,`date`);
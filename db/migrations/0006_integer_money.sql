@@ -0,0 +1,49 @@
+-- Store money in integer minor units (cents) instead of floating-point major units.
+-- Columns are swapped in place so the tables (and their foreign keys) are never rebuilt.
+ALTER TABLE `expenses` ADD `amount_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `expenses` SET `amount_minor` = CAST(ROUND(`amount` * 100) AS INTEGER);
+--> statement-breakpoint
+ALTER TABLE `expenses` DROP COLUMN `amount`;
+--> statement-breakpoint
+ALTER TABLE `expenses` RENAME COLUMN `amount_minor` TO `amount`;
+--> statement-breakpoint
+ALTER TABLE `expenses` ADD `original_amount_minor` integer;
+--> statement-breakpoint
+UPDATE `expenses` SET `original_amount_minor` = CAST(ROUND(`original_amount` * 100) AS INTEGER) WHERE `original_amount` IS NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `expenses` DROP COLUMN `original_amount`;
+--> statement-breakpoint
+ALTER TABLE `expenses` RENAME COLUMN `original_amount_minor` TO `original_amount`;
+--> statement-breakpoint
+ALTER TABLE `payments` ADD `amount_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `payments` SET `amount_minor` = CAST(ROUND(`amount` * 100) AS INTEGER);
+--> statement-breakpoint
+ALTER TABLE `payments` DROP COLUMN `amount`;
+--> statement-breakpoint
+ALTER TABLE `payments` RENAME COLUMN `amount_minor` TO `amount`;
+--> statement-breakpoint
+ALTER TABLE `splits` ADD `amount_minor` integer;
+--> statement-breakpoint
+UPDATE `splits` SET `amount_minor` = CAST(ROUND(`amount` * 100) AS INTEGER) WHERE `amount` IS NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `splits` DROP COLUMN `amount`;
+--> statement-breakpoint
+ALTER TABLE `splits` RENAME COLUMN `amount_minor` TO `amount`;
+--> statement-breakpoint
+ALTER TABLE `splits` ADD `owed_amount_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `splits` SET `owed_amount_minor` = CAST(ROUND(`owed_amount` * 100) AS INTEGER);
+--> statement-breakpoint
+ALTER TABLE `splits` DROP COLUMN `owed_amount`;
+--> statement-breakpoint
+ALTER TABLE `splits` RENAME COLUMN `owed_amount_minor` TO `owed_amount`;
+--> statement-breakpoint
+ALTER TABLE `settlements` ADD `amount_minor` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE `settlements` SET `amount_minor` = CAST(ROUND(`amount` * 100) AS INTEGER);
+--> statement-breakpoint
+ALTER TABLE `settlements` DROP COLUMN `amount`;
+--> statement-breakpoint
+ALTER TABLE `settlements` RENAME COLUMN `amount_minor` TO `amount`;
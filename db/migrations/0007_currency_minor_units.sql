@@ -0,0 +1,11 @@
+-- Amounts were converted to hundredths for every currency; zero-decimal currencies store whole units instead.
+-- Rounding can leave payments or splits a unit off their expense total; scripts/migrate.js reconciles those.
+UPDATE `expenses` SET `amount` = CAST(ROUND(`amount` / 100.0) AS INTEGER) WHERE `project_id` IN (SELECT `id` FROM `projects` WHERE `currency` IN ('JPY', 'KRW'));
+--> statement-breakpoint
+UPDATE `expenses` SET `original_amount` = CAST(ROUND(`original_amount` / 100.0) AS INTEGER) WHERE `original_amount` IS NOT NULL AND `original_currency` IN ('JPY', 'KRW');
+--> statement-breakpoint
+UPDATE `payments` SET `amount` = CAST(ROUND(`amount` / 100.0) AS INTEGER) WHERE `expense_id` IN (SELECT `expenses`.`id` FROM `expenses` INNER JOIN `projects` ON `projects`.`id` = `expenses`.`project_id` WHERE `projects`.`currency` IN ('JPY', 'KRW'));
+--> statement-breakpoint
+UPDATE `splits` SET `amount` = CAST(ROUND(`amount` / 100.0) AS INTEGER), `owed_amount` = CAST(ROUND(`owed_amount` / 100.0) AS INTEGER) WHERE `expense_id` IN (SELECT `expenses`.`id` FROM `expenses` INNER JOIN `projects` ON `projects`.`id` = `expenses`.`project_id` WHERE `projects`.`currency` IN ('JPY', 'KRW'));
+--> statement-breakpoint
+UPDATE `settlements` SET `amount` = CAST(ROUND(`amount` / 100.0) AS INTEGER) WHERE `project_id` IN (SELECT `id` FROM `projects` WHERE `currency` IN ('JPY', 'KRW'));
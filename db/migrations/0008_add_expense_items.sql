@@ -0,0 +1,22 @@
+ALTER TABLE `expenses` ADD `tax_amount` integer;--> statement-breakpoint
+ALTER TABLE `expenses` ADD `tip_amount` integer;--> statement-breakpoint
+CREATE TABLE `expense_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`expense_id` text NOT NULL,
+	`description` text NOT NULL,
+	`amount` integer NOT NULL,
+	`position` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`expense_id`) REFERENCES `expenses`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `expense_item_members` (
+	`id` text PRIMARY KEY NOT NULL,
+	`item_id` text NOT NULL,
+	`member_id` text NOT NULL,
+	FOREIGN KEY (`item_id`) REFERENCES `expense_items`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`member_id`) REFERENCES `members`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_expense_items_expense_id` ON `expense_items` (`expense_id`);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_expense_item_members_item_id` ON `expense_item_members` (`item_id`);
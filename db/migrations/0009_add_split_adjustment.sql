@@ -0,0 +1 @@
+ALTER TABLE `splits` ADD `adjustment` integer;
\ No newline at end of file
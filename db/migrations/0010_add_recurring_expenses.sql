@@ -0,0 +1,20 @@
+CREATE TABLE `recurring_expenses` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`template` text NOT NULL,
+	`frequency` text NOT NULL,
+	`start_date` integer NOT NULL,
+	`end_date` integer,
+	`occurrence_limit` integer,
+	`next_occurrence` integer DEFAULT 0 NOT NULL,
+	`paused` integer DEFAULT false NOT NULL,
+	`last_error` text,
+	`created_at` integer DEFAULT (strftime('%s', 'now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_recurring_expenses_project_id` ON `recurring_expenses` (`project_id`);
+--> statement-breakpoint
+ALTER TABLE `expenses` ADD `recurring_expense_id` text REFERENCES recurring_expenses(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `expenses` ADD `recurrence_index` integer;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS `idx_expenses_recurrence` ON `expenses` (`recurring_expense_id`,`recurrence_index`);
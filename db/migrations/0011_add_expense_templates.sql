@@ -0,0 +1,17 @@
+CREATE TABLE `expense_templates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`category_id` text,
+	`payment_method_id` text,
+	`payer_ids` text NOT NULL,
+	`split_type` text NOT NULL,
+	`splits` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s', 'now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`category_id`) REFERENCES `categories`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`payment_method_id`) REFERENCES `payment_methods`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_expense_templates_project_id` ON `expense_templates` (`project_id`);
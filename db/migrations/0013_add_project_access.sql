@@ -0,0 +1,5 @@
+ALTER TABLE `projects` ADD `admin_secret` text;
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `edit_token` text;
+--> statement-breakpoint
+ALTER TABLE `projects` ADD `read_token` text;
@@ -0,0 +1,13 @@
+ALTER TABLE `projects` ADD `passphrase_hash` text;
+--> statement-breakpoint
+CREATE TABLE `project_sessions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`token_hash` text NOT NULL,
+	`created_at` integer DEFAULT (strftime('%s', 'now')),
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS `idx_project_sessions_token_hash` ON `project_sessions` (`token_hash`);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_project_sessions_project_id` ON `project_sessions` (`project_id`);
@@ -0,0 +1,16 @@
+CREATE TABLE `activity_log` (
+	`id` text PRIMARY KEY NOT NULL,
+	`project_id` text NOT NULL,
+	`actor_member_id` text,
+	`entity_type` text NOT NULL,
+	`entity_id` text NOT NULL,
+	`action` text NOT NULL,
+	`before` text,
+	`after` text,
+	`created_at` integer DEFAULT (strftime('%s', 'now')) NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_activity_log_project_id_created_at` ON `activity_log` (`project_id`,`created_at`);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_activity_log_entity_id` ON `activity_log` (`entity_id`);
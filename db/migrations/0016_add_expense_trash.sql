@@ -0,0 +1,5 @@
+ALTER TABLE `projects` ADD `trash_retention_days` integer DEFAULT 30 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `expenses` ADD `deleted_at` integer;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS `idx_expenses_deleted_at` ON `expenses` (`deleted_at`);
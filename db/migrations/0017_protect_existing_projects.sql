@@ -0,0 +1,3 @@
+ALTER TABLE `projects` ADD `admin_secret_claimable` integer DEFAULT false NOT NULL;
+--> statement-breakpoint
+UPDATE `projects` SET `admin_secret` = lower(hex(randomblob(16))), `admin_secret_claimable` = true WHERE `admin_secret` IS NULL;
@@ -1,5 +1,7 @@
 import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core'
 import { sql } from 'drizzle-orm'
+import type { ExpenseTemplateSplitInput } from '../utils/apiValidation'
+import type { RecurringExpenseTemplate } from '../utils/recurrence'
 
 export const projects = sqliteTable('projects', {
   id: text('id').primaryKey().notNull(),
@@ -7,6 +9,18 @@ export const projects = sqliteTable('projects', {
   description: text('description'),
   emoji: text('emoji').default('📊'),
   currency: text('currency').notNull().default('USD'),
+  debtSimplification: text('debt_simplification').notNull().default('greedy'),
+  // Days deleted expenses stay in the trash before they are removed for good
+  trashRetentionDays: integer('trash_retention_days').notNull().default(30),
+  // Access secrets. Every project has an admin secret; edit and read tokens are optional.
+  adminSecret: text('admin_secret'),
+  editToken: text('edit_token'),
+  readToken: text('read_token'),
+  // Projects created before access control were given an admin secret by a migration. Until an
+  // admin resets it, members who joined back then can fetch it with their member ID.
+  adminSecretClaimable: integer('admin_secret_claimable', { mode: 'boolean' }).notNull().default(false),
+  // Optional passphrase, stored as a scrypt hash; see utils/passphrase.ts
+  passphraseHash: text('passphrase_hash'),
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
 })
@@ -40,18 +54,48 @@ export const paymentMethods = sqliteTable('payment_methods', {
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
 })
 
+// Presets that pre-fill the expense form with everything but the amount and date
+export const expenseTemplates = sqliteTable('expense_templates', {
+  id: text('id').primaryKey().notNull(),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  description: text('description'),
+  categoryId: text('category_id').references(() => categories.id, { onDelete: 'set null' }),
+  paymentMethodId: text('payment_method_id').references(() => paymentMethods.id, { onDelete: 'set null' }),
+  payerIds: text('payer_ids', { mode: 'json' }).$type<string[]>().notNull(),
+  splitType: text('split_type').notNull(),
+  splits: text('splits', { mode: 'json' }).$type<ExpenseTemplateSplitInput[]>().notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+})
+
 export const expenses = sqliteTable('expenses', {
   id: text('id').primaryKey().notNull(),
   projectId: text('project_id')
     .notNull()
     .references(() => projects.id, { onDelete: 'cascade' }),
   description: text('description').notNull(),
-  amount: real('amount').notNull(),
+  // Money is stored in integer minor units (cents)
+  amount: integer('amount').notNull(),
+  originalCurrency: text('original_currency'),
+  originalAmount: integer('original_amount'),
+  exchangeRate: real('exchange_rate'),
   date: integer('date', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
   splitType: text('split_type').notNull(),
   categoryId: text('category_id').references(() => categories.id),
   paymentMethodId: text('payment_method_id').references(() => paymentMethods.id),
   notes: text('notes'),
+  // Tax and tip of itemized expenses, distributed in proportion to each member's items
+  taxAmount: integer('tax_amount'),
+  tipAmount: integer('tip_amount'),
+  // Set on expenses generated from a recurring expense; unique together so each occurrence is created once
+  recurringExpenseId: text('recurring_expense_id').references(() => recurringExpenses.id, {
+    onDelete: 'set null',
+  }),
+  recurrenceIndex: integer('recurrence_index'),
+  // Set while the expense is in the trash; trashed expenses count nowhere until restored
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }),
   createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
 })
 
@@ -63,7 +107,7 @@ export const payments = sqliteTable('payments', {
   memberId: text('member_id')
     .notNull()
     .references(() => members.id, { onDelete: 'cascade' }),
-  amount: real('amount').notNull(),
+  amount: integer('amount').notNull(),
 })
 
 export const splits = sqliteTable('splits', {
@@ -74,8 +118,122 @@ export const splits = sqliteTable('splits', {
   memberId: text('member_id')
     .notNull()
     .references(() => members.id, { onDelete: 'cascade' }),
-  amount: real('amount'),
+  amount: integer('amount'),
   shares: integer('shares'),
   percent: real('percent'),
-  owedAmount: real('owed_amount').notNull(),
+  // Signed adjustment on top of an even share, for adjustment splits
+  adjustment: integer('adjustment'),
+  owedAmount: integer('owed_amount').notNull(),
+})
+
+// Templates that generate an expense on every occurrence of their schedule
+export const recurringExpenses = sqliteTable('recurring_expenses', {
+  id: text('id').primaryKey().notNull(),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  template: text('template', { mode: 'json' }).$type<RecurringExpenseTemplate>().notNull(),
+  frequency: text('frequency').notNull(),
+  startDate: integer('start_date', { mode: 'timestamp' }).notNull(),
+  endDate: integer('end_date', { mode: 'timestamp' }),
+  occurrenceLimit: integer('occurrence_limit'),
+  // Index of the next occurrence to generate; skipping an occurrence moves it forward
+  nextOccurrence: integer('next_occurrence').notNull().default(0),
+  paused: integer('paused', { mode: 'boolean' }).notNull().default(false),
+  lastError: text('last_error'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+})
+
+// Line items of itemized expenses; each item is shared evenly by its members
+export const expenseItems = sqliteTable('expense_items', {
+  id: text('id').primaryKey().notNull(),
+  expenseId: text('expense_id')
+    .notNull()
+    .references(() => expenses.id, { onDelete: 'cascade' }),
+  description: text('description').notNull(),
+  amount: integer('amount').notNull(),
+  position: integer('position').notNull().default(0),
+})
+
+export const expenseItemMembers = sqliteTable('expense_item_members', {
+  id: text('id').primaryKey().notNull(),
+  itemId: text('item_id')
+    .notNull()
+    .references(() => expenseItems.id, { onDelete: 'cascade' }),
+  memberId: text('member_id')
+    .notNull()
+    .references(() => members.id, { onDelete: 'cascade' }),
+})
+
+// Receipts and other files attached to an expense. The file itself is stored on disk in the
+// attachments directory next to the database, under storedName.
+export const attachments = sqliteTable('attachments', {
+  id: text('id').primaryKey().notNull(),
+  expenseId: text('expense_id')
+    .notNull()
+    .references(() => expenses.id, { onDelete: 'cascade' }),
+  fileName: text('file_name').notNull(),
+  mimeType: text('mime_type').notNull(),
+  size: integer('size').notNull(),
+  storedName: text('stored_name').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+})
+
+export const settlements = sqliteTable('settlements', {
+  id: text('id').primaryKey().notNull(),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  fromMemberId: text('from_member_id')
+    .notNull()
+    .references(() => members.id, { onDelete: 'cascade' }),
+  toMemberId: text('to_member_id')
+    .notNull()
+    .references(() => members.id, { onDelete: 'cascade' }),
+  amount: integer('amount').notNull(),
+  date: integer('date', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+  notes: text('notes'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+})
+
+export const exchangeRates = sqliteTable('exchange_rates', {
+  id: text('id').primaryKey().notNull(),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  date: integer('date', { mode: 'timestamp' }).notNull(),
+  fromCurrency: text('from_currency').notNull(),
+  toCurrency: text('to_currency').notNull(),
+  rate: real('rate').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+})
+
+// Sessions of a passphrase-protected project, created when someone enters the passphrase. Only a
+// hash of the session token is stored. Changing or removing the passphrase ends all sessions.
+export const projectSessions = sqliteTable('project_sessions', {
+  id: text('id').primaryKey().notNull(),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).default(sql`(strftime('%s', 'now'))`),
+})
+
+// Append-only record of changes to expenses, members, categories and payment methods, with the
+// entity as it was before and after. Entries are never changed; they only go with their project.
+export const activityLog = sqliteTable('activity_log', {
+  id: text('id').primaryKey().notNull(),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  // The member the change was made as; not a foreign key, so entries outlive removed members
+  actorMemberId: text('actor_member_id'),
+  entityType: text('entity_type').notNull(),
+  entityId: text('entity_id').notNull(),
+  action: text('action').notNull(),
+  before: text('before', { mode: 'json' }),
+  after: text('after', { mode: 'json' }),
+  createdAt: integer('created_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(strftime('%s', 'now'))`),
 })
@@ -11,6 +11,56 @@ interface UseProjectStatsOptions {
   selectedPaymentMethod: string | null
 }
 
+type StatsFilterOptions = Omit<UseProjectStatsOptions, 'projectId' | 'memberId'>
+
+/**
+ * Query parameters for the selected filters, understood by the stats route and the CSV export
+ */
+export function getStatsFilterParams({
+  timeFrame,
+  customStartDate,
+  customEndDate,
+  selectedCategory,
+  selectedPaymentMethod,
+}: StatsFilterOptions): URLSearchParams {
+  const params = new URLSearchParams()
+
+  if (timeFrame === 'month') {
+    const now = new Date()
+    const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1)
+    params.append('startDate', startOfMonth.toISOString())
+  } else if (timeFrame === 'year') {
+    const now = new Date()
+    const startOfYear = new Date(now.getFullYear(), 0, 1)
+    params.append('startDate', startOfYear.toISOString())
+  } else if (timeFrame === '3months') {
+    const now = new Date()
+    const threeMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 3, now.getDate())
+    params.append('startDate', threeMonthsAgo.toISOString())
+  } else if (timeFrame === '6months') {
+    const now = new Date()
+    const sixMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 6, now.getDate())
+    params.append('startDate', sixMonthsAgo.toISOString())
+  } else if (timeFrame === 'custom') {
+    if (customStartDate) {
+      params.append('startDate', new Date(customStartDate).toISOString())
+    }
+    if (customEndDate) {
+      params.append('endDate', new Date(customEndDate).toISOString())
+    }
+  }
+
+  if (selectedCategory) {
+    params.append('categoryId', selectedCategory)
+  }
+
+  if (selectedPaymentMethod) {
+    params.append('paymentMethodId', selectedPaymentMethod)
+  }
+
+  return params
+}
+
 export function useProjectStats({
   projectId,
   memberId,
@@ -67,42 +117,15 @@ export function useProjectStats({
 
       try {
         // Build query parameters
-        const params = new URLSearchParams()
+        const params = getStatsFilterParams({
+          timeFrame,
+          customStartDate,
+          customEndDate,
+          selectedCategory,
+          selectedPaymentMethod,
+        })
         params.append('memberId', memberId as string)
 
-        if (timeFrame === 'month') {
-          const now = new Date()
-          const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1)
-          params.append('startDate', startOfMonth.toISOString())
-        } else if (timeFrame === 'year') {
-          const now = new Date()
-          const startOfYear = new Date(now.getFullYear(), 0, 1)
-          params.append('startDate', startOfYear.toISOString())
-        } else if (timeFrame === '3months') {
-          const now = new Date()
-          const threeMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 3, now.getDate())
-          params.append('startDate', threeMonthsAgo.toISOString())
-        } else if (timeFrame === '6months') {
-          const now = new Date()
-          const sixMonthsAgo = new Date(now.getFullYear(), now.getMonth() - 6, now.getDate())
-          params.append('startDate', sixMonthsAgo.toISOString())
-        } else if (timeFrame === 'custom') {
-          if (customStartDate) {
-            params.append('startDate', new Date(customStartDate).toISOString())
-          }
-          if (customEndDate) {
-            params.append('endDate', new Date(customEndDate).toISOString())
-          }
-        }
-
-        if (selectedCategory) {
-          params.append('categoryId', selectedCategory)
-        }
-
-        if (selectedPaymentMethod) {
-          params.append('paymentMethodId', selectedPaymentMethod)
-        }
-
         const response = await fetch(`/api/projects/${projectId}/stats?${params.toString()}`)
         const result = await response.json()
 
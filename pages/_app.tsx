@@ -1,6 +1,10 @@
 import { AppProps } from 'next/app'
 import Head from 'next/head'
 import '../styles/globals.css'
+import { restoreAccessCookies } from '../utils/localStorage'
+
+// Runs once in the browser, before any page fetches from the API
+restoreAccessCookies()
 
 function MyApp({ Component, pageProps }: AppProps) {
   return (
@@ -0,0 +1,94 @@
+import { createReadStream, promises as fs } from 'fs'
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../db'
+import { sendSuccess, sendError } from '../../../utils/api'
+import { withProjectAccess, projectIdFromAttachment } from '../../../utils/withProjectAccess'
+import { getAttachmentPath, removeAttachmentFiles } from '../../../utils/attachmentStorage'
+import { eq } from 'drizzle-orm'
+
+// Files are streamed from disk and can be larger than the default response limit
+export const config = {
+  api: {
+    responseLimit: false,
+    externalResolver: true,
+  },
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid attachment ID', 400)
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return downloadAttachment(req, res, id)
+    case 'DELETE':
+      return deleteAttachment(req, res, id)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromAttachment,
+  notFoundMessage: 'Attachment not found',
+})
+
+// Serve the file inline so images can be shown as thumbnails; ?download=1 saves it instead
+async function downloadAttachment(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    const [attachment] = await db.select().from(schema.attachments).where(eq(schema.attachments.id, id))
+
+    if (!attachment) return sendError(res, 'Attachment not found', 404)
+
+    const filePath = getAttachmentPath(attachment.storedName)
+    const stat = await fs.stat(filePath).catch(() => null)
+    if (!stat) return sendError(res, 'Attachment file is missing', 404)
+
+    const disposition = req.query.download ? 'attachment' : 'inline'
+    res.setHeader('Content-Type', attachment.mimeType)
+    res.setHeader('Content-Length', stat.size)
+    res.setHeader(
+      'Content-Disposition',
+      `${disposition}; filename="${attachment.fileName.replace(/[^\x20-\x7e]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`
+    )
+    // Files never change under the same ID
+    res.setHeader('Cache-Control', 'private, max-age=31536000, immutable')
+
+    const stream = createReadStream(filePath)
+    // The file can disappear or become unreadable after the stat, so reading may still fail
+    stream.on('error', (error: NodeJS.ErrnoException) => {
+      console.error('Error streaming attachment:', error)
+      if (res.headersSent) return res.destroy(error)
+
+      for (const header of ['Content-Type', 'Content-Length', 'Content-Disposition', 'Cache-Control']) {
+        res.removeHeader(header)
+      }
+      return error.code === 'ENOENT'
+        ? sendError(res, 'Attachment file is missing', 404)
+        : sendError(res, 'Failed to download attachment', 500)
+    })
+    stream.pipe(res)
+  } catch (error) {
+    console.error('Error downloading attachment:', error)
+    return sendError(res, 'Failed to download attachment')
+  }
+}
+
+async function deleteAttachment(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    const [attachment] = await db.select().from(schema.attachments).where(eq(schema.attachments.id, id))
+
+    if (!attachment) return sendError(res, 'Attachment not found', 404)
+
+    await db.delete(schema.attachments).where(eq(schema.attachments.id, id))
+    await removeAttachmentFiles([attachment.storedName])
+
+    return sendSuccess(res, { id })
+  } catch (error) {
+    console.error('Error deleting attachment:', error)
+    return sendError(res, 'Failed to delete attachment')
+  }
+}
@@ -0,0 +1,126 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../db'
+import { generateId } from '../../../utils/id'
+import { sendSuccess, sendError } from '../../../utils/api'
+import { withProjectAccess, projectIdFromExpenseQuery } from '../../../utils/withProjectAccess'
+import { asTrimmedString } from '../../../utils/apiValidation'
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_EXPENSE,
+} from '../../../utils/attachments'
+import {
+  detectAttachmentType,
+  getAttachmentsByExpense,
+  readAttachmentBody,
+  removeAttachmentFiles,
+  toApiAttachment,
+  writeAttachmentFile,
+} from '../../../utils/attachmentStorage'
+import { eq } from 'drizzle-orm'
+
+// Uploads send the file itself as the request body, so Next.js must not parse it
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  switch (req.method) {
+    case 'GET':
+      return getAttachments(req, res)
+    case 'POST':
+      return uploadAttachment(req, res)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromExpenseQuery,
+  notFoundMessage: 'Expense not found',
+})
+
+async function getAttachments(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { expenseId } = req.query
+
+    if (!expenseId || typeof expenseId !== 'string') {
+      return sendError(res, 'Expense ID is required', 400)
+    }
+
+    const attachments = (await getAttachmentsByExpense([expenseId])).get(expenseId) ?? []
+
+    return sendSuccess(res, attachments.map(toApiAttachment))
+  } catch (error) {
+    console.error('Error fetching attachments:', error)
+    return sendError(res, 'Failed to fetch attachments')
+  }
+}
+
+// Attach a file to an expense: POST /api/attachments?expenseId=...&fileName=... with the raw file as body
+async function uploadAttachment(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const expenseId = asTrimmedString(req.query.expenseId, 'Expense ID', 128)
+    // Keep only the last path segment of the name and drop control characters
+    const fileName = asTrimmedString(req.query.fileName, 'File name', 200)
+      .split(/[\\/]/)
+      .pop()!
+      .replace(/[\u0000-\u001f\u007f"]/g, '')
+
+    if (Number(req.headers['content-length']) > MAX_ATTACHMENT_SIZE) {
+      return sendError(res, `Attachments must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller`, 413)
+    }
+
+    const [expense] = await db.select().from(schema.expenses).where(eq(schema.expenses.id, expenseId))
+    if (!expense) return sendError(res, 'Expense not found', 404)
+    if (expense.deletedAt) {
+      return sendError(res, 'Restore this expense from the trash before adding attachments', 400)
+    }
+
+    const existing = await db
+      .select({ id: schema.attachments.id })
+      .from(schema.attachments)
+      .where(eq(schema.attachments.expenseId, expenseId))
+    if (existing.length >= MAX_ATTACHMENTS_PER_EXPENSE) {
+      return sendError(res, `An expense can have at most ${MAX_ATTACHMENTS_PER_EXPENSE} attachments`, 400)
+    }
+
+    const data = await readAttachmentBody(req)
+    if (data.length === 0) return sendError(res, 'Attachment is empty', 400)
+
+    const mimeType = detectAttachmentType(data)
+    if (!mimeType || !ATTACHMENT_TYPES.some((type) => type.mimeType === mimeType)) {
+      return sendError(res, 'Attachments must be a JPEG, PNG, GIF, WebP or HEIC image, or a PDF', 415)
+    }
+
+    const attachmentId = generateId()
+    const storedName = await writeAttachmentFile(expense.projectId, attachmentId, mimeType, data)
+
+    try {
+      await db.insert(schema.attachments).values({
+        id: attachmentId,
+        expenseId,
+        fileName: fileName || 'attachment',
+        mimeType,
+        size: data.length,
+        storedName,
+        createdAt: new Date(),
+      })
+    } catch (error) {
+      await removeAttachmentFiles([storedName])
+      throw error
+    }
+
+    const [attachment] = await db
+      .select()
+      .from(schema.attachments)
+      .where(eq(schema.attachments.id, attachmentId))
+
+    return sendSuccess(res, toApiAttachment(attachment), 201)
+  } catch (error) {
+    console.error('Error uploading attachment:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to upload attachment', 400)
+  }
+}
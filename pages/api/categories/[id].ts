@@ -1,10 +1,12 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../db'
 import { sendSuccess, sendError } from '../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromCategory } from '../../../utils/withProjectAccess'
+import { recordActivity } from '../../../utils/activityLog'
 import { asColor, asOptionalTrimmedString, isPlainObject } from '../../../utils/apiValidation'
 import { eq } from 'drizzle-orm'
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   const { id } = req.query
 
   if (!id || typeof id !== 'string') {
@@ -13,15 +15,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   switch (req.method) {
     case 'DELETE':
-      return deleteCategory(req, res, id)
+      return deleteCategory(req, res, id, access)
     case 'PUT':
-      return updateCategory(req, res, id)
+      return updateCategory(req, res, id, access)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
 
-async function deleteCategory(req: NextApiRequest, res: NextApiResponse, id: string) {
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromCategory,
+  notFoundMessage: 'Category not found',
+})
+
+async function deleteCategory(req: NextApiRequest, res: NextApiResponse, id: string, access: ProjectAccess) {
   try {
     const [category] = await db.select().from(schema.categories).where(eq(schema.categories.id, id))
 
@@ -33,11 +40,21 @@ async function deleteCategory(req: NextApiRequest, res: NextApiResponse, id: str
       .where(eq(schema.expenses.categoryId, id))
       .limit(1)
 
-    if (usedByExpenses.length > 0) {
-      await db.update(schema.expenses).set({ categoryId: null }).where(eq(schema.expenses.categoryId, id))
-    }
-
-    await db.delete(schema.categories).where(eq(schema.categories.id, id))
+    db.transaction((tx) => {
+      if (usedByExpenses.length > 0) {
+        tx.update(schema.expenses).set({ categoryId: null }).where(eq(schema.expenses.categoryId, id)).run()
+      }
+
+      tx.delete(schema.categories).where(eq(schema.categories.id, id)).run()
+      recordActivity(tx, {
+        projectId: category.projectId,
+        actorMemberId: access.memberId,
+        entityType: 'category',
+        entityId: id,
+        action: 'delete',
+        before: category,
+      })
+    })
 
     return sendSuccess(res, { id })
   } catch (error) {
@@ -46,7 +63,7 @@ async function deleteCategory(req: NextApiRequest, res: NextApiResponse, id: str
   }
 }
 
-async function updateCategory(req: NextApiRequest, res: NextApiResponse, id: string) {
+async function updateCategory(req: NextApiRequest, res: NextApiResponse, id: string, access: ProjectAccess) {
   try {
     if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
 
@@ -58,12 +75,23 @@ async function updateCategory(req: NextApiRequest, res: NextApiResponse, id: str
     const [category] = await db.select().from(schema.categories).where(eq(schema.categories.id, id))
     if (!category) return sendError(res, 'Category not found', 404)
 
-    await db
-      .update(schema.categories)
-      .set({ ...(name ? { name } : {}), ...(color ? { color } : {}) })
-      .where(eq(schema.categories.id, id))
-
-    const [updatedCategory] = await db.select().from(schema.categories).where(eq(schema.categories.id, id))
+    const updatedCategory = db.transaction((tx) => {
+      tx.update(schema.categories)
+        .set({ ...(name ? { name } : {}), ...(color ? { color } : {}) })
+        .where(eq(schema.categories.id, id))
+        .run()
+      const updated = tx.select().from(schema.categories).where(eq(schema.categories.id, id)).get()
+      recordActivity(tx, {
+        projectId: category.projectId,
+        actorMemberId: access.memberId,
+        entityType: 'category',
+        entityId: id,
+        action: 'update',
+        before: category,
+        after: updated,
+      })
+      return updated
+    })
 
     return sendSuccess(res, updatedCategory)
   } catch (error) {
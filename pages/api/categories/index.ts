@@ -2,20 +2,26 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../db'
 import { generateId } from '../../../utils/id'
 import { sendSuccess, sendError } from '../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromRequest } from '../../../utils/withProjectAccess'
+import { recordActivity } from '../../../utils/activityLog'
 import { asColor, asTrimmedString, isPlainObject } from '../../../utils/apiValidation'
 import { eq } from 'drizzle-orm'
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   switch (req.method) {
     case 'GET':
       return getCategories(req, res)
     case 'POST':
-      return createCategory(req, res)
+      return createCategory(req, res, access)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
 
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRequest,
+})
+
 async function getCategories(req: NextApiRequest, res: NextApiResponse) {
   try {
     const { projectId } = req.query
@@ -36,11 +42,11 @@ async function getCategories(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function createCategory(req: NextApiRequest, res: NextApiResponse) {
+async function createCategory(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   try {
     if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
 
-    const projectId = asTrimmedString(req.body.projectId, 'Project ID', 128)
+    const { projectId } = access
     const name = asTrimmedString(req.body.name, 'Category name')
     const color = asColor(req.body.color)
 
@@ -49,9 +55,19 @@ async function createCategory(req: NextApiRequest, res: NextApiResponse) {
 
     const categoryId = generateId()
 
-    await db.insert(schema.categories).values({ id: categoryId, projectId, name, color })
-
-    const [category] = await db.select().from(schema.categories).where(eq(schema.categories.id, categoryId))
+    const category = db.transaction((tx) => {
+      tx.insert(schema.categories).values({ id: categoryId, projectId, name, color }).run()
+      const created = tx.select().from(schema.categories).where(eq(schema.categories.id, categoryId)).get()
+      recordActivity(tx, {
+        projectId,
+        actorMemberId: access.memberId,
+        entityType: 'category',
+        entityId: categoryId,
+        action: 'create',
+        after: created,
+      })
+      return created
+    })
 
     return sendSuccess(res, category, 201)
   } catch (error) {
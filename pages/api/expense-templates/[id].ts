@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../db'
+import { sendSuccess, sendError } from '../../../utils/api'
+import { withProjectAccess, projectIdFromExpenseTemplate } from '../../../utils/withProjectAccess'
+import { eq } from 'drizzle-orm'
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid expense template ID', 400)
+  }
+
+  switch (req.method) {
+    case 'DELETE':
+      return deleteExpenseTemplate(req, res, id)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromExpenseTemplate,
+  notFoundMessage: 'Expense template not found',
+})
+
+async function deleteExpenseTemplate(req: NextApiRequest, res: NextApiResponse, id: string) {
+  try {
+    const [expenseTemplate] = await db
+      .select()
+      .from(schema.expenseTemplates)
+      .where(eq(schema.expenseTemplates.id, id))
+
+    if (!expenseTemplate) return sendError(res, 'Expense template not found', 404)
+
+    await db.delete(schema.expenseTemplates).where(eq(schema.expenseTemplates.id, id))
+
+    return sendSuccess(res, { id })
+  } catch (error) {
+    console.error('Error deleting expense template:', error)
+    return sendError(res, 'Failed to delete expense template')
+  }
+}
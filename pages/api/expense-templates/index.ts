@@ -0,0 +1,90 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../db'
+import { generateId } from '../../../utils/id'
+import { sendSuccess, sendError } from '../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromRequest } from '../../../utils/withProjectAccess'
+import {
+  isPlainObject,
+  parseExpenseTemplateBody,
+  validateExpenseReferences,
+} from '../../../utils/apiValidation'
+import { toApiExpenseTemplate } from '../../../utils/money'
+import { eq } from 'drizzle-orm'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  switch (req.method) {
+    case 'GET':
+      return getExpenseTemplates(req, res)
+    case 'POST':
+      return createExpenseTemplate(req, res, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRequest,
+})
+
+async function getExpenseTemplates(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { projectId } = req.query
+
+    if (!projectId || typeof projectId !== 'string') {
+      return sendError(res, 'Project ID is required', 400)
+    }
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+    if (!project) return sendError(res, 'Project not found', 404)
+
+    const expenseTemplates = await db
+      .select()
+      .from(schema.expenseTemplates)
+      .where(eq(schema.expenseTemplates.projectId, projectId))
+
+    return sendSuccess(
+      res,
+      expenseTemplates.map((template) => toApiExpenseTemplate(template, project.currency))
+    )
+  } catch (error) {
+    console.error('Error fetching expense templates:', error)
+    return sendError(res, 'Failed to fetch expense templates')
+  }
+}
+
+async function createExpenseTemplate(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const { projectId } = access
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+    if (!project) return sendError(res, 'Project not found', 404)
+
+    // Adjustments are parsed into minor units of the project currency
+    const input = parseExpenseTemplateBody(req.body, project.currency)
+    await validateExpenseReferences(
+      { ...input, payments: input.payerIds.map((memberId) => ({ memberId })) },
+      projectId
+    )
+
+    const expenseTemplateId = generateId()
+
+    await db.insert(schema.expenseTemplates).values({
+      id: expenseTemplateId,
+      projectId,
+      ...input,
+      createdAt: new Date(),
+    })
+
+    const [expenseTemplate] = await db
+      .select()
+      .from(schema.expenseTemplates)
+      .where(eq(schema.expenseTemplates.id, expenseTemplateId))
+
+    return sendSuccess(res, toApiExpenseTemplate(expenseTemplate, project.currency), 201)
+  } catch (error) {
+    console.error('Error creating expense template:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to create expense template', 400)
+  }
+}
@@ -1,11 +1,16 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../db'
-import { generateId } from '../../../utils/id'
 import { sendSuccess, sendError } from '../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromExpense } from '../../../utils/withProjectAccess'
 import { parseExpenseBody, validateExpenseReferences } from '../../../utils/apiValidation'
+import { recordActivity } from '../../../utils/activityLog'
+import { getExpenseItemsByExpense } from '../../../utils/expenseItems'
+import { readExpenseSnapshot, replaceExpense } from '../../../utils/expenses'
+import { toApiExpense } from '../../../utils/money'
+import { deleteExpensesPermanently } from '../../../utils/trash'
 import { eq } from 'drizzle-orm'
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   const { id } = req.query
 
   if (!id || typeof id !== 'string') {
@@ -14,15 +19,25 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   switch (req.method) {
     case 'PUT':
-      return updateExpense(req, res, id)
+      return updateExpense(req, res, id, access)
     case 'DELETE':
-      return deleteExpense(req, res, id)
+      return deleteExpense(req, res, id, access)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
 
-async function updateExpense(req: NextApiRequest, res: NextApiResponse, expenseId: string) {
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromExpense,
+  notFoundMessage: 'Expense not found',
+})
+
+async function updateExpense(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  expenseId: string,
+  access: ProjectAccess
+) {
   try {
     const [existingExpense] = await db.select().from(schema.expenses).where(eq(schema.expenses.id, expenseId))
 
@@ -30,50 +45,37 @@ async function updateExpense(req: NextApiRequest, res: NextApiResponse, expenseI
       return sendError(res, 'Expense not found', 404)
     }
 
-    const input = parseExpenseBody(req.body, { requireProjectId: false })
+    if (existingExpense.deletedAt) {
+      return sendError(res, 'Restore this expense from the trash before changing it', 400)
+    }
+
+    const [project] = await db
+      .select()
+      .from(schema.projects)
+      .where(eq(schema.projects.id, existingExpense.projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    // Amounts are parsed into minor units of the project currency
+    const input = parseExpenseBody(req.body, { currency: project.currency })
     await validateExpenseReferences(input, existingExpense.projectId)
 
     db.transaction((tx) => {
-      tx.update(schema.expenses)
-        .set({
-          description: input.description,
-          amount: input.amount,
-          date: input.date,
-          splitType: input.splitType,
-          categoryId: input.categoryId,
-          paymentMethodId: input.paymentMethodId,
-          notes: input.notes,
-        })
-        .where(eq(schema.expenses.id, expenseId))
-        .run()
-
-      tx.delete(schema.payments).where(eq(schema.payments.expenseId, expenseId)).run()
-      tx.delete(schema.splits).where(eq(schema.splits.expenseId, expenseId)).run()
-
-      for (const payment of input.payments) {
-        tx.insert(schema.payments)
-          .values({
-            id: generateId(),
-            expenseId,
-            memberId: payment.memberId,
-            amount: payment.amount,
-          })
-          .run()
-      }
-
-      for (const split of input.splits) {
-        tx.insert(schema.splits)
-          .values({
-            id: generateId(),
-            expenseId,
-            memberId: split.memberId,
-            amount: split.amount,
-            shares: split.shares,
-            percent: split.percent,
-            owedAmount: split.owedAmount,
-          })
-          .run()
-      }
+      const before = readExpenseSnapshot(tx, expenseId)
+
+      replaceExpense(tx, expenseId, input)
+
+      recordActivity(tx, {
+        projectId: existingExpense.projectId,
+        actorMemberId: access.memberId,
+        entityType: 'expense',
+        entityId: expenseId,
+        action: 'update',
+        before,
+        after: readExpenseSnapshot(tx, expenseId),
+      })
     })
 
     const [expense] = await db.select().from(schema.expenses).where(eq(schema.expenses.id, expenseId))
@@ -82,15 +84,27 @@ async function updateExpense(req: NextApiRequest, res: NextApiResponse, expenseI
       .from(schema.payments)
       .where(eq(schema.payments.expenseId, expenseId))
     const expenseSplits = await db.select().from(schema.splits).where(eq(schema.splits.expenseId, expenseId))
-
-    return sendSuccess(res, { ...expense, payments: expensePayments, splits: expenseSplits })
+    const expenseItems = (await getExpenseItemsByExpense([expenseId])).get(expenseId) ?? []
+
+    return sendSuccess(
+      res,
+      toApiExpense(
+        { ...expense, payments: expensePayments, splits: expenseSplits, items: expenseItems },
+        project.currency
+      )
+    )
   } catch (error) {
     console.error('Error updating expense:', error)
     return sendError(res, error instanceof Error ? error.message : 'Failed to update expense', 400)
   }
 }
 
-async function deleteExpense(req: NextApiRequest, res: NextApiResponse, expenseId: string) {
+async function deleteExpense(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  expenseId: string,
+  access: ProjectAccess
+) {
   try {
     const [existingExpense] = await db.select().from(schema.expenses).where(eq(schema.expenses.id, expenseId))
 
@@ -98,13 +112,28 @@ async function deleteExpense(req: NextApiRequest, res: NextApiResponse, expenseI
       return sendError(res, 'Expense not found', 404)
     }
 
+    // Deleting moves an expense to the trash; deleting it from the trash removes it for good
+    const action = existingExpense.deletedAt ? 'purge' : 'delete'
+    const deletedAt = existingExpense.deletedAt ?? new Date()
+
     db.transaction((tx) => {
-      tx.delete(schema.payments).where(eq(schema.payments.expenseId, expenseId)).run()
-      tx.delete(schema.splits).where(eq(schema.splits.expenseId, expenseId)).run()
-      tx.delete(schema.expenses).where(eq(schema.expenses.id, expenseId)).run()
+      recordActivity(tx, {
+        projectId: existingExpense.projectId,
+        actorMemberId: access.memberId,
+        entityType: 'expense',
+        entityId: expenseId,
+        action,
+        before: readExpenseSnapshot(tx, expenseId),
+      })
+
+      if (action === 'delete') {
+        tx.update(schema.expenses).set({ deletedAt }).where(eq(schema.expenses.id, expenseId)).run()
+      }
     })
 
-    return sendSuccess(res, { id: expenseId })
+    if (action === 'purge') await deleteExpensesPermanently([expenseId])
+
+    return sendSuccess(res, { id: expenseId, deletedAt, permanent: action === 'purge' })
   } catch (error) {
     console.error('Error deleting expense:', error)
     return sendError(res, 'Failed to delete expense')
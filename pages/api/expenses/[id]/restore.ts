@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromExpense } from '../../../../utils/withProjectAccess'
+import { recordActivity } from '../../../../utils/activityLog'
+import { readExpenseSnapshot } from '../../../../utils/expenses'
+import { eq } from 'drizzle-orm'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid expense ID', 400)
+  }
+
+  switch (req.method) {
+    case 'POST':
+      return restoreExpense(req, res, id, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromExpense,
+  notFoundMessage: 'Expense not found',
+})
+
+// Take an expense out of the trash, with the payments, splits and attachments it had
+async function restoreExpense(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  expenseId: string,
+  access: ProjectAccess
+) {
+  try {
+    const [existingExpense] = await db.select().from(schema.expenses).where(eq(schema.expenses.id, expenseId))
+
+    if (!existingExpense) {
+      return sendError(res, 'Expense not found', 404)
+    }
+
+    if (!existingExpense.deletedAt) {
+      return sendError(res, 'This expense is not in the trash', 400)
+    }
+
+    db.transaction((tx) => {
+      tx.update(schema.expenses).set({ deletedAt: null }).where(eq(schema.expenses.id, expenseId)).run()
+
+      recordActivity(tx, {
+        projectId: existingExpense.projectId,
+        actorMemberId: access.memberId,
+        entityType: 'expense',
+        entityId: expenseId,
+        action: 'restore',
+        after: readExpenseSnapshot(tx, expenseId),
+      })
+    })
+
+    return sendSuccess(res, { id: expenseId })
+  } catch (error) {
+    console.error('Error restoring expense:', error)
+    return sendError(res, 'Failed to restore expense')
+  }
+}
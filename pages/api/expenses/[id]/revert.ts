@@ -0,0 +1,102 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromExpense } from '../../../../utils/withProjectAccess'
+import { asTrimmedString, parseExpenseBody, validateExpenseReferences } from '../../../../utils/apiValidation'
+import { recordActivity } from '../../../../utils/activityLog'
+import { ExpenseSnapshot, readExpenseSnapshot, replaceExpense } from '../../../../utils/expenses'
+import { toApiExpense } from '../../../../utils/money'
+import { and, eq } from 'drizzle-orm'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid expense ID', 400)
+  }
+
+  switch (req.method) {
+    case 'POST':
+      return revertExpense(req, res, id, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromExpense,
+  notFoundMessage: 'Expense not found',
+})
+
+// Set an expense back to how it was after one of its activity log entries. The stored state is
+// validated like an edit, so a revision that names a removed member or category is refused.
+async function revertExpense(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  expenseId: string,
+  access: ProjectAccess
+) {
+  try {
+    const revisionId = asTrimmedString(req.body?.revisionId, 'Revision ID', 128)
+
+    const [existingExpense] = await db.select().from(schema.expenses).where(eq(schema.expenses.id, expenseId))
+
+    if (!existingExpense) {
+      return sendError(res, 'Expense not found', 404)
+    }
+
+    if (existingExpense.deletedAt) {
+      return sendError(res, 'Restore this expense from the trash before changing it', 400)
+    }
+
+    const [revision] = await db
+      .select()
+      .from(schema.activityLog)
+      .where(
+        and(
+          eq(schema.activityLog.id, revisionId),
+          eq(schema.activityLog.entityType, 'expense'),
+          eq(schema.activityLog.entityId, expenseId)
+        )
+      )
+
+    if (!revision || !revision.after) {
+      return sendError(res, 'Revision not found', 404)
+    }
+
+    const [project] = await db
+      .select()
+      .from(schema.projects)
+      .where(eq(schema.projects.id, existingExpense.projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    // The log keeps minor units, so the revision goes through the API representation to be parsed again
+    const body = toApiExpense(revision.after as ExpenseSnapshot, project.currency)
+    const input = parseExpenseBody(body, { currency: project.currency })
+    await validateExpenseReferences(input, existingExpense.projectId)
+
+    db.transaction((tx) => {
+      const before = readExpenseSnapshot(tx, expenseId)
+
+      replaceExpense(tx, expenseId, input)
+
+      recordActivity(tx, {
+        projectId: existingExpense.projectId,
+        actorMemberId: access.memberId,
+        entityType: 'expense',
+        entityId: expenseId,
+        action: 'revert',
+        before,
+        after: readExpenseSnapshot(tx, expenseId),
+      })
+    })
+
+    return sendSuccess(res, { id: expenseId, revisionId })
+  } catch (error) {
+    console.error('Error reverting expense:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to revert expense', 400)
+  }
+}
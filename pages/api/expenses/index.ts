@@ -2,65 +2,53 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../db'
 import { generateId } from '../../../utils/id'
 import { sendSuccess, sendError } from '../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromRequest } from '../../../utils/withProjectAccess'
 import { parseExpenseBody, validateExpenseReferences } from '../../../utils/apiValidation'
+import { recordActivity } from '../../../utils/activityLog'
+import { getExpenseItemsByExpense } from '../../../utils/expenseItems'
+import { insertExpense, readExpenseSnapshot } from '../../../utils/expenses'
+import { toApiExpense } from '../../../utils/money'
 import { eq } from 'drizzle-orm'
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   switch (req.method) {
     case 'POST':
-      return createExpense(req, res)
+      return createExpense(req, res, access)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
 
-async function createExpense(req: NextApiRequest, res: NextApiResponse) {
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRequest,
+})
+
+async function createExpense(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   try {
-    const input = parseExpenseBody(req.body, { requireProjectId: true })
-    const projectId = input.projectId!
+    const { projectId } = access
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
 
+    // Amounts are parsed into minor units of the project currency
+    const input = parseExpenseBody(req.body, { currency: project.currency })
     await validateExpenseReferences(input, projectId)
 
     const expenseId = generateId()
 
     db.transaction((tx) => {
-      tx.insert(schema.expenses).values({
-        id: expenseId,
-        projectId,
-        description: input.description,
-        amount: input.amount,
-        date: input.date,
-        splitType: input.splitType,
-        categoryId: input.categoryId,
-        paymentMethodId: input.paymentMethodId,
-        notes: input.notes,
-        createdAt: new Date(),
-      }).run()
+      insertExpense(tx, expenseId, projectId, input)
 
-      for (const payment of input.payments) {
-        tx.insert(schema.payments)
-          .values({
-            id: generateId(),
-            expenseId,
-            memberId: payment.memberId,
-            amount: payment.amount,
-          })
-          .run()
-      }
-
-      for (const split of input.splits) {
-        tx.insert(schema.splits)
-          .values({
-            id: generateId(),
-            expenseId,
-            memberId: split.memberId,
-            amount: split.amount,
-            shares: split.shares,
-            percent: split.percent,
-            owedAmount: split.owedAmount,
-          })
-          .run()
-      }
+      recordActivity(tx, {
+        projectId,
+        actorMemberId: access.memberId,
+        entityType: 'expense',
+        entityId: expenseId,
+        action: 'create',
+        after: readExpenseSnapshot(tx, expenseId),
+      })
     })
 
     const [expense] = await db.select().from(schema.expenses).where(eq(schema.expenses.id, expenseId))
@@ -69,8 +57,16 @@ async function createExpense(req: NextApiRequest, res: NextApiResponse) {
       .from(schema.payments)
       .where(eq(schema.payments.expenseId, expenseId))
     const expenseSplits = await db.select().from(schema.splits).where(eq(schema.splits.expenseId, expenseId))
+    const expenseItems = (await getExpenseItemsByExpense([expenseId])).get(expenseId) ?? []
 
-    return sendSuccess(res, { ...expense, payments: expensePayments, splits: expenseSplits }, 201)
+    return sendSuccess(
+      res,
+      toApiExpense(
+        { ...expense, payments: expensePayments, splits: expenseSplits, items: expenseItems },
+        project.currency
+      ),
+      201
+    )
   } catch (error) {
     console.error('Error creating expense:', error)
     return sendError(res, error instanceof Error ? error.message : 'Failed to create expense', 400)
@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../db'
+import { sendSuccess, sendError } from '../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromRequest } from '../../../utils/withProjectAccess'
+import { asPositiveMinorUnits, isPlainObject, parseSplitBody } from '../../../utils/apiValidation'
+import { toApiSplit } from '../../../utils/money'
+import { eq } from 'drizzle-orm'
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  switch (req.method) {
+    case 'POST':
+      return previewSplit(req, res, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRequest,
+  // Calculates without saving anything
+  requiredLevel: () => 'read',
+})
+
+// Dry run: calculate the owed amounts the server would store, without saving anything
+async function previewSplit(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, access.projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const amount = asPositiveMinorUnits(req.body.amount, project.currency)
+    const { splitType, splits } = parseSplitBody(req.body, amount, project.currency)
+
+    return sendSuccess(res, {
+      splitType,
+      splits: splits.map((split) => toApiSplit(split, project.currency)),
+    })
+  } catch (error) {
+    console.error('Error previewing expense split:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to preview expense split', 400)
+  }
+}
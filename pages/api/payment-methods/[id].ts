@@ -1,9 +1,15 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../db'
 import { sendSuccess, sendError } from '../../../utils/api'
+import {
+  ProjectAccess,
+  withProjectAccess,
+  projectIdFromPaymentMethod,
+} from '../../../utils/withProjectAccess'
+import { recordActivity } from '../../../utils/activityLog'
 import { eq } from 'drizzle-orm'
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   const { id } = req.query
 
   if (!id || typeof id !== 'string') {
@@ -12,13 +18,23 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   switch (req.method) {
     case 'DELETE':
-      return deletePaymentMethod(req, res, id)
+      return deletePaymentMethod(req, res, id, access)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
 
-async function deletePaymentMethod(req: NextApiRequest, res: NextApiResponse, id: string) {
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromPaymentMethod,
+  notFoundMessage: 'Payment method not found',
+})
+
+async function deletePaymentMethod(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  id: string,
+  access: ProjectAccess
+) {
   try {
     const [paymentMethod] = await db
       .select()
@@ -33,11 +49,24 @@ async function deletePaymentMethod(req: NextApiRequest, res: NextApiResponse, id
       .where(eq(schema.expenses.paymentMethodId, id))
       .limit(1)
 
-    if (usedByExpenses.length > 0) {
-      await db.update(schema.expenses).set({ paymentMethodId: null }).where(eq(schema.expenses.paymentMethodId, id))
-    }
+    db.transaction((tx) => {
+      if (usedByExpenses.length > 0) {
+        tx.update(schema.expenses)
+          .set({ paymentMethodId: null })
+          .where(eq(schema.expenses.paymentMethodId, id))
+          .run()
+      }
 
-    await db.delete(schema.paymentMethods).where(eq(schema.paymentMethods.id, id))
+      tx.delete(schema.paymentMethods).where(eq(schema.paymentMethods.id, id)).run()
+      recordActivity(tx, {
+        projectId: paymentMethod.projectId,
+        actorMemberId: access.memberId,
+        entityType: 'paymentMethod',
+        entityId: id,
+        action: 'delete',
+        before: paymentMethod,
+      })
+    })
 
     return sendSuccess(res, { id })
   } catch (error) {
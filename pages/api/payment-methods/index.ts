@@ -2,20 +2,26 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../db'
 import { generateId } from '../../../utils/id'
 import { sendSuccess, sendError } from '../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromRequest } from '../../../utils/withProjectAccess'
+import { recordActivity } from '../../../utils/activityLog'
 import { asTrimmedString, isPlainObject } from '../../../utils/apiValidation'
 import { eq } from 'drizzle-orm'
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   switch (req.method) {
     case 'GET':
       return getPaymentMethods(req, res)
     case 'POST':
-      return createPaymentMethod(req, res)
+      return createPaymentMethod(req, res, access)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
 
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRequest,
+})
+
 async function getPaymentMethods(req: NextApiRequest, res: NextApiResponse) {
   try {
     const { projectId } = req.query
@@ -36,11 +42,11 @@ async function getPaymentMethods(req: NextApiRequest, res: NextApiResponse) {
   }
 }
 
-async function createPaymentMethod(req: NextApiRequest, res: NextApiResponse) {
+async function createPaymentMethod(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   try {
     if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
 
-    const projectId = asTrimmedString(req.body.projectId, 'Project ID', 128)
+    const { projectId } = access
     const name = asTrimmedString(req.body.name, 'Payment method name')
     const icon = asTrimmedString(req.body.icon || '💳', 'Payment method icon', 16)
 
@@ -49,12 +55,23 @@ async function createPaymentMethod(req: NextApiRequest, res: NextApiResponse) {
 
     const paymentMethodId = generateId()
 
-    await db.insert(schema.paymentMethods).values({ id: paymentMethodId, projectId, name, icon })
-
-    const [paymentMethod] = await db
-      .select()
-      .from(schema.paymentMethods)
-      .where(eq(schema.paymentMethods.id, paymentMethodId))
+    const paymentMethod = db.transaction((tx) => {
+      tx.insert(schema.paymentMethods).values({ id: paymentMethodId, projectId, name, icon }).run()
+      const created = tx
+        .select()
+        .from(schema.paymentMethods)
+        .where(eq(schema.paymentMethods.id, paymentMethodId))
+        .get()
+      recordActivity(tx, {
+        projectId,
+        actorMemberId: access.memberId,
+        entityType: 'paymentMethod',
+        entityId: paymentMethodId,
+        action: 'create',
+        after: created,
+      })
+      return created
+    })
 
     return sendSuccess(res, paymentMethod, 201)
   } catch (error) {
@@ -0,0 +1,103 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { asAccessLevel, isPlainObject } from '../../../../utils/apiValidation'
+import { AccessLevel, hasAccessLevel } from '../../../../utils/projectAccess'
+import {
+  ProjectAccess,
+  generateAccessToken,
+  projectIdFromRoute,
+  withProjectAccess,
+} from '../../../../utils/withProjectAccess'
+import { eq } from 'drizzle-orm'
+
+const TOKEN_COLUMNS = {
+  admin: 'adminSecret',
+  edit: 'editToken',
+  read: 'readToken',
+} as const
+
+// The caller's access, and the tokens of share links at or below it
+async function getAccess(res: NextApiResponse, access: ProjectAccess) {
+  try {
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, access.projectId))
+
+    const tokens: Partial<Record<AccessLevel, string | null>> = {}
+    for (const level of Object.keys(TOKEN_COLUMNS) as AccessLevel[]) {
+      if (hasAccessLevel(access.level, level)) tokens[level] = project[TOKEN_COLUMNS[level]]
+    }
+
+    return sendSuccess(res, {
+      level: access.level,
+      hasPassphrase: !!project.passphraseHash,
+      tokens,
+      adminSecretClaimable: project.adminSecretClaimable,
+    })
+  } catch (error) {
+    console.error('Error fetching project access:', error)
+    return sendError(res, 'Failed to fetch project access')
+  }
+}
+
+// Create or reset the token of an access level; links with the old token stop working
+async function resetToken(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const level = asAccessLevel(req.body.level)
+
+    await db
+      .update(schema.projects)
+      .set({
+        [TOKEN_COLUMNS[level]]: generateAccessToken(),
+        // The new admin secret is only for whoever resets it to share, so members cannot fetch it
+        ...(level === 'admin' && { adminSecretClaimable: false }),
+      })
+      .where(eq(schema.projects.id, access.projectId))
+
+    return getAccess(res, access)
+  } catch (error) {
+    console.error('Error resetting access token:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to reset access link', 400)
+  }
+}
+
+// Disable the read-only or edit link; the admin secret cannot be removed
+async function disableToken(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    const level = asAccessLevel(req.query.level)
+
+    if (level === 'admin') {
+      return sendError(res, 'The admin link cannot be disabled, only reset', 400)
+    }
+
+    await db
+      .update(schema.projects)
+      .set({ [TOKEN_COLUMNS[level]]: null })
+      .where(eq(schema.projects.id, access.projectId))
+
+    return getAccess(res, access)
+  } catch (error) {
+    console.error('Error disabling access token:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to disable access link', 400)
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  switch (req.method) {
+    case 'GET':
+      return getAccess(res, access)
+    case 'POST':
+      return resetToken(req, res, access)
+    case 'DELETE':
+      return disableToken(req, res, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+  // Anyone with access can see the links they could share anyway; changing them is for admins
+  requiredLevel: (req) => (req.method === 'GET' ? 'read' : 'admin'),
+})
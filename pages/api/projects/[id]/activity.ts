@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { isActivityEntityType } from '../../../../utils/activity'
+import { ProjectAccess, projectIdFromRoute, withProjectAccess } from '../../../../utils/withProjectAccess'
+import { and, desc, eq, sql } from 'drizzle-orm'
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+function asPageNumber(value: unknown, field: string, fallback: number, min: number, max: number): number {
+  if (value === undefined) return fallback
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new Error(`${field} must be a whole number from ${min} to ${max}`)
+  }
+  return number
+}
+
+// Newest entries first, optionally only those of one member, entity type or entity
+async function getActivity(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    const { memberId, entityType, entityId } = req.query
+
+    if (entityType !== undefined && !isActivityEntityType(entityType)) {
+      return sendError(res, 'Invalid entity type', 400)
+    }
+
+    const limit = asPageNumber(req.query.limit, 'Limit', DEFAULT_PAGE_SIZE, 1, MAX_PAGE_SIZE)
+    const offset = asPageNumber(req.query.offset, 'Offset', 0, 0, Number.MAX_SAFE_INTEGER)
+
+    const conditions = [eq(schema.activityLog.projectId, access.projectId)]
+    if (typeof memberId === 'string') conditions.push(eq(schema.activityLog.actorMemberId, memberId))
+    if (entityType) conditions.push(eq(schema.activityLog.entityType, entityType))
+    if (typeof entityId === 'string') conditions.push(eq(schema.activityLog.entityId, entityId))
+
+    // One more than a page tells whether there is another one; rowid orders entries of the same second
+    const entries = await db
+      .select({
+        id: schema.activityLog.id,
+        actorMemberId: schema.activityLog.actorMemberId,
+        entityType: schema.activityLog.entityType,
+        entityId: schema.activityLog.entityId,
+        action: schema.activityLog.action,
+        before: schema.activityLog.before,
+        after: schema.activityLog.after,
+        createdAt: schema.activityLog.createdAt,
+      })
+      .from(schema.activityLog)
+      .where(and(...conditions))
+      .orderBy(desc(schema.activityLog.createdAt), desc(sql`rowid`))
+      .limit(limit + 1)
+      .offset(offset)
+
+    return sendSuccess(res, { entries: entries.slice(0, limit), hasMore: entries.length > limit })
+  } catch (error) {
+    console.error('Error fetching activity:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to fetch activity', 400)
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  switch (req.method) {
+    case 'GET':
+      return getActivity(req, res, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
@@ -0,0 +1,115 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../utils/withProjectAccess'
+import { asDebtSimplificationMode } from '../../../../utils/apiValidation'
+import { BalanceExpense, DebtSimplificationMode, summarizeBalances } from '../../../../utils/balances'
+import { fromMinorUnits } from '../../../../utils/currency'
+import { and, eq, inArray, isNull } from 'drizzle-orm'
+
+// Get member balances and the suggested transfers to settle up
+async function getBalances(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+  try {
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const members = await db.select().from(schema.members).where(eq(schema.members.projectId, projectId))
+
+    const expenses = await db
+      .select({ id: schema.expenses.id })
+      .from(schema.expenses)
+      .where(and(eq(schema.expenses.projectId, projectId), isNull(schema.expenses.deletedAt)))
+
+    const expenseIds = expenses.map((expense) => expense.id)
+    const allPayments = expenseIds.length
+      ? await db.select().from(schema.payments).where(inArray(schema.payments.expenseId, expenseIds))
+      : []
+    const allSplits = expenseIds.length
+      ? await db.select().from(schema.splits).where(inArray(schema.splits.expenseId, expenseIds))
+      : []
+
+    const settlements = await db
+      .select()
+      .from(schema.settlements)
+      .where(eq(schema.settlements.projectId, projectId))
+
+    // Direct debts are derived per expense, so keep payments and splits grouped
+    const expensesWithDetails = new Map<string, BalanceExpense>(
+      expenseIds.map((expenseId) => [expenseId, { payments: [], splits: [] }])
+    )
+    for (const payment of allPayments) {
+      expensesWithDetails.get(payment.expenseId)?.payments.push({
+        memberId: payment.memberId,
+        amount: payment.amount,
+      })
+    }
+    for (const split of allSplits) {
+      expensesWithDetails.get(split.expenseId)?.splits.push({
+        memberId: split.memberId,
+        owedAmount: split.owedAmount,
+      })
+    }
+
+    // The project's mode can be overridden per request, e.g. ?mode=minimal
+    const mode =
+      req.query.mode !== undefined
+        ? asDebtSimplificationMode(req.query.mode)
+        : (project.debtSimplification as DebtSimplificationMode)
+
+    const { balances, transfers } = summarizeBalances(
+      members,
+      [...expensesWithDetails.values()],
+      settlements,
+      mode
+    )
+
+    const balancesByMember = new Map(balances.map((balance) => [balance.memberId, balance]))
+
+    return sendSuccess(res, {
+      projectId,
+      currency: project.currency,
+      mode,
+      members: members.map((member) => {
+        const balance = balancesByMember.get(member.id)!
+        return {
+          id: member.id,
+          name: member.name,
+          paid: fromMinorUnits(balance.paid, project.currency),
+          owed: fromMinorUnits(balance.owed, project.currency),
+          settledOut: fromMinorUnits(balance.settledOut, project.currency),
+          settledIn: fromMinorUnits(balance.settledIn, project.currency),
+          net: fromMinorUnits(balance.net, project.currency),
+        }
+      }),
+      transfers: transfers.map((transfer) => ({
+        ...transfer,
+        amount: fromMinorUnits(transfer.amount, project.currency),
+      })),
+    })
+  } catch (error) {
+    console.error('Error getting balances:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to get balances', 400)
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid project ID', 400)
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return getBalances(req, res, id)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
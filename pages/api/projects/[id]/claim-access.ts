@@ -0,0 +1,78 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { isPlainObject } from '../../../../utils/apiValidation'
+import { getUnlockRetryDelay, isValidProjectSession, recordFailedUnlock } from '../../../../utils/passphrase'
+import {
+  PASSPHRASE_REQUIRED_ERROR,
+  SESSION_HEADER,
+  getSessionCookieName,
+} from '../../../../utils/projectAccess'
+import { and, eq } from 'drizzle-orm'
+
+// Hand the admin secret of a project created before access control to a device that joined it
+// back then, which knows the project and the member it uses it as but has no share link. Only
+// works until an admin resets the admin link. Wrong member IDs count toward the same lockout as
+// wrong passphrases, so member IDs cannot be guessed.
+async function claimAccess(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { id } = req.query
+    if (!id || typeof id !== 'string') return sendError(res, 'Invalid project ID', 400)
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, id))
+    if (!project) return sendError(res, 'Project not found', 404)
+    if (!project.adminSecretClaimable || !project.adminSecret) {
+      return sendError(res, 'Ask a member of this project for a share link', 403)
+    }
+
+    const clientAddress = req.socket.remoteAddress ?? 'unknown'
+    const retryDelay = getUnlockRetryDelay(project.id, clientAddress)
+    if (retryDelay > 0) {
+      res.setHeader('Retry-After', retryDelay)
+      return sendError(
+        res,
+        `Too many failed attempts. Try again in ${Math.ceil(retryDelay / 60)} minutes.`,
+        429
+      )
+    }
+
+    const memberId = typeof req.body.memberId === 'string' ? req.body.memberId : ''
+    const [member] = memberId
+      ? await db
+          .select({ id: schema.members.id })
+          .from(schema.members)
+          .where(and(eq(schema.members.id, memberId), eq(schema.members.projectId, project.id)))
+      : []
+
+    if (!member) {
+      recordFailedUnlock(project.id, clientAddress)
+      return sendError(res, 'Ask a member of this project for a share link', 403)
+    }
+
+    if (project.passphraseHash) {
+      const header = req.headers[SESSION_HEADER.toLowerCase()]
+      const sessionToken =
+        typeof header === 'string' && header
+          ? header
+          : (req.cookies[getSessionCookieName(project.id)] ?? null)
+      if (!(await isValidProjectSession(project.id, sessionToken))) {
+        return sendError(res, PASSPHRASE_REQUIRED_ERROR, 401)
+      }
+    }
+
+    return sendSuccess(res, { accessToken: project.adminSecret })
+  } catch (error) {
+    console.error('Error claiming project access:', error)
+    return sendError(res, 'Failed to open project')
+  }
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  switch (req.method) {
+    case 'POST':
+      return claimAccess(req, res)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
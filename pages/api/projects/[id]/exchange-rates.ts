@@ -0,0 +1,120 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../utils/withProjectAccess'
+import { generateId } from '../../../../utils/id'
+import {
+  MAX_IMPORT_EXCHANGE_RATES,
+  isPlainObject,
+  parseExchangeRateBody,
+} from '../../../../utils/apiValidation'
+import { and, desc, eq } from 'drizzle-orm'
+
+// List the project's exchange rates, newest first
+async function getExchangeRates(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+  try {
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const exchangeRates = await db
+      .select()
+      .from(schema.exchangeRates)
+      .where(eq(schema.exchangeRates.projectId, projectId))
+      .orderBy(desc(schema.exchangeRates.date))
+
+    return sendSuccess(res, exchangeRates)
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error)
+    return sendError(res, 'Failed to fetch exchange rates')
+  }
+}
+
+// Add a single rate, or import many at once with { rates: [...] }.
+// A rate for the same day and currency pair replaces the existing one.
+async function createExchangeRates(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+  try {
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const isImport = req.body.rates !== undefined
+    if (isImport && !Array.isArray(req.body.rates)) {
+      return sendError(res, 'Exchange rates must be an array', 400)
+    }
+
+    const rawRates: unknown[] = isImport ? (req.body.rates as unknown[]) : [req.body]
+    if (rawRates.length === 0) return sendError(res, 'At least one exchange rate is required', 400)
+    if (rawRates.length > MAX_IMPORT_EXCHANGE_RATES) {
+      return sendError(res, `Import is limited to ${MAX_IMPORT_EXCHANGE_RATES} exchange rates`, 400)
+    }
+
+    const inputs = rawRates.map((rate, index) =>
+      parseExchangeRateBody(rate, isImport ? `Exchange rate ${index + 1}` : 'Exchange rate')
+    )
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const createdIds: string[] = []
+
+    db.transaction((tx) => {
+      for (const input of inputs) {
+        tx.delete(schema.exchangeRates)
+          .where(
+            and(
+              eq(schema.exchangeRates.projectId, projectId),
+              eq(schema.exchangeRates.date, input.date),
+              eq(schema.exchangeRates.fromCurrency, input.fromCurrency),
+              eq(schema.exchangeRates.toCurrency, input.toCurrency)
+            )
+          )
+          .run()
+
+        const exchangeRateId = generateId()
+        tx.insert(schema.exchangeRates)
+          .values({ id: exchangeRateId, projectId, ...input, createdAt: new Date() })
+          .run()
+        createdIds.push(exchangeRateId)
+      }
+    })
+
+    if (isImport) {
+      return sendSuccess(res, { imported: createdIds.length }, 201)
+    }
+
+    const [exchangeRate] = await db
+      .select()
+      .from(schema.exchangeRates)
+      .where(eq(schema.exchangeRates.id, createdIds[0]))
+
+    return sendSuccess(res, exchangeRate, 201)
+  } catch (error) {
+    console.error('Error creating exchange rates:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to create exchange rates', 400)
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid project ID', 400)
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return getExchangeRates(req, res, id)
+    case 'POST':
+      return createExchangeRates(req, res, id)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
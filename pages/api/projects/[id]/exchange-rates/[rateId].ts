@@ -0,0 +1,90 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../../db'
+import { sendSuccess, sendError } from '../../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../../utils/withProjectAccess'
+import { parseExchangeRateBody } from '../../../../../utils/apiValidation'
+import { and, eq } from 'drizzle-orm'
+
+// Update the date, currencies or rate of an exchange rate
+async function updateExchangeRate(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  projectId: string,
+  rateId: string
+) {
+  try {
+    const [existingRate] = await db
+      .select()
+      .from(schema.exchangeRates)
+      .where(and(eq(schema.exchangeRates.id, rateId), eq(schema.exchangeRates.projectId, projectId)))
+
+    if (!existingRate) {
+      return sendError(res, 'Exchange rate not found', 404)
+    }
+
+    const input = parseExchangeRateBody(req.body)
+
+    await db.update(schema.exchangeRates).set(input).where(eq(schema.exchangeRates.id, rateId))
+
+    const [exchangeRate] = await db
+      .select()
+      .from(schema.exchangeRates)
+      .where(eq(schema.exchangeRates.id, rateId))
+
+    return sendSuccess(res, exchangeRate)
+  } catch (error) {
+    console.error('Error updating exchange rate:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to update exchange rate', 400)
+  }
+}
+
+// Delete an exchange rate from the project
+async function deleteExchangeRate(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  projectId: string,
+  rateId: string
+) {
+  try {
+    const [exchangeRate] = await db
+      .select()
+      .from(schema.exchangeRates)
+      .where(and(eq(schema.exchangeRates.id, rateId), eq(schema.exchangeRates.projectId, projectId)))
+
+    if (!exchangeRate) {
+      return sendError(res, 'Exchange rate not found', 404)
+    }
+
+    await db.delete(schema.exchangeRates).where(eq(schema.exchangeRates.id, rateId))
+
+    return sendSuccess(res, { id: rateId })
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error)
+    return sendError(res, 'Failed to delete exchange rate')
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id, rateId } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid project ID', 400)
+  }
+
+  if (!rateId || typeof rateId !== 'string') {
+    return sendError(res, 'Invalid exchange rate ID', 400)
+  }
+
+  switch (req.method) {
+    case 'PUT':
+      return updateExchangeRate(req, res, id, rateId)
+    case 'DELETE':
+      return deleteExchangeRate(req, res, id, rateId)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
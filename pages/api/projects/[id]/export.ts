@@ -1,6 +1,27 @@
+import { promises as fs } from 'fs'
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../../db'
 import { sendSuccess, sendError } from '../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../utils/withProjectAccess'
+import { fromMinorUnits } from '../../../../utils/currency'
+import { fromOptionalMinorUnits } from '../../../../utils/money'
+import { getAttachmentPath, getAttachmentsByExpense } from '../../../../utils/attachmentStorage'
+import { getExpenseItemsByExpense } from '../../../../utils/expenseItems'
+import { ZipEntry, createZipArchive } from '../../../../utils/zip'
+import { toSpliitCsv, toSpliitExport } from '../../../../utils/spliit'
+import { calculateMemberBalances } from '../../../../utils/balances'
+import { CSV_EXPORT_TABLES, CsvExportTable, toCsvExportTables } from '../../../../utils/csvExport'
+import {
+  ExpenseFilters,
+  expenseInvolvesMember,
+  getExpenseFilterCondition,
+  parseExpenseFilters,
+} from '../../../../utils/expenseFilters'
+import {
+  KOSTOS_FORMAT_VERSION,
+  KostosAttachmentExport,
+  KostosExportData,
+} from '../../../../utils/kostosExport'
 import { eq, inArray } from 'drizzle-orm'
 
 // Define interfaces for clarity (optional but good practice)
@@ -38,18 +59,37 @@ interface Split {
   amount: number | null
   shares: number | null
   percent: number | null
+  adjustment: number | null
   owedAmount: number
 }
 
+interface Settlement {
+  id: string
+  projectId: string
+  fromMemberId: string
+  toMemberId: string
+  amount: number
+  date: Date | null
+  notes: string | null
+  createdAt: Date | null
+}
+
 interface Expense {
   id: string
   projectId: string
   description: string
   amount: number
+  originalCurrency: string | null
+  originalAmount: number | null
+  exchangeRate: number | null
   date: Date | null
   splitType: string
   categoryId: string | null
   paymentMethodId: string | null
+  notes: string | null
+  taxAmount: number | null
+  tipAmount: number | null
+  createdAt: Date | null
 }
 
 interface ExpenseWithDetails extends Expense {
@@ -58,38 +98,22 @@ interface ExpenseWithDetails extends Expense {
   category: Category | null // Keep original category object
 }
 
-// Define the structure of the export data
-interface KostosExportData {
-  id: string
-  name: string
-  currency: string
-  participants: Member[]
-  categories: Category[]
-  paymentMethods: PaymentMethod[]
-  expenses: ExpenseExportFormat[]
-}
-
-interface ExpenseExportFormat {
-  id: string // Add expense ID
-  expenseDate: string
-  title: string
-  categoryId: string | null // Export original category ID
-  paymentMethodId: string | null // Export original payment method ID
-  amount: number // Keep amount as number (e.g., 12.34)
-  paidById: string | null // Export original member ID
-  splitType: string // Export original split type
-  paidFor: SplitExportFormat[]
-}
-
-interface SplitExportFormat {
-  memberId: string // Use our member ID directly
-  amount: number | null
-  shares: number | null
-  percent: number | null
-  owedAmount: number // Include owed amount for reference/validation
+// Exports and their files are built in memory, so an archive download does not stream
+export const config = {
+  api: {
+    responseLimit: false,
+  },
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+// GET returns the project as JSON. With ?attachments=1 it returns a ZIP archive holding the same
+// JSON plus every attachment file, referenced from its expense. ?format=spliit and
+// ?format=spliit-csv return the project as Spliit's JSON or CSV export instead.
+//
+// ?format=csv returns a ZIP archive of spreadsheet-friendly CSV tables: expenses.csv with one owed
+// column per member, payments-and-splits.csv with a row per payment and split, and balances.csv.
+// Add &table=<name> to download a single table. The CSV export takes the same filters as the
+// statistics (startDate, endDate, categoryId, paymentMethodId and memberId).
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return sendError(res, 'Method not allowed', 405)
   }
@@ -100,6 +124,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return sendError(res, 'Invalid project ID', 400)
   }
 
+  let filters: ExpenseFilters = {}
+  if (req.query.format === 'csv') {
+    try {
+      filters = parseExpenseFilters(req.query)
+    } catch (error) {
+      return sendError(res, error instanceof Error ? error.message : 'Invalid filters', 400)
+    }
+  }
+
   try {
     // 1. Get project details
     const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, id))
@@ -123,11 +156,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       .from(schema.paymentMethods)
       .where(eq(schema.paymentMethods.projectId, id))
 
-    // 5. Get project expenses
+    // 5. Get project expenses; those in the trash are not part of the export
     const expenses: Expense[] = await db
       .select()
       .from(schema.expenses)
-      .where(eq(schema.expenses.projectId, id))
+      .where(getExpenseFilterCondition(id, filters))
+
+    // 6. Get project settlements
+    const settlements: Settlement[] = await db
+      .select()
+      .from(schema.settlements)
+      .where(eq(schema.settlements.projectId, id))
 
     const expenseIds = expenses.map((expense) => expense.id)
     const allPayments: Payment[] = expenseIds.length
@@ -147,6 +186,107 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       splitsByExpense.set(split.expenseId, [...(splitsByExpense.get(split.expenseId) ?? []), split])
     }
 
+    // Set headers for file download
+    const safeFileName = project.name.replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'kostos'
+
+    if (req.query.format === 'csv') {
+      const { memberId, startDate, endDate } = filters
+      const csvExpenses = expenses
+        .map((expense) => ({
+          ...expense,
+          payments: paymentsByExpense.get(expense.id) ?? [],
+          splits: splitsByExpense.get(expense.id) ?? [],
+        }))
+        .filter((expense) => !memberId || expenseInvolvesMember(expense, memberId))
+
+      // Settlements have no category or payment method, so they only count toward the balances
+      // when neither filter is set; without filters the balances are the project's balances
+      const csvSettlements =
+        filters.categoryId || filters.paymentMethodId
+          ? []
+          : settlements.filter(
+              (settlement) =>
+                (!memberId || settlement.fromMemberId === memberId || settlement.toMemberId === memberId) &&
+                (!startDate || (settlement.date && settlement.date >= startDate)) &&
+                (!endDate || (settlement.date && settlement.date <= endDate))
+            )
+
+      const tables = toCsvExportTables({
+        currency: project.currency,
+        members,
+        categories,
+        paymentMethods,
+        expenses: csvExpenses,
+        balances: calculateMemberBalances(members, csvExpenses, csvSettlements),
+      })
+
+      const { table } = req.query
+      if (table !== undefined) {
+        if (!CSV_EXPORT_TABLES.includes(table as CsvExportTable)) return sendError(res, 'Invalid table', 400)
+        res.setHeader('Content-Disposition', `attachment; filename="${safeFileName}-${table}.csv"`)
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+        return res.status(200).send(tables[table as CsvExportTable])
+      }
+
+      const archive = createZipArchive(
+        CSV_EXPORT_TABLES.map((name) => ({ name: `${name}.csv`, data: Buffer.from(tables[name]) }))
+      )
+      res.setHeader('Content-Disposition', `attachment; filename="${safeFileName}-CsvExport.zip"`)
+      res.setHeader('Content-Type', 'application/zip')
+      return res.status(200).send(archive)
+    }
+
+    if (req.query.format === 'spliit' || req.query.format === 'spliit-csv') {
+      const spliitExport = toSpliitExport({
+        project,
+        members,
+        categories,
+        expenses: expenses.map((expense) => ({
+          ...expense,
+          payments: paymentsByExpense.get(expense.id) ?? [],
+          splits: splitsByExpense.get(expense.id) ?? [],
+        })),
+        settlements,
+      })
+
+      if (req.query.format === 'spliit-csv') {
+        res.setHeader('Content-Disposition', `attachment; filename="${safeFileName}-SpliitExport.csv"`)
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+        return res.status(200).send(toSpliitCsv(spliitExport))
+      }
+
+      res.setHeader('Content-Disposition', `attachment; filename="${safeFileName}-SpliitExport.json"`)
+      res.setHeader('Content-Type', 'application/json')
+      return res.status(200).json(spliitExport)
+    }
+
+    const includeAttachments = req.query.attachments === '1' || req.query.attachments === 'true'
+    const attachmentsByExpense = await getAttachmentsByExpense(includeAttachments ? expenseIds : [])
+    const archiveEntries: ZipEntry[] = []
+    const attachmentExports = new Map<string, KostosAttachmentExport[]>()
+
+    for (const [expenseId, attachments] of attachmentsByExpense) {
+      const exported: KostosAttachmentExport[] = []
+      for (const attachment of attachments) {
+        const data = await fs.readFile(getAttachmentPath(attachment.storedName)).catch(() => null)
+        // Files missing from disk are left out rather than failing the whole export
+        if (!data) continue
+
+        const archivePath = `attachments/${expenseId}/${attachment.id}-${attachment.fileName}`
+        archiveEntries.push({ name: archivePath, data, date: attachment.createdAt ?? undefined })
+        exported.push({
+          id: attachment.id,
+          fileName: attachment.fileName,
+          mimeType: attachment.mimeType,
+          size: attachment.size,
+          path: archivePath,
+        })
+      }
+      attachmentExports.set(expenseId, exported)
+    }
+
+    const itemsByExpense = await getExpenseItemsByExpense(expenseIds)
+
     const expensesWithDetails: ExpenseWithDetails[] = expenses.map((expense) => ({
       ...expense,
       payments: paymentsByExpense.get(expense.id) ?? [],
@@ -154,43 +294,90 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       category: categories.find((cat) => cat.id === expense.categoryId) || null,
     }))
 
+    // Balances at export time let the importer check that nothing was lost on the way
+    const balances = calculateMemberBalances(members, expensesWithDetails, settlements)
+
     // 7. Convert to Kostos Export format
     const kostosExportData: KostosExportData = {
+      formatVersion: KOSTOS_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
       id: project.id,
       name: project.name,
+      description: project.description,
+      emoji: project.emoji,
       currency: project.currency,
+      debtSimplification: project.debtSimplification,
+      trashRetentionDays: project.trashRetentionDays,
+      createdAt: project.createdAt ? project.createdAt.toISOString() : null,
       participants: members, // Use original member structure
       categories: categories, // Add full categories array
       paymentMethods: paymentMethods, // Add full payment methods array
       expenses: expensesWithDetails.map((expense) => {
-        // Get the memberId of the person who paid (assuming single payer for now)
-        const payerId = expense.payments.length > 0 ? expense.payments[0].memberId : null
-
         // Create ISO date string from Date object, fallback to current date if null
         const expenseDate = expense.date ? expense.date.toISOString() : new Date().toISOString()
 
         return {
           id: expense.id, // Include expense ID
           expenseDate,
+          createdAt: expense.createdAt ? expense.createdAt.toISOString() : null,
           title: expense.description,
+          notes: expense.notes,
           categoryId: expense.categoryId, // Use original category ID
           paymentMethodId: expense.paymentMethodId, // Use original payment method ID
-          amount: expense.amount, // Keep original amount
-          paidById: payerId, // Use original member ID
+          amount: fromMinorUnits(expense.amount, project.currency), // Stored in minor units, exported as a decimal amount
+          originalCurrency: expense.originalCurrency,
+          originalAmount: expense.originalCurrency
+            ? fromOptionalMinorUnits(expense.originalAmount, expense.originalCurrency)
+            : null,
+          exchangeRate: expense.exchangeRate,
           splitType: expense.splitType, // Use original split type
+          taxAmount: fromOptionalMinorUnits(expense.taxAmount, project.currency),
+          tipAmount: fromOptionalMinorUnits(expense.tipAmount, project.currency),
+          items: (itemsByExpense.get(expense.id) ?? []).map((item) => ({
+            description: item.description,
+            amount: fromMinorUnits(item.amount, project.currency),
+            memberIds: item.memberIds,
+          })),
+          payments: expense.payments.map((payment) => ({
+            memberId: payment.memberId,
+            amount: fromMinorUnits(payment.amount, project.currency),
+          })),
           paidFor: expense.splits.map((split) => ({
             memberId: split.memberId, // Use original member ID
-            amount: split.amount,
+            amount: fromOptionalMinorUnits(split.amount, project.currency),
             shares: split.shares,
             percent: split.percent,
-            owedAmount: split.owedAmount, // Include owed amount
+            adjustment: fromOptionalMinorUnits(split.adjustment, project.currency),
+            owedAmount: fromMinorUnits(split.owedAmount, project.currency), // Include owed amount
           })),
+          ...(includeAttachments && { attachments: attachmentExports.get(expense.id) ?? [] }),
         }
       }),
+      settlements: settlements.map((settlement) => ({
+        id: settlement.id,
+        date: settlement.date ? settlement.date.toISOString() : new Date().toISOString(),
+        createdAt: settlement.createdAt ? settlement.createdAt.toISOString() : null,
+        fromMemberId: settlement.fromMemberId,
+        toMemberId: settlement.toMemberId,
+        amount: fromMinorUnits(settlement.amount, project.currency),
+        notes: settlement.notes,
+      })),
+      balances: balances.map((balance) => ({
+        memberId: balance.memberId,
+        net: fromMinorUnits(balance.net, project.currency),
+      })),
+    }
+
+    if (includeAttachments) {
+      const archive = createZipArchive([
+        { name: 'kostos-export.json', data: Buffer.from(JSON.stringify(kostosExportData, null, 2)) },
+        ...archiveEntries,
+      ])
+      res.setHeader('Content-Disposition', `attachment; filename="${safeFileName}-KostosExport.zip"`)
+      res.setHeader('Content-Type', 'application/zip')
+      return res.status(200).send(archive)
     }
 
-    // Set headers for file download
-    const safeFileName = project.name.replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'kostos'
     res.setHeader('Content-Disposition', `attachment; filename="${safeFileName}-KostosExport.json"`)
     res.setHeader('Content-Type', 'application/json')
 
@@ -202,3 +389,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return sendError(res, 'Failed to export project')
   }
 }
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
@@ -0,0 +1,274 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { recordActivity } from '../../../../utils/activityLog'
+import { ExpenseInput, isPlainObject, parseExpenseBody } from '../../../../utils/apiValidation'
+import { parseCsv } from '../../../../utils/csv'
+import {
+  CSV_DATE_FORMATS,
+  CSV_IMPORT_FIELDS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvDecimalSeparator,
+  CsvDelimiter,
+  parseCsvAmount,
+  parseCsvDate,
+  splitCsvNames,
+} from '../../../../utils/csvImport'
+import { insertExpense, readExpenseSnapshot } from '../../../../utils/expenses'
+import { generateId } from '../../../../utils/id'
+import { fromMinorUnits } from '../../../../utils/currency'
+import { ProjectAccess, projectIdFromRoute, withProjectAccess } from '../../../../utils/withProjectAccess'
+import { eq } from 'drizzle-orm'
+
+// Color of the categories an import creates, which members can change afterwards
+const IMPORTED_CATEGORY_COLOR = '#808080'
+
+interface CsvImportOptions {
+  csv: string
+  mapping: CsvColumnMapping
+  dateFormat: CsvDateFormat
+  decimalSeparator: CsvDecimalSeparator
+  delimiter: CsvDelimiter
+  hasHeader: boolean
+  skipInvalidRows: boolean
+}
+
+interface CsvImportRow {
+  row: number // Line of the row in the file, counting the header
+  error: string | null
+  input: ExpenseInput | null
+  categoryName: string | null
+}
+
+function parseImportOptions(body: unknown): CsvImportOptions {
+  if (!isPlainObject(body)) throw new Error('Request body must be an object')
+  if (typeof body.csv !== 'string' || !body.csv.trim()) throw new Error('CSV file is empty')
+  if (!isPlainObject(body.mapping)) throw new Error('Column mapping is required')
+
+  const mapping: CsvColumnMapping = {}
+  for (const { field, label, required } of CSV_IMPORT_FIELDS) {
+    const index = body.mapping[field]
+    if (index === undefined || index === null) {
+      if (required) throw new Error(`Choose the column holding the ${label.toLowerCase()}`)
+      continue
+    }
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0) {
+      throw new Error(`Column of the ${label.toLowerCase()} is invalid`)
+    }
+    mapping[field] = index
+  }
+
+  if (!CSV_DATE_FORMATS.includes(body.dateFormat as CsvDateFormat)) throw new Error('Date format is invalid')
+  if (body.decimalSeparator !== '.' && body.decimalSeparator !== ',') {
+    throw new Error('Decimal separator is invalid')
+  }
+  const delimiter = body.delimiter ?? ','
+  if (delimiter !== ',' && delimiter !== ';' && delimiter !== '\t') throw new Error('Delimiter is invalid')
+
+  return {
+    csv: body.csv,
+    mapping,
+    dateFormat: body.dateFormat as CsvDateFormat,
+    decimalSeparator: body.decimalSeparator,
+    delimiter,
+    hasHeader: body.hasHeader !== false,
+    skipInvalidRows: body.skipInvalidRows === true,
+  }
+}
+
+/**
+ * Turn every row into an expense split evenly between its participants, checked by the same rules
+ * as expenses added by hand. Rows that break them keep the error instead.
+ */
+function readImportRows(
+  options: CsvImportOptions,
+  project: { currency: string },
+  members: { id: string; name: string }[],
+  findCategory: (name: string) => string
+): CsvImportRow[] {
+  const rows = parseCsv(options.csv, options.delimiter)
+  const dataRows = options.hasHeader ? rows.slice(1) : rows
+  const memberIds = new Map(members.map((member) => [member.name.trim().toLowerCase(), member.id]))
+
+  const findMember = (name: string) => {
+    const memberId = memberIds.get(name.toLowerCase())
+    if (!memberId) throw new Error(`No member is called ${name}`)
+    return memberId
+  }
+
+  return dataRows.map((cells, index) => {
+    const row = index + (options.hasHeader ? 2 : 1)
+    const cell = (field: keyof CsvColumnMapping) => {
+      const column = options.mapping[field]
+      return column === undefined ? '' : (cells[column] ?? '').trim()
+    }
+
+    try {
+      const amount = parseCsvAmount(cell('amount'), options.decimalSeparator)
+      const payerName = cell('payer')
+      if (!payerName) throw new Error('Paid by is empty')
+
+      // Rows without participants are split between every member
+      const participantNames = splitCsvNames(cell('participants'))
+      const participantIds = participantNames.length
+        ? participantNames.map(findMember)
+        : members.map((member) => member.id)
+
+      const categoryName = cell('category') || null
+
+      const input = parseExpenseBody(
+        {
+          description: cell('description'),
+          amount,
+          date: parseCsvDate(cell('date'), options.dateFormat),
+          categoryId: categoryName ? findCategory(categoryName) : null,
+          splitType: 'even',
+          payments: [{ memberId: findMember(payerName), amount }],
+          splits: [...new Set(participantIds)].map((memberId) => ({ memberId })),
+        },
+        { currency: project.currency }
+      )
+
+      return { row, error: null, input, categoryName }
+    } catch (error) {
+      return {
+        row,
+        error: error instanceof Error ? error.message : 'Row is invalid',
+        input: null,
+        categoryName: null,
+      }
+    }
+  })
+}
+
+// Import expenses from a CSV file whose columns the user mapped. With ?preview=1 the rows are only
+// checked; otherwise they are all added in one transaction, along with any categories they name
+// that the project does not have yet.
+async function importCsv(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    const options = parseImportOptions(req.body)
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, access.projectId))
+    const members = await db
+      .select()
+      .from(schema.members)
+      .where(eq(schema.members.projectId, access.projectId))
+    const categories = await db
+      .select()
+      .from(schema.categories)
+      .where(eq(schema.categories.projectId, access.projectId))
+
+    // Categories are matched by name; unknown names get an ID now and are created on import
+    const categoryIds = new Map(
+      categories.map((category) => [category.name.trim().toLowerCase(), category.id])
+    )
+    const newCategories: { id: string; name: string }[] = []
+    const findCategory = (name: string) => {
+      const existingId = categoryIds.get(name.toLowerCase())
+      if (existingId) return existingId
+      const category = { id: generateId(), name }
+      categoryIds.set(name.toLowerCase(), category.id)
+      newCategories.push(category)
+      return category.id
+    }
+
+    const rows = readImportRows(options, project, members, findCategory)
+    if (rows.length === 0) throw new Error('The CSV file has no rows to import')
+    const validRows = rows.filter((row) => row.input !== null)
+    const invalidRows = rows.filter((row) => row.error !== null)
+
+    // Only categories used by a valid row are created
+    const usedCategories = newCategories.filter((category) =>
+      validRows.some((row) => row.input?.categoryId === category.id)
+    )
+
+    if (req.query.preview === '1') {
+      const memberNames = new Map(members.map((member) => [member.id, member.name]))
+      return sendSuccess(res, {
+        rows: rows.map(({ row, error, input, categoryName }) => ({
+          row,
+          error,
+          expense: input && {
+            description: input.description,
+            amount: fromMinorUnits(input.amount, project.currency),
+            date: input.date.toISOString(),
+            category: categoryName,
+            paidBy: memberNames.get(input.payments[0].memberId) ?? null,
+            splitBetween: input.splits.map((split) => memberNames.get(split.memberId) ?? null),
+          },
+        })),
+        validCount: validRows.length,
+        invalidCount: invalidRows.length,
+        newCategories: usedCategories.map((category) => category.name),
+      })
+    }
+
+    if (invalidRows.length > 0 && !options.skipInvalidRows) {
+      const [first] = invalidRows
+      throw new Error(`Row ${first.row}: ${first.error} (${invalidRows.length} invalid rows in total)`)
+    }
+    if (validRows.length === 0) throw new Error('The CSV file has no valid rows to import')
+
+    db.transaction((tx) => {
+      for (const category of usedCategories) {
+        tx.insert(schema.categories)
+          .values({
+            id: category.id,
+            projectId: access.projectId,
+            name: category.name,
+            color: IMPORTED_CATEGORY_COLOR,
+          })
+          .run()
+        recordActivity(tx, {
+          projectId: access.projectId,
+          actorMemberId: access.memberId,
+          entityType: 'category',
+          entityId: category.id,
+          action: 'create',
+          after: tx.select().from(schema.categories).where(eq(schema.categories.id, category.id)).get(),
+        })
+      }
+
+      for (const { input } of validRows) {
+        if (!input) continue
+        const expenseId = generateId()
+        insertExpense(tx, expenseId, access.projectId, input)
+        recordActivity(tx, {
+          projectId: access.projectId,
+          actorMemberId: access.memberId,
+          entityType: 'expense',
+          entityId: expenseId,
+          action: 'create',
+          after: readExpenseSnapshot(tx, expenseId),
+        })
+      }
+    })
+
+    return sendSuccess(
+      res,
+      {
+        importedCount: validRows.length,
+        skippedCount: invalidRows.length,
+        createdCategories: usedCategories.map((category) => category.name),
+      },
+      201
+    )
+  } catch (error) {
+    console.error('Error importing CSV:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to import CSV', 400)
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  switch (req.method) {
+    case 'POST':
+      return importCsv(req, res, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
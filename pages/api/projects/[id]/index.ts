@@ -1,11 +1,37 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../../db'
 import { sendSuccess, sendError } from '../../../../utils/api'
-import { asCurrency, asEmoji, asOptionalTrimmedString, asTrimmedString, isPlainObject } from '../../../../utils/apiValidation'
-import { eq, inArray, sql } from 'drizzle-orm'
+import {
+  ProjectAccess,
+  projectIdFromRoute,
+  withProjectAccess,
+  withoutAccessSecrets,
+} from '../../../../utils/withProjectAccess'
+import {
+  asCurrency,
+  asDebtSimplificationMode,
+  asEmoji,
+  asOptionalTrimmedString,
+  asTrashRetentionDays,
+  asTrimmedString,
+  isPlainObject,
+} from '../../../../utils/apiValidation'
+import { DebtSimplificationMode } from '../../../../utils/balances'
+import { getCurrencyDecimals } from '../../../../utils/currency'
+import { getAttachmentsByExpense, toApiAttachment } from '../../../../utils/attachmentStorage'
+import { getExpenseItemsByExpense } from '../../../../utils/expenseItems'
+import { toApiExpense, toApiExpenseTemplate, toApiSettlement } from '../../../../utils/money'
+import { generateDueRecurringExpenses, toApiRecurringExpense } from '../../../../utils/recurringExpenses'
+import { purgeExpiredTrash } from '../../../../utils/trash'
+import { and, eq, inArray, isNull, sql } from 'drizzle-orm'
 
 // Get project details
-async function getProject(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+async function getProject(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  projectId: string,
+  access: ProjectAccess
+) {
   try {
     // Get project details
     const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
@@ -14,6 +40,10 @@ async function getProject(req: NextApiRequest, res: NextApiResponse, projectId:
       return sendError(res, 'Project not found', 404)
     }
 
+    // Create any recurring expenses that fell due since the project was last opened
+    await generateDueRecurringExpenses(projectId)
+    await purgeExpiredTrash(projectId)
+
     // Get project members
     const members = await db.select().from(schema.members).where(eq(schema.members.projectId, projectId))
 
@@ -29,8 +59,17 @@ async function getProject(req: NextApiRequest, res: NextApiResponse, projectId:
       .from(schema.paymentMethods)
       .where(eq(schema.paymentMethods.projectId, projectId))
 
-    // Get project expenses with payments and splits
-    const expenses = await db.select().from(schema.expenses).where(eq(schema.expenses.projectId, projectId))
+    // Get project expense templates, used to pre-fill the expense form
+    const expenseTemplates = await db
+      .select()
+      .from(schema.expenseTemplates)
+      .where(eq(schema.expenseTemplates.projectId, projectId))
+
+    // Get project expenses with payments and splits, leaving out those in the trash
+    const expenses = await db
+      .select()
+      .from(schema.expenses)
+      .where(and(eq(schema.expenses.projectId, projectId), isNull(schema.expenses.deletedAt)))
 
     const expenseIds = expenses.map((expense) => expense.id)
     const allPayments = expenseIds.length
@@ -50,18 +89,52 @@ async function getProject(req: NextApiRequest, res: NextApiResponse, projectId:
       splitsByExpense.set(split.expenseId, [...(splitsByExpense.get(split.expenseId) ?? []), split])
     }
 
+    const itemsByExpense = await getExpenseItemsByExpense(
+      expenses.filter((expense) => expense.splitType === 'itemized').map((expense) => expense.id)
+    )
+
+    const attachmentsByExpense = await getAttachmentsByExpense(expenseIds)
+
     const expensesWithDetails = expenses.map((expense) => ({
       ...expense,
       payments: paymentsByExpense.get(expense.id) ?? [],
       splits: splitsByExpense.get(expense.id) ?? [],
+      items: itemsByExpense.get(expense.id) ?? [],
+      attachments: (attachmentsByExpense.get(expense.id) ?? []).map(toApiAttachment),
     }))
 
+    // Get project settlements (reimbursements between members)
+    const settlements = await db
+      .select()
+      .from(schema.settlements)
+      .where(eq(schema.settlements.projectId, projectId))
+
+    // Get project exchange rates, used to pre-fill rates for foreign-currency expenses
+    const exchangeRates = await db
+      .select()
+      .from(schema.exchangeRates)
+      .where(eq(schema.exchangeRates.projectId, projectId))
+
+    // Get project recurring expenses
+    const recurringExpenses = await db
+      .select()
+      .from(schema.recurringExpenses)
+      .where(eq(schema.recurringExpenses.projectId, projectId))
+
     return sendSuccess(res, {
-      ...project,
+      ...withoutAccessSecrets(project),
+      access: access.level,
+      hasPassphrase: access.hasPassphrase,
       members,
       categories,
       paymentMethods,
-      expenses: expensesWithDetails,
+      expenseTemplates: expenseTemplates.map((template) => toApiExpenseTemplate(template, project.currency)),
+      expenses: expensesWithDetails.map((expense) => toApiExpense(expense, project.currency)),
+      settlements: settlements.map((settlement) => toApiSettlement(settlement, project.currency)),
+      exchangeRates,
+      recurringExpenses: recurringExpenses.map((recurring) =>
+        toApiRecurringExpense(recurring, project.currency)
+      ),
     })
   } catch (error) {
     console.error('Error getting project:', error)
@@ -87,13 +160,59 @@ async function updateProject(req: NextApiRequest, res: NextApiResponse, projectI
       description: string | null
       currency: string
       emoji: string
+      debtSimplification: DebtSimplificationMode
+      trashRetentionDays: number
     }> = {}
     if (req.body.name !== undefined) updateData.name = asTrimmedString(req.body.name, 'Project name')
     if (req.body.description !== undefined) {
       updateData.description = asOptionalTrimmedString(req.body.description, 'Description', 1_000)
     }
-    if (req.body.currency !== undefined) updateData.currency = asCurrency(req.body.currency)
+    if (req.body.currency !== undefined) {
+      updateData.currency = asCurrency(req.body.currency)
+
+      // Amounts are stored in minor units, so they would change value under a currency with other decimals
+      if (getCurrencyDecimals(updateData.currency) !== getCurrencyDecimals(project.currency)) {
+        const [expense] = await db
+          .select({ id: schema.expenses.id })
+          .from(schema.expenses)
+          .where(eq(schema.expenses.projectId, projectId))
+          .limit(1)
+        const [settlement] = await db
+          .select({ id: schema.settlements.id })
+          .from(schema.settlements)
+          .where(eq(schema.settlements.projectId, projectId))
+          .limit(1)
+        const [recurringExpense] = await db
+          .select({ id: schema.recurringExpenses.id })
+          .from(schema.recurringExpenses)
+          .where(eq(schema.recurringExpenses.projectId, projectId))
+          .limit(1)
+        const [adjustmentTemplate] = await db
+          .select({ id: schema.expenseTemplates.id })
+          .from(schema.expenseTemplates)
+          .where(
+            and(
+              eq(schema.expenseTemplates.projectId, projectId),
+              eq(schema.expenseTemplates.splitType, 'adjustment')
+            )
+          )
+          .limit(1)
+        if (expense || settlement || recurringExpense || adjustmentTemplate) {
+          return sendError(
+            res,
+            'Currency cannot change to one with different decimal places once amounts are recorded',
+            400
+          )
+        }
+      }
+    }
     if (req.body.emoji !== undefined) updateData.emoji = asEmoji(req.body.emoji)
+    if (req.body.debtSimplification !== undefined) {
+      updateData.debtSimplification = asDebtSimplificationMode(req.body.debtSimplification)
+    }
+    if (req.body.trashRetentionDays !== undefined) {
+      updateData.trashRetentionDays = asTrashRetentionDays(req.body.trashRetentionDays)
+    }
 
     // Only update if there are fields to update
     if (Object.keys(updateData).length > 0) {
@@ -109,14 +228,14 @@ async function updateProject(req: NextApiRequest, res: NextApiResponse, projectI
     // Get updated project details
     const [updatedProject] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
 
-    return sendSuccess(res, updatedProject)
+    return sendSuccess(res, withoutAccessSecrets(updatedProject))
   } catch (error) {
     console.error('Error updating project:', error)
     return sendError(res, error instanceof Error ? error.message : 'Failed to update project', 400)
   }
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   const { id } = req.query
 
   if (!id || typeof id !== 'string') {
@@ -125,10 +244,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   switch (req.method) {
     case 'GET':
-      return getProject(req, res, id)
+      return getProject(req, res, id, access)
     case 'PATCH':
       return updateProject(req, res, id)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
@@ -1,11 +1,18 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../../db'
 import { sendSuccess, sendError } from '../../../../utils/api'
+import { ProjectAccess, withProjectAccess, projectIdFromRoute } from '../../../../utils/withProjectAccess'
+import { recordActivity } from '../../../../utils/activityLog'
 import { generateId } from '../../../../utils/id'
 import { eq } from 'drizzle-orm'
 
 // Add a new member to the project
-async function addMember(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+async function addMember(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  projectId: string,
+  access: ProjectAccess
+) {
   try {
     const { name } = req.body
 
@@ -28,7 +35,17 @@ async function addMember(req: NextApiRequest, res: NextApiResponse, projectId: s
       name: name.trim(),
     }
 
-    await db.insert(schema.members).values(newMember)
+    db.transaction((tx) => {
+      tx.insert(schema.members).values(newMember).run()
+      recordActivity(tx, {
+        projectId,
+        actorMemberId: access.memberId,
+        entityType: 'member',
+        entityId: memberId,
+        action: 'create',
+        after: newMember,
+      })
+    })
 
     return sendSuccess(res, newMember, 201)
   } catch (error) {
@@ -37,7 +54,7 @@ async function addMember(req: NextApiRequest, res: NextApiResponse, projectId: s
   }
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   const { id } = req.query
 
   if (!id || typeof id !== 'string') {
@@ -46,8 +63,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   switch (req.method) {
     case 'POST':
-      return addMember(req, res, id)
+      return addMember(req, res, id, access)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
@@ -1,10 +1,18 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../../../db'
 import { sendSuccess, sendError } from '../../../../../utils/api'
-import { eq, and } from 'drizzle-orm'
+import { ProjectAccess, withProjectAccess, projectIdFromRoute } from '../../../../../utils/withProjectAccess'
+import { recordActivity } from '../../../../../utils/activityLog'
+import { eq, and, or } from 'drizzle-orm'
 
 // Delete a member from the project
-async function deleteMember(req: NextApiRequest, res: NextApiResponse, projectId: string, memberId: string) {
+async function deleteMember(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  projectId: string,
+  memberId: string,
+  access: ProjectAccess
+) {
   try {
     // Check if project exists
     const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
@@ -30,13 +38,15 @@ async function deleteMember(req: NextApiRequest, res: NextApiResponse, projectId
       return sendError(res, 'Cannot remove the last member of a project', 400)
     }
 
-    // Check if member has any payment records
+    // Check if member has any payment records. Expenses in the trash keep theirs so they can be
+    // restored, so those count too until the trash is emptied.
     const memberPayments = await db
-      .select()
+      .select({ deletedAt: schema.expenses.deletedAt })
       .from(schema.payments)
+      .innerJoin(schema.expenses, eq(schema.expenses.id, schema.payments.expenseId))
       .where(eq(schema.payments.memberId, memberId))
 
-    if (memberPayments.length > 0) {
+    if (memberPayments.some((payment) => !payment.deletedAt)) {
       return sendError(
         res,
         'Cannot delete this member because they have paid for expenses. Please update those transactions first.',
@@ -45,9 +55,13 @@ async function deleteMember(req: NextApiRequest, res: NextApiResponse, projectId
     }
 
     // Check if member has any split records
-    const memberSplits = await db.select().from(schema.splits).where(eq(schema.splits.memberId, memberId))
+    const memberSplits = await db
+      .select({ deletedAt: schema.expenses.deletedAt })
+      .from(schema.splits)
+      .innerJoin(schema.expenses, eq(schema.expenses.id, schema.splits.expenseId))
+      .where(eq(schema.splits.memberId, memberId))
 
-    if (memberSplits.length > 0) {
+    if (memberSplits.some((split) => !split.deletedAt)) {
       return sendError(
         res,
         'Cannot delete this member because they are included in expense splits. Please update those transactions first.',
@@ -55,8 +69,41 @@ async function deleteMember(req: NextApiRequest, res: NextApiResponse, projectId
       )
     }
 
+    if (memberPayments.length > 0 || memberSplits.length > 0) {
+      return sendError(
+        res,
+        'Cannot delete this member because they are part of expenses in the trash, which could still be restored. Please delete those expenses from the trash for good first.',
+        400
+      )
+    }
+
+    // Check if member has any settlement records
+    const memberSettlements = await db
+      .select({ id: schema.settlements.id })
+      .from(schema.settlements)
+      .where(or(eq(schema.settlements.fromMemberId, memberId), eq(schema.settlements.toMemberId, memberId)))
+      .limit(1)
+
+    if (memberSettlements.length > 0) {
+      return sendError(
+        res,
+        'Cannot delete this member because they are part of recorded settlements. Please remove those settlements first.',
+        400
+      )
+    }
+
     // Safe to delete - member has no transaction history
-    await db.delete(schema.members).where(eq(schema.members.id, memberId))
+    db.transaction((tx) => {
+      tx.delete(schema.members).where(eq(schema.members.id, memberId)).run()
+      recordActivity(tx, {
+        projectId,
+        actorMemberId: access.memberId,
+        entityType: 'member',
+        entityId: memberId,
+        action: 'delete',
+        before: member,
+      })
+    })
 
     return sendSuccess(res, { message: 'Member removed successfully' })
   } catch (error) {
@@ -65,7 +112,7 @@ async function deleteMember(req: NextApiRequest, res: NextApiResponse, projectId
   }
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
   const { id, memberId } = req.query
 
   if (!id || typeof id !== 'string') {
@@ -78,8 +125,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   switch (req.method) {
     case 'DELETE':
-      return deleteMember(req, res, id, memberId)
+      return deleteMember(req, res, id, memberId, access)
     default:
       return sendError(res, 'Method not allowed', 405)
   }
 }
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
@@ -0,0 +1,57 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { asPassphrase, isPlainObject } from '../../../../utils/apiValidation'
+import { createProjectSession, endProjectSessions, hashPassphrase } from '../../../../utils/passphrase'
+import { ProjectAccess, projectIdFromRoute, withProjectAccess } from '../../../../utils/withProjectAccess'
+import { eq } from 'drizzle-orm'
+
+// Set or change the passphrase. Everyone else has to enter the new one; the caller gets a new
+// session so they stay in.
+async function setPassphrase(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const passphraseHash = await hashPassphrase(asPassphrase(req.body.passphrase))
+
+    await db.update(schema.projects).set({ passphraseHash }).where(eq(schema.projects.id, access.projectId))
+    await endProjectSessions(access.projectId)
+    const sessionToken = await createProjectSession(access.projectId)
+
+    return sendSuccess(res, { sessionToken })
+  } catch (error) {
+    console.error('Error setting project passphrase:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to set passphrase', 400)
+  }
+}
+
+async function removePassphrase(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    await db
+      .update(schema.projects)
+      .set({ passphraseHash: null })
+      .where(eq(schema.projects.id, access.projectId))
+    await endProjectSessions(access.projectId)
+
+    return sendSuccess(res, { id: access.projectId })
+  } catch (error) {
+    console.error('Error removing project passphrase:', error)
+    return sendError(res, 'Failed to remove passphrase')
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  switch (req.method) {
+    case 'PUT':
+      return setPassphrase(req, res, access)
+    case 'DELETE':
+      return removePassphrase(req, res, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+  requiredLevel: () => 'admin',
+})
@@ -0,0 +1,104 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../utils/withProjectAccess'
+import { generateId } from '../../../../utils/id'
+import {
+  isPlainObject,
+  parseExpenseBody,
+  parseRecurrenceBody,
+  validateExpenseReferences,
+} from '../../../../utils/apiValidation'
+import { generateDueRecurringExpenses, toApiRecurringExpense } from '../../../../utils/recurringExpenses'
+import { asc, eq } from 'drizzle-orm'
+
+// List the project's recurring expenses, after generating any occurrences that are due
+async function getRecurringExpenses(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+  try {
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    await generateDueRecurringExpenses(projectId)
+
+    const recurringExpenses = await db
+      .select()
+      .from(schema.recurringExpenses)
+      .where(eq(schema.recurringExpenses.projectId, projectId))
+      .orderBy(asc(schema.recurringExpenses.createdAt))
+
+    return sendSuccess(
+      res,
+      recurringExpenses.map((recurring) => toApiRecurringExpense(recurring, project.currency))
+    )
+  } catch (error) {
+    console.error('Error fetching recurring expenses:', error)
+    return sendError(res, 'Failed to fetch recurring expenses')
+  }
+}
+
+// Create a recurring expense from an expense body with a `recurrence` object. The expense date is
+// the first occurrence, so occurrences up to today are created right away.
+async function createRecurringExpense(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+  try {
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const { date: startDate, ...template } = parseExpenseBody(req.body, { currency: project.currency })
+    const recurrence = parseRecurrenceBody(req.body.recurrence, startDate)
+    await validateExpenseReferences(template, projectId)
+
+    const recurringExpenseId = generateId()
+
+    await db.insert(schema.recurringExpenses).values({
+      id: recurringExpenseId,
+      projectId,
+      template,
+      frequency: recurrence.frequency,
+      startDate,
+      endDate: recurrence.endDate,
+      occurrenceLimit: recurrence.occurrenceLimit,
+      createdAt: new Date(),
+    })
+
+    const generated = await generateDueRecurringExpenses(projectId)
+
+    const [recurringExpense] = await db
+      .select()
+      .from(schema.recurringExpenses)
+      .where(eq(schema.recurringExpenses.id, recurringExpenseId))
+
+    return sendSuccess(res, { ...toApiRecurringExpense(recurringExpense, project.currency), generated }, 201)
+  } catch (error) {
+    console.error('Error creating recurring expense:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to create recurring expense', 400)
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid project ID', 400)
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return getRecurringExpenses(req, res, id)
+    case 'POST':
+      return createRecurringExpense(req, res, id)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
@@ -0,0 +1,147 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../../db'
+import { sendSuccess, sendError } from '../../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../../utils/withProjectAccess'
+import { asOccurrenceLimit, asRecurrenceEndDate, isPlainObject } from '../../../../../utils/apiValidation'
+import { getDueOccurrences } from '../../../../../utils/recurrence'
+import {
+  generateDueRecurringExpenses,
+  getRecurrenceSchedule,
+  toApiRecurringExpense,
+} from '../../../../../utils/recurringExpenses'
+import { and, eq } from 'drizzle-orm'
+
+// Pause or resume a recurring expense, skip its next occurrence, or change when it ends.
+// Resuming after a manual pause skips the occurrences that fell due in the meantime; resuming
+// after an error retries them.
+async function updateRecurringExpense(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  projectId: string,
+  recurringId: string
+) {
+  try {
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const [existing] = await db
+      .select()
+      .from(schema.recurringExpenses)
+      .where(
+        and(eq(schema.recurringExpenses.id, recurringId), eq(schema.recurringExpenses.projectId, projectId))
+      )
+
+    if (!existing) {
+      return sendError(res, 'Recurring expense not found', 404)
+    }
+
+    const updateData: Partial<typeof schema.recurringExpenses.$inferInsert> = {}
+    let nextOccurrence = existing.nextOccurrence
+
+    if (req.body.endDate !== undefined) {
+      updateData.endDate = asRecurrenceEndDate(req.body.endDate, existing.startDate)
+    }
+    if (req.body.occurrenceLimit !== undefined) {
+      updateData.occurrenceLimit = asOccurrenceLimit(req.body.occurrenceLimit)
+    }
+    if (req.body.skipNext !== undefined) {
+      if (req.body.skipNext !== true) return sendError(res, 'Skip next must be true', 400)
+      nextOccurrence++
+    }
+    if (req.body.paused !== undefined) {
+      if (typeof req.body.paused !== 'boolean') return sendError(res, 'Paused must be a boolean', 400)
+      updateData.paused = req.body.paused
+      if (existing.paused && !req.body.paused) {
+        if (!existing.lastError) {
+          const missed = getDueOccurrences(
+            getRecurrenceSchedule(existing),
+            nextOccurrence,
+            new Date(),
+            Infinity
+          )
+          nextOccurrence += missed.length
+        }
+        updateData.lastError = null
+      }
+    }
+
+    if (nextOccurrence !== existing.nextOccurrence) updateData.nextOccurrence = nextOccurrence
+
+    if (Object.keys(updateData).length > 0) {
+      await db
+        .update(schema.recurringExpenses)
+        .set(updateData)
+        .where(eq(schema.recurringExpenses.id, recurringId))
+    }
+
+    await generateDueRecurringExpenses(projectId)
+
+    const [recurringExpense] = await db
+      .select()
+      .from(schema.recurringExpenses)
+      .where(eq(schema.recurringExpenses.id, recurringId))
+
+    return sendSuccess(res, toApiRecurringExpense(recurringExpense, project.currency))
+  } catch (error) {
+    console.error('Error updating recurring expense:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to update recurring expense', 400)
+  }
+}
+
+// Stop a recurring expense. Expenses it already created stay in the project.
+async function deleteRecurringExpense(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  projectId: string,
+  recurringId: string
+) {
+  try {
+    const [recurringExpense] = await db
+      .select()
+      .from(schema.recurringExpenses)
+      .where(
+        and(eq(schema.recurringExpenses.id, recurringId), eq(schema.recurringExpenses.projectId, projectId))
+      )
+
+    if (!recurringExpense) {
+      return sendError(res, 'Recurring expense not found', 404)
+    }
+
+    await db.delete(schema.recurringExpenses).where(eq(schema.recurringExpenses.id, recurringId))
+
+    return sendSuccess(res, { id: recurringId })
+  } catch (error) {
+    console.error('Error deleting recurring expense:', error)
+    return sendError(res, 'Failed to delete recurring expense')
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id, recurringId } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid project ID', 400)
+  }
+
+  if (!recurringId || typeof recurringId !== 'string') {
+    return sendError(res, 'Invalid recurring expense ID', 400)
+  }
+
+  switch (req.method) {
+    case 'PATCH':
+      return updateRecurringExpense(req, res, id, recurringId)
+    case 'DELETE':
+      return deleteRecurringExpense(req, res, id, recurringId)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
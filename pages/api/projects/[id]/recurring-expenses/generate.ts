@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../../db'
+import { sendSuccess, sendError } from '../../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../../utils/withProjectAccess'
+import { generateDueRecurringExpenses } from '../../../../../utils/recurringExpenses'
+import { eq } from 'drizzle-orm'
+
+// Create the expenses of all due occurrences. Opening the project does the same; this endpoint
+// lets a scheduled job keep the project up to date while nobody has it open.
+async function generateRecurringExpenses(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+  try {
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const generated = await generateDueRecurringExpenses(projectId)
+
+    return sendSuccess(res, { generated })
+  } catch (error) {
+    console.error('Error generating recurring expenses:', error)
+    return sendError(res, 'Failed to generate recurring expenses')
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid project ID', 400)
+  }
+
+  switch (req.method) {
+    case 'POST':
+      return generateRecurringExpenses(req, res, id)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
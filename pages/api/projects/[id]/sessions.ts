@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { isPlainObject } from '../../../../utils/apiValidation'
+import {
+  SESSION_LIFETIME_MS,
+  createProjectSession,
+  getUnlockRetryDelay,
+  recordFailedUnlock,
+  verifyPassphrase,
+} from '../../../../utils/passphrase'
+import { ProjectAccess, projectIdFromRoute, withProjectAccess } from '../../../../utils/withProjectAccess'
+import { eq } from 'drizzle-orm'
+
+// Unlock a passphrase-protected project. The session token in the response goes with every
+// further request to the project, next to the access token of the share link, until it expires.
+// Repeated wrong passphrases from the same address lock that address out for a while.
+async function createSession(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  try {
+    if (!isPlainObject(req.body)) return sendError(res, 'Request body must be an object', 400)
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, access.projectId))
+
+    if (!project.passphraseHash) {
+      return sendError(res, 'This project has no passphrase', 400)
+    }
+
+    const clientAddress = req.socket.remoteAddress ?? 'unknown'
+    const retryDelay = getUnlockRetryDelay(access.projectId, clientAddress)
+    if (retryDelay > 0) {
+      res.setHeader('Retry-After', retryDelay)
+      return sendError(
+        res,
+        `Too many wrong passphrases. Try again in ${Math.ceil(retryDelay / 60)} minutes.`,
+        429
+      )
+    }
+
+    const passphrase = typeof req.body.passphrase === 'string' ? req.body.passphrase : ''
+    if (!(await verifyPassphrase(passphrase, project.passphraseHash))) {
+      recordFailedUnlock(access.projectId, clientAddress)
+      return sendError(res, 'Wrong passphrase', 401)
+    }
+
+    const sessionToken = await createProjectSession(access.projectId)
+
+    return sendSuccess(
+      res,
+      { sessionToken, expiresAt: new Date(Date.now() + SESSION_LIFETIME_MS).toISOString() },
+      201
+    )
+  } catch (error) {
+    console.error('Error creating project session:', error)
+    return sendError(res, 'Failed to unlock project')
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  switch (req.method) {
+    case 'POST':
+      return createSession(req, res, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+  // Any share link may unlock the project; the link still decides what its holder can do
+  requiredLevel: () => 'read',
+  allowWithoutSession: true,
+})
@@ -0,0 +1,97 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../utils/withProjectAccess'
+import { generateId } from '../../../../utils/id'
+import { parseSettlementBody } from '../../../../utils/apiValidation'
+import { toApiSettlement } from '../../../../utils/money'
+import { desc, eq } from 'drizzle-orm'
+
+// List the project's settlements, newest first
+async function getSettlements(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+  try {
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const settlements = await db
+      .select()
+      .from(schema.settlements)
+      .where(eq(schema.settlements.projectId, projectId))
+      .orderBy(desc(schema.settlements.date))
+
+    return sendSuccess(
+      res,
+      settlements.map((settlement) => toApiSettlement(settlement, project.currency))
+    )
+  } catch (error) {
+    console.error('Error fetching settlements:', error)
+    return sendError(res, 'Failed to fetch settlements')
+  }
+}
+
+// Record a transfer from one member to another
+async function createSettlement(req: NextApiRequest, res: NextApiResponse, projectId: string) {
+  try {
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+
+    if (!project) {
+      return sendError(res, 'Project not found', 404)
+    }
+
+    const input = parseSettlementBody(req.body, project.currency)
+
+    const members = await db.select().from(schema.members).where(eq(schema.members.projectId, projectId))
+    const memberIds = new Set(members.map((member) => member.id))
+
+    if (!memberIds.has(input.fromMemberId) || !memberIds.has(input.toMemberId)) {
+      return sendError(res, 'Settlement members must belong to this project', 400)
+    }
+
+    const settlementId = generateId()
+
+    await db.insert(schema.settlements).values({
+      id: settlementId,
+      projectId,
+      fromMemberId: input.fromMemberId,
+      toMemberId: input.toMemberId,
+      amount: input.amount,
+      date: input.date,
+      notes: input.notes,
+      createdAt: new Date(),
+    })
+
+    const [settlement] = await db
+      .select()
+      .from(schema.settlements)
+      .where(eq(schema.settlements.id, settlementId))
+
+    return sendSuccess(res, toApiSettlement(settlement, project.currency), 201)
+  } catch (error) {
+    console.error('Error creating settlement:', error)
+    return sendError(res, error instanceof Error ? error.message : 'Failed to create settlement', 400)
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid project ID', 400)
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return getSettlements(req, res, id)
+    case 'POST':
+      return createSettlement(req, res, id)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
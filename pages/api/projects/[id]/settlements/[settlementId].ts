@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../../db'
+import { sendSuccess, sendError } from '../../../../../utils/api'
+import { withProjectAccess, projectIdFromRoute } from '../../../../../utils/withProjectAccess'
+import { and, eq } from 'drizzle-orm'
+
+// Delete a settlement from the project
+async function deleteSettlement(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  projectId: string,
+  settlementId: string
+) {
+  try {
+    const [settlement] = await db
+      .select()
+      .from(schema.settlements)
+      .where(and(eq(schema.settlements.id, settlementId), eq(schema.settlements.projectId, projectId)))
+
+    if (!settlement) {
+      return sendError(res, 'Settlement not found', 404)
+    }
+
+    await db.delete(schema.settlements).where(eq(schema.settlements.id, settlementId))
+
+    return sendSuccess(res, { id: settlementId })
+  } catch (error) {
+    console.error('Error deleting settlement:', error)
+    return sendError(res, 'Failed to delete settlement')
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id, settlementId } = req.query
+
+  if (!id || typeof id !== 'string') {
+    return sendError(res, 'Invalid project ID', 400)
+  }
+
+  if (!settlementId || typeof settlementId !== 'string') {
+    return sendError(res, 'Invalid settlement ID', 400)
+  }
+
+  switch (req.method) {
+    case 'DELETE':
+      return deleteSettlement(req, res, id, settlementId)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
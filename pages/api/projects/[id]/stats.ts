@@ -1,9 +1,19 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../../db'
 import { sendSuccess, sendError } from '../../../../utils/api'
-import { eq, and, gte, lte, desc, inArray } from 'drizzle-orm'
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+import { withProjectAccess, projectIdFromRoute } from '../../../../utils/withProjectAccess'
+import { fromMinorUnits } from '../../../../utils/currency'
+import { toApiExpense } from '../../../../utils/money'
+import { SPLIT_TYPES } from '../../../../utils/splits'
+import {
+  ExpenseFilters,
+  expenseInvolvesMember,
+  getExpenseFilterCondition,
+  parseExpenseFilters,
+} from '../../../../utils/expenseFilters'
+import { eq, desc, inArray } from 'drizzle-orm'
+
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { id: projectId } = req.query
 
   if (!projectId || typeof projectId !== 'string') {
@@ -18,34 +28,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
+
 // Get project statistics
 async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projectId: string) {
   try {
     // Parse query parameters
-    const { startDate, endDate, memberId, categoryId, paymentMethodId } = req.query
-
-    let startTimestamp: Date | undefined
-    let endTimestamp: Date | undefined
-
-    if (startDate && typeof startDate === 'string') {
-      startTimestamp = new Date(startDate)
-      if (isNaN(startTimestamp.getTime())) {
-        return sendError(res, 'Invalid start date format', 400)
-      }
+    let filters: ExpenseFilters
+    try {
+      filters = parseExpenseFilters(req.query)
+    } catch (error) {
+      return sendError(res, error instanceof Error ? error.message : 'Invalid filters', 400)
     }
 
-    if (endDate && typeof endDate === 'string') {
-      endTimestamp = new Date(endDate)
-      if (isNaN(endTimestamp.getTime())) {
-        return sendError(res, 'Invalid end date format', 400)
-      }
-      // Set end date to end of day
-      endTimestamp.setHours(23, 59, 59, 999)
-    }
-
-    const currentMemberId = typeof memberId === 'string' ? memberId : undefined
-    const selectedCategoryId = typeof categoryId === 'string' ? categoryId : undefined
-    const selectedPaymentMethodId = typeof paymentMethodId === 'string' ? paymentMethodId : undefined
+    const { startDate: startTimestamp, endDate: endTimestamp, memberId: currentMemberId } = filters
 
     // Verify project exists
     const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
@@ -74,30 +72,11 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
       .from(schema.paymentMethods)
       .where(eq(schema.paymentMethods.projectId, projectId))
 
-    // Build query conditions for filtering
-    let conditions = [eq(schema.expenses.projectId, projectId)]
-
-    if (startTimestamp) {
-      conditions.push(gte(schema.expenses.date, startTimestamp))
-    }
-
-    if (endTimestamp) {
-      conditions.push(lte(schema.expenses.date, endTimestamp))
-    }
-
-    if (selectedCategoryId) {
-      conditions.push(eq(schema.expenses.categoryId, selectedCategoryId))
-    }
-
-    if (selectedPaymentMethodId) {
-      conditions.push(eq(schema.expenses.paymentMethodId, selectedPaymentMethodId))
-    }
-
     // Get expenses with applied filters
     const expenses = await db
       .select()
       .from(schema.expenses)
-      .where(and(...conditions))
+      .where(getExpenseFilterCondition(projectId, filters))
       .orderBy(desc(schema.expenses.date))
 
     const expenseIds = expenses.map((expense) => expense.id)
@@ -126,13 +105,12 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
 
     // Filter expenses by current member if specified
     const memberExpensesWithDetails = currentMemberId
-      ? expensesWithDetails.filter(
-          (expense) =>
-            expense.payments.some((payment) => payment.memberId === currentMemberId) ||
-            expense.splits.some((split) => split.memberId === currentMemberId)
-        )
+      ? expensesWithDetails.filter((expense) => expenseInvolvesMember(expense, currentMemberId))
       : expensesWithDetails
 
+    // Amounts are aggregated in integer minor units and converted to decimals where they are returned
+    const toAmount = (units: number) => fromMinorUnits(units, project.currency)
+
     // Calculate total expenses
     const totalAmount = expenses.reduce((sum, expense) => sum + expense.amount, 0)
 
@@ -141,7 +119,8 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
       const categoryExpenses = expenses.filter((expense) => expense.categoryId === category.id)
       const categoryTotal = categoryExpenses.reduce((sum, expense) => sum + expense.amount, 0)
       const percentage = totalAmount > 0 ? (categoryTotal / totalAmount) * 100 : 0
-      const averageAmount = categoryExpenses.length > 0 ? categoryTotal / categoryExpenses.length : 0
+      const averageAmount =
+        categoryExpenses.length > 0 ? Math.round(categoryTotal / categoryExpenses.length) : 0
       const largestExpense =
         categoryExpenses.length > 0
           ? categoryExpenses.reduce(
@@ -173,19 +152,19 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
 
         return {
           ...member,
-          paidAmount,
-          owedAmount,
-          balance,
+          paidAmount: toAmount(paidAmount),
+          owedAmount: toAmount(owedAmount),
+          balance: toAmount(balance),
         }
       })
 
       return {
         ...category,
-        totalAmount: categoryTotal,
+        totalAmount: toAmount(categoryTotal),
         percentage,
         expenseCount: categoryExpenses.length,
-        averageAmount,
-        largestExpense,
+        averageAmount: toAmount(averageAmount),
+        largestExpense: largestExpense && toApiExpense(largestExpense, project.currency),
         memberSpending,
       }
     })
@@ -198,7 +177,7 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
       const methodExpenses = expenses.filter((expense) => expense.paymentMethodId === method.id)
       const methodTotal = methodExpenses.reduce((sum, expense) => sum + expense.amount, 0)
       const percentage = totalAmount > 0 ? (methodTotal / totalAmount) * 100 : 0
-      const averageAmount = methodExpenses.length > 0 ? methodTotal / methodExpenses.length : 0
+      const averageAmount = methodExpenses.length > 0 ? Math.round(methodTotal / methodExpenses.length) : 0
       const largestExpense =
         methodExpenses.length > 0
           ? methodExpenses.reduce(
@@ -230,19 +209,19 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
 
         return {
           ...member,
-          paidAmount,
-          owedAmount,
-          balance,
+          paidAmount: toAmount(paidAmount),
+          owedAmount: toAmount(owedAmount),
+          balance: toAmount(balance),
         }
       })
 
       return {
         ...method,
-        totalAmount: methodTotal,
+        totalAmount: toAmount(methodTotal),
         percentage,
         expenseCount: methodExpenses.length,
-        averageAmount,
-        largestExpense,
+        averageAmount: toAmount(averageAmount),
+        largestExpense: largestExpense && toApiExpense(largestExpense, project.currency),
         memberSpending,
       }
     })
@@ -255,7 +234,9 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
     const noPaymentMethodTotal = noPaymentMethodExpenses.reduce((sum, expense) => sum + expense.amount, 0)
     const noPaymentMethodPercentage = totalAmount > 0 ? (noPaymentMethodTotal / totalAmount) * 100 : 0
     const noPaymentMethodAverage =
-      noPaymentMethodExpenses.length > 0 ? noPaymentMethodTotal / noPaymentMethodExpenses.length : 0
+      noPaymentMethodExpenses.length > 0
+        ? Math.round(noPaymentMethodTotal / noPaymentMethodExpenses.length)
+        : 0
     const noPaymentMethodLargestExpense =
       noPaymentMethodExpenses.length > 0
         ? noPaymentMethodExpenses.reduce(
@@ -287,9 +268,9 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
 
       return {
         ...member,
-        paidAmount,
-        owedAmount,
-        balance,
+        paidAmount: toAmount(paidAmount),
+        owedAmount: toAmount(owedAmount),
+        balance: toAmount(balance),
       }
     })
 
@@ -300,11 +281,12 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
         projectId,
         name: 'No Payment Method',
         icon: '❓',
-        totalAmount: noPaymentMethodTotal,
+        totalAmount: toAmount(noPaymentMethodTotal),
         percentage: noPaymentMethodPercentage,
         expenseCount: noPaymentMethodExpenses.length,
-        averageAmount: noPaymentMethodAverage,
-        largestExpense: noPaymentMethodLargestExpense,
+        averageAmount: toAmount(noPaymentMethodAverage),
+        largestExpense:
+          noPaymentMethodLargestExpense && toApiExpense(noPaymentMethodLargestExpense, project.currency),
         memberSpending: noPaymentMethodMemberSpending,
         createdAt: null,
       })
@@ -327,7 +309,7 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
     // Sort months chronologically
     const sortedExpensesByMonth = Object.entries(expensesByMonth)
       .sort(([a], [b]) => a.localeCompare(b))
-      .map(([month, amount]) => ({ month, amount }))
+      .map(([month, amount]) => ({ month, amount: toAmount(amount) }))
 
     // Calculate expenses by day of month (1-31)
     const expensesByDayOfMonth = Array(31).fill(0)
@@ -344,7 +326,7 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
     const dayOfMonthStats = expensesByDayOfMonth.map((count, index) => ({
       day: index + 1,
       count,
-      amount: amountByDayOfMonth[index],
+      amount: toAmount(amountByDayOfMonth[index]),
     }))
 
     // Calculate member spending
@@ -383,9 +365,9 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
 
           return {
             ...category,
-            paidAmount: paidInCategory,
-            owedAmount: owedInCategory,
-            totalAmount: paidInCategory + owedInCategory,
+            paidAmount: toAmount(paidInCategory),
+            owedAmount: toAmount(owedInCategory),
+            totalAmount: toAmount(paidInCategory + owedInCategory),
           }
         })
         .filter((cat) => cat.paidAmount > 0 || cat.owedAmount > 0)
@@ -412,9 +394,9 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
 
           return {
             ...method,
-            paidAmount: paidWithMethod,
-            owedAmount: owedWithMethod,
-            totalAmount: paidWithMethod + owedWithMethod,
+            paidAmount: toAmount(paidWithMethod),
+            owedAmount: toAmount(owedWithMethod),
+            totalAmount: toAmount(paidWithMethod + owedWithMethod),
           }
         })
         .filter((method) => method.paidAmount > 0 || method.owedAmount > 0)
@@ -451,11 +433,11 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
 
       return {
         ...member,
-        paidAmount,
-        owedAmount,
-        balance,
+        paidAmount: toAmount(paidAmount),
+        owedAmount: toAmount(owedAmount),
+        balance: toAmount(balance),
         expenseCount: memberExpenseCount,
-        largestExpense: memberLargestExpense,
+        largestExpense: memberLargestExpense && toApiExpense(memberLargestExpense, project.currency),
         topCategories: memberCategories.slice(0, 5), // Top 5 categories
         topPaymentMethods: memberPaymentMethods.slice(0, 5), // Top 5 payment methods
       }
@@ -480,11 +462,11 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
     const dayOfWeekStats = expensesByDayOfWeek.map((count, index) => ({
       day: dayOfWeekLabels[index],
       count,
-      amount: amountByDayOfWeek[index],
+      amount: toAmount(amountByDayOfWeek[index]),
     }))
 
     // Calculate average expense amount
-    const averageAmount = expenses.length > 0 ? totalAmount / expenses.length : 0
+    const averageAmount = expenses.length > 0 ? Math.round(totalAmount / expenses.length) : 0
 
     // Find largest expense
     const largestExpense =
@@ -510,12 +492,9 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
         : sortedExpensesByMonth.map((month) => ({ ...month, changePercent: 0 }))
 
     // Calculate expense count by split type
-    const expensesBySplitType: Record<string, { count: number; amount: number }> = {
-      even: { count: 0, amount: 0 },
-      amount: { count: 0, amount: 0 },
-      percent: { count: 0, amount: 0 },
-      shares: { count: 0, amount: 0 },
-    }
+    const expensesBySplitType: Record<string, { count: number; amount: number }> = Object.fromEntries(
+      SPLIT_TYPES.map((splitType) => [splitType, { count: 0, amount: 0 }])
+    )
 
     expenses.forEach((expense) => {
       if (expensesBySplitType[expense.splitType]) {
@@ -557,7 +536,11 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
         // Sort months chronologically
         const sortedMemberMonthlySpending = Object.entries(memberMonthlySpending)
           .sort(([a], [b]) => a.localeCompare(b))
-          .map(([month, data]) => ({ month, ...data }))
+          .map(([month, data]) => ({
+            month,
+            paidAmount: toAmount(data.paidAmount),
+            owedAmount: toAmount(data.owedAmount),
+          }))
 
         personalStats = {
           member: currentMember,
@@ -592,10 +575,10 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
         endDate: endTimestamp,
       },
       summary: {
-        totalAmount,
+        totalAmount: toAmount(totalAmount),
         expenseCount: expenses.length,
-        averageAmount,
-        largestExpense,
+        averageAmount: toAmount(averageAmount),
+        largestExpense: largestExpense && toApiExpense(largestExpense, project.currency),
       },
       expensesByCategory,
       expensesByPaymentMethod,
@@ -603,7 +586,12 @@ async function getProjectStats(req: NextApiRequest, res: NextApiResponse, projec
       monthlyTrends: monthlyTrendData,
       expensesByDayOfWeek: dayOfWeekStats,
       expensesByDayOfMonth: dayOfMonthStats,
-      expensesBySplitType,
+      expensesBySplitType: Object.fromEntries(
+        Object.entries(expensesBySplitType).map(([splitType, { count, amount }]) => [
+          splitType,
+          { count, amount: toAmount(amount) },
+        ])
+      ),
       memberSpending,
       personalStats,
     })
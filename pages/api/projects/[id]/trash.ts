@@ -0,0 +1,54 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../../../../db'
+import { sendSuccess, sendError } from '../../../../utils/api'
+import { toApiExpense } from '../../../../utils/money'
+import { getPurgeDate, purgeExpiredTrash } from '../../../../utils/trash'
+import { ProjectAccess, projectIdFromRoute, withProjectAccess } from '../../../../utils/withProjectAccess'
+import { and, desc, eq, inArray, isNotNull } from 'drizzle-orm'
+
+// Expenses in the trash, most recently deleted first, with when each one is removed for good
+async function getTrash(res: NextApiResponse, access: ProjectAccess) {
+  try {
+    await purgeExpiredTrash(access.projectId)
+
+    const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, access.projectId))
+
+    const expenses = await db
+      .select()
+      .from(schema.expenses)
+      .where(and(eq(schema.expenses.projectId, access.projectId), isNotNull(schema.expenses.deletedAt)))
+      .orderBy(desc(schema.expenses.deletedAt))
+
+    const expenseIds = expenses.map((expense) => expense.id)
+    const payments = expenseIds.length
+      ? await db.select().from(schema.payments).where(inArray(schema.payments.expenseId, expenseIds))
+      : []
+
+    return sendSuccess(res, {
+      trashRetentionDays: project.trashRetentionDays,
+      expenses: expenses.map((expense) => ({
+        ...toApiExpense(
+          { ...expense, payments: payments.filter((payment) => payment.expenseId === expense.id) },
+          project.currency
+        ),
+        purgeAt: expense.deletedAt ? getPurgeDate(expense.deletedAt, project.trashRetentionDays) : null,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching trash:', error)
+    return sendError(res, 'Failed to fetch trash')
+  }
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, access: ProjectAccess) {
+  switch (req.method) {
+    case 'GET':
+      return getTrash(res, access)
+    default:
+      return sendError(res, 'Method not allowed', 405)
+  }
+}
+
+export default withProjectAccess(handler, {
+  resolveProjectId: projectIdFromRoute,
+})
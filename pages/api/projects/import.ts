@@ -2,54 +2,115 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../db'
 import { generateId } from '../../../utils/id'
 import { sendSuccess, sendError } from '../../../utils/api'
-import { CURRENCY_OPTIONS } from '../../../utils/currency'
+import { CURRENCY_OPTIONS, fromMinorUnits } from '../../../utils/currency'
+import { SplitType, calculateOwedAmounts } from '../../../utils/splits'
+import { MemberBalance, calculateMemberBalances } from '../../../utils/balances'
+import { migrateKostosExport } from '../../../utils/kostosExport'
+import { generateAccessToken } from '../../../utils/withProjectAccess'
+import { fromSpliitExport, isSpliitExport } from '../../../utils/spliit'
+import { fromSplitwiseCsv } from '../../../utils/splitwise'
 import {
+  MAX_DESCRIPTION_LENGTH,
+  MAX_EXPENSE_ITEMS,
   MAX_IMPORT_EXPENSES,
+  MAX_NOTES_LENGTH,
+  asCurrency,
+  asDebtSimplificationMode,
+  asEmoji,
+  asExchangeRate,
   asFiniteNumber,
+  asOptionalTrimmedString,
+  asRoundedMinorUnits,
+  asTrashRetentionDays,
   asTrimmedString,
   isPlainObject,
-  roundToCent,
 } from '../../../utils/apiValidation'
 
+// An export in the current format version, validated, with money in minor units
 interface KostosImportData {
   id: string
   name: string
+  description: string | null
+  emoji: string
   currency: string
+  debtSimplification: string
+  trashRetentionDays: number
+  createdAt: Date | null
   participants: { id: string; projectId: string; name: string }[]
   categories: { id: string; projectId: string; name: string; color: string | null }[]
   paymentMethods: { id: string; projectId: string; name: string; icon: string | null }[]
   expenses: {
     id: string
     expenseDate: string
+    createdAt: Date | null
     title: string
+    notes: string | null
     categoryId: string | null
     paymentMethodId: string | null
     amount: number
-    paidById: string | null
+    originalCurrency: string | null
+    originalAmount: number | null
+    exchangeRate: number | null
     splitType: string
+    taxAmount: number | null
+    tipAmount: number | null
+    items: { description: string; amount: number; memberIds: string[] }[]
+    payments: { memberId: string; amount: number }[]
     paidFor: {
       memberId: string
       amount: number | null
       shares: number | null
       percent: number | null
+      adjustment: number | null
       owedAmount: number
     }[]
   }[]
+  settlements: {
+    date: string
+    createdAt: Date | null
+    fromMemberId: string
+    toMemberId: string
+    amount: number
+    notes: string | null
+  }[]
+  // Each member's net balance when the project was exported; absent in older exports
+  balances: { memberId: string; net: number }[] | null
 }
 
+// How many expenses a preview lists; the counts cover all of them
+const PREVIEW_EXPENSE_COUNT = 20
+
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return sendError(res, 'Method not allowed', 405)
   }
 
   try {
-    const importData = parseImportData(req.body)
+    const importData = parseImportData(toKostosExport(req.body))
     const currencyCode = normalizeCurrency(importData.currency)
+    const balances = verifyImportedBalances(importData)
+
+    // ?preview=1 shows what the import would create without storing anything
+    if (req.query.preview === '1') {
+      return sendSuccess(res, getImportPreview(importData, balances))
+    }
+
     const projectId = generateId()
+    const adminSecret = generateAccessToken()
 
     db.transaction((tx) => {
       tx.insert(schema.projects)
-        .values({ id: projectId, name: importData.name, currency: currencyCode })
+        .values({
+          id: projectId,
+          name: importData.name,
+          description: importData.description,
+          emoji: importData.emoji,
+          currency: currencyCode,
+          debtSimplification: importData.debtSimplification,
+          trashRetentionDays: importData.trashRetentionDays,
+          adminSecret,
+          ...(importData.createdAt && { createdAt: importData.createdAt }),
+        })
         .run()
 
       const memberIdMapping: Record<string, string> = {}
@@ -91,7 +152,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         const newPaymentMethodId = expense.paymentMethodId
           ? paymentMethodIdMapping[expense.paymentMethodId] || null
           : null
-        const newPayerMemberId = expense.paidById ? memberIdMapping[expense.paidById] || null : null
         const expenseDate = expense.expenseDate ? new Date(expense.expenseDate) : new Date()
 
         tx.insert(schema.expenses)
@@ -100,25 +160,35 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             projectId,
             description: expense.title,
             amount: expense.amount,
+            originalCurrency: expense.originalCurrency,
+            originalAmount: expense.originalAmount,
+            exchangeRate: expense.exchangeRate,
             date: Number.isNaN(expenseDate.getTime()) ? new Date() : expenseDate,
             splitType: expense.splitType,
             categoryId: newCategoryId,
             paymentMethodId: newPaymentMethodId,
+            notes: expense.notes,
+            taxAmount: expense.taxAmount,
+            tipAmount: expense.tipAmount,
+            ...(expense.createdAt && { createdAt: expense.createdAt }),
           })
           .run()
 
-        if (newPayerMemberId) {
+        for (const payment of expense.payments) {
           tx.insert(schema.payments)
             .values({
               id: generateId(),
               expenseId: newExpenseId,
-              memberId: newPayerMemberId,
-              amount: expense.amount,
+              memberId: memberIdMapping[payment.memberId],
+              amount: payment.amount,
             })
             .run()
         }
 
-        for (const split of expense.paidFor) {
+        const owedAmounts = calculateImportedOwedAmounts(expense)
+
+        for (let index = 0; index < expense.paidFor.length; index++) {
+          const split = expense.paidFor[index]
           const newSplitMemberId = memberIdMapping[split.memberId]
           if (!newSplitMemberId) continue
 
@@ -130,26 +200,82 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               amount: split.amount,
               shares: split.shares,
               percent: split.percent,
-              owedAmount: calculateOwedAmount(expense.amount, expense.splitType, split, expense.paidFor),
+              adjustment: split.adjustment,
+              owedAmount: owedAmounts[index],
             })
             .run()
         }
+
+        expense.items.forEach((item, position) => {
+          const itemId = generateId()
+          tx.insert(schema.expenseItems)
+            .values({
+              id: itemId,
+              expenseId: newExpenseId,
+              description: item.description,
+              amount: item.amount,
+              position,
+            })
+            .run()
+
+          for (const memberId of item.memberIds) {
+            tx.insert(schema.expenseItemMembers)
+              .values({ id: generateId(), itemId, memberId: memberIdMapping[memberId] })
+              .run()
+          }
+        })
+      }
+
+      for (const settlement of importData.settlements) {
+        const fromMemberId = memberIdMapping[settlement.fromMemberId]
+        const toMemberId = memberIdMapping[settlement.toMemberId]
+        const settlementDate = settlement.date ? new Date(settlement.date) : new Date()
+
+        tx.insert(schema.settlements)
+          .values({
+            id: generateId(),
+            projectId,
+            fromMemberId,
+            toMemberId,
+            amount: settlement.amount,
+            date: Number.isNaN(settlementDate.getTime()) ? new Date() : settlementDate,
+            notes: settlement.notes,
+            ...(settlement.createdAt && { createdAt: settlement.createdAt }),
+          })
+          .run()
       }
     })
 
-    return sendSuccess(res, { projectId }, 201)
+    return sendSuccess(res, { projectId, adminSecret }, 201)
   } catch (error) {
     console.error('Error importing project:', error)
     return sendError(res, error instanceof Error ? `Import failed: ${error.message}` : 'Failed to import project', 400)
   }
 }
 
+/**
+ * Convert the other supported formats to the Kostos export format, so every import is validated
+ * the same way. Splitwise CSV files are sent as text, with a name for the new project.
+ */
+function toKostosExport(body: unknown): unknown {
+  if (isSpliitExport(body)) return fromSpliitExport(body)
+
+  if (isPlainObject(body) && body.format === 'splitwise') {
+    if (typeof body.csv !== 'string') throw new Error('Splitwise CSV must be a string')
+    const name = asOptionalTrimmedString(body.name, 'Project name') ?? 'Splitwise import'
+    return fromSplitwiseCsv(body.csv, name)
+  }
+
+  return body
+}
+
 function parseImportData(body: unknown): KostosImportData {
   if (!isPlainObject(body)) throw new Error('Import data must be an object')
 
-  const data = body as Partial<KostosImportData>
+  // Older exports are brought up to the current format first
+  const data = migrateKostosExport(body) as Partial<Record<keyof KostosImportData, unknown>>
   const name = asTrimmedString(data.name, 'Project name')
-  const currency = asTrimmedString(data.currency, 'Currency', 8)
+  const currency = normalizeCurrency(asTrimmedString(data.currency, 'Currency', 8))
 
   if (!Array.isArray(data.participants) || data.participants.length === 0) {
     throw new Error('Import must include at least one participant')
@@ -198,7 +324,8 @@ function parseImportData(body: unknown): KostosImportData {
       throw new Error(`Expense ${index + 1} must include paidFor splits`)
     }
 
-    const amount = roundToCent(asFiniteNumber(expense.amount, `Expense ${index + 1} amount`))
+    // Older exports may carry more decimals than the currency has, so amounts are rounded rather than rejected
+    const amount = asRoundedMinorUnits(expense.amount, currency, `Expense ${index + 1} amount`)
     if (amount <= 0) throw new Error(`Expense ${index + 1} amount must be greater than 0`)
 
     const paidFor = expense.paidFor.map((split, splitIndex) => {
@@ -207,29 +334,207 @@ function parseImportData(body: unknown): KostosImportData {
       if (!participantIds.has(memberId)) throw new Error(`Expense ${index + 1} references an unknown member`)
       return {
         memberId,
-        amount: split.amount === null || split.amount === undefined ? null : roundToCent(asFiniteNumber(split.amount, 'Split amount')),
+        amount: split.amount === null || split.amount === undefined ? null : asRoundedMinorUnits(split.amount, currency, 'Split amount'),
         shares: split.shares === null || split.shares === undefined ? null : Math.trunc(asFiniteNumber(split.shares, 'Split shares')),
         percent: split.percent === null || split.percent === undefined ? null : asFiniteNumber(split.percent, 'Split percent'),
-        owedAmount: roundToCent(asFiniteNumber(split.owedAmount ?? 0, 'Split owed amount')),
+        adjustment: split.adjustment === null || split.adjustment === undefined ? null : asRoundedMinorUnits(split.adjustment, currency, 'Split adjustment'),
+        owedAmount: asRoundedMinorUnits(split.owedAmount ?? 0, currency, 'Split owed amount'),
       }
     })
 
+    // The original currency is optional so exports from older versions still import
+    const hasOriginalCurrency =
+      typeof expense.originalCurrency === 'string' && expense.originalCurrency.trim() !== ''
+    const originalCurrency = hasOriginalCurrency ? asCurrency(expense.originalCurrency) : null
+    const originalAmount = originalCurrency
+      ? asRoundedMinorUnits(expense.originalAmount, originalCurrency, `Expense ${index + 1} original amount`)
+      : null
+    if (originalAmount !== null && originalAmount <= 0) {
+      throw new Error(`Expense ${index + 1} original amount must be greater than 0`)
+    }
+    const exchangeRate = hasOriginalCurrency
+      ? asExchangeRate(expense.exchangeRate, `Expense ${index + 1} exchange rate`)
+      : null
+
+    // An expense may have no payer, but when it has payers they paid all of it
+    if (!Array.isArray(expense.payments)) throw new Error(`Expense ${index + 1} payments must be an array`)
+    const payments = expense.payments.map((payment, paymentIndex) => {
+      const label = `Expense ${index + 1} payment ${paymentIndex + 1}`
+      if (!isPlainObject(payment)) throw new Error(`${label} is invalid`)
+      const memberId = asTrimmedString(payment.memberId, `${label} member ID`, 128)
+      if (!participantIds.has(memberId)) throw new Error(`Expense ${index + 1} references an unknown member`)
+      const paymentAmount = asRoundedMinorUnits(payment.amount, currency, `${label} amount`)
+      if (paymentAmount <= 0) throw new Error(`${label} amount must be greater than 0`)
+      return { memberId, amount: paymentAmount }
+    })
+    if (payments.length > 0 && payments.reduce((sum, payment) => sum + payment.amount, 0) !== amount) {
+      throw new Error(`Expense ${index + 1} payments must add up to its amount`)
+    }
+
+    const itemized =
+      expense.splitType === 'itemized'
+        ? parseImportedItems(expense, `Expense ${index + 1}`, amount, currency, participantIds)
+        : null
+
     return {
       id: String(expense.id ?? ''),
       expenseDate: String(expense.expenseDate ?? ''),
+      createdAt: asOptionalDate(expense.createdAt),
       title: asTrimmedString(expense.title, `Expense ${index + 1} title`, 240),
+      notes: asOptionalTrimmedString(expense.notes, `Expense ${index + 1} notes`, MAX_NOTES_LENGTH),
       categoryId: typeof expense.categoryId === 'string' ? expense.categoryId : null,
       paymentMethodId: typeof expense.paymentMethodId === 'string' ? expense.paymentMethodId : null,
       amount,
-      paidById: typeof expense.paidById === 'string' ? expense.paidById : null,
-      splitType: ['even', 'amount', 'shares', 'percent'].includes(String(expense.splitType))
+      originalCurrency,
+      originalAmount,
+      exchangeRate,
+      // Exports made before line items were exported keep their owed amounts as amount splits
+      splitType: ['even', 'amount', 'shares', 'percent', 'adjustment'].includes(String(expense.splitType))
         ? String(expense.splitType)
-        : 'even',
+        : expense.splitType === 'itemized'
+          ? itemized
+            ? 'itemized'
+            : 'amount'
+          : 'even',
+      taxAmount: itemized?.taxAmount ?? null,
+      tipAmount: itemized?.tipAmount ?? null,
+      items: itemized?.items ?? [],
+      payments,
       paidFor,
     }
   })
 
-  return { id: String(data.id ?? ''), name, currency, participants, categories, paymentMethods, expenses }
+  // Settlements are optional so exports from older versions still import
+  if (data.settlements !== undefined && !Array.isArray(data.settlements)) {
+    throw new Error('Import settlements must be an array')
+  }
+
+  const settlements = (data.settlements ?? []).map((settlement, index) => {
+    if (!isPlainObject(settlement)) throw new Error(`Settlement ${index + 1} is invalid`)
+    const fromMemberId = asTrimmedString(
+      settlement.fromMemberId,
+      `Settlement ${index + 1} from member ID`,
+      128
+    )
+    const toMemberId = asTrimmedString(settlement.toMemberId, `Settlement ${index + 1} to member ID`, 128)
+    if (!participantIds.has(fromMemberId) || !participantIds.has(toMemberId)) {
+      throw new Error(`Settlement ${index + 1} references an unknown member`)
+    }
+
+    const amount = asRoundedMinorUnits(settlement.amount, currency, `Settlement ${index + 1} amount`)
+    if (amount <= 0) throw new Error(`Settlement ${index + 1} amount must be greater than 0`)
+
+    return {
+      date: String(settlement.date ?? ''),
+      createdAt: asOptionalDate(settlement.createdAt),
+      fromMemberId,
+      toMemberId,
+      amount,
+      notes: asOptionalTrimmedString(settlement.notes, `Settlement ${index + 1} notes`, MAX_NOTES_LENGTH),
+    }
+  })
+
+  if (data.balances !== undefined && !Array.isArray(data.balances)) {
+    throw new Error('Import balances must be an array')
+  }
+
+  const balances = data.balances
+    ? data.balances.map((balance, index) => {
+        if (!isPlainObject(balance)) throw new Error(`Balance ${index + 1} is invalid`)
+        const memberId = asTrimmedString(balance.memberId, `Balance ${index + 1} member ID`, 128)
+        if (!participantIds.has(memberId)) {
+          throw new Error(`Balance ${index + 1} references an unknown member`)
+        }
+        return { memberId, net: asRoundedMinorUnits(balance.net, currency, `Balance ${index + 1}`) }
+      })
+    : null
+
+  return {
+    id: String(data.id ?? ''),
+    name,
+    // Project settings are optional so exports from older versions still import
+    description: asOptionalTrimmedString(data.description, 'Project description', 1_000),
+    emoji: asEmoji(data.emoji),
+    currency,
+    debtSimplification:
+      data.debtSimplification === undefined ? 'greedy' : asDebtSimplificationMode(data.debtSimplification),
+    trashRetentionDays:
+      data.trashRetentionDays === undefined ? 30 : asTrashRetentionDays(data.trashRetentionDays),
+    createdAt: asOptionalDate(data.createdAt),
+    participants,
+    categories,
+    paymentMethods,
+    expenses,
+    settlements,
+    balances,
+  }
+}
+
+/**
+ * Read the line items, tax and tip of an itemized expense, or null when the export has no items.
+ * The splits are kept as exported rather than derived from the items again: tax and tip cents
+ * left over are handed out by member ID, which the import changes, so recalculating them could
+ * move a cent between members.
+ */
+function parseImportedItems(
+  expense: Record<string, unknown>,
+  label: string,
+  amount: number,
+  currency: string,
+  participantIds: Set<string>
+): Pick<KostosImportData['expenses'][0], 'items' | 'taxAmount' | 'tipAmount'> | null {
+  if (!Array.isArray(expense.items) || expense.items.length === 0) return null
+  if (expense.items.length > MAX_EXPENSE_ITEMS) {
+    throw new Error(`${label} can have at most ${MAX_EXPENSE_ITEMS} items`)
+  }
+
+  const items = expense.items.map((item, itemIndex) => {
+    const itemLabel = `${label} item ${itemIndex + 1}`
+    if (!isPlainObject(item)) throw new Error(`${itemLabel} is invalid`)
+    if (!Array.isArray(item.memberIds) || item.memberIds.length === 0) {
+      throw new Error(`${itemLabel} must be assigned to at least one member`)
+    }
+    const memberIds = item.memberIds.map((memberId) => {
+      const id = asTrimmedString(memberId, `${itemLabel} member ID`, 128)
+      if (!participantIds.has(id)) throw new Error(`${label} references an unknown member`)
+      return id
+    })
+    if (new Set(memberIds).size !== memberIds.length) {
+      throw new Error(`${itemLabel} contains duplicate members`)
+    }
+
+    const itemAmount = asRoundedMinorUnits(item.amount, currency, `${itemLabel} amount`)
+    if (itemAmount <= 0) throw new Error(`${itemLabel} amount must be greater than 0`)
+
+    return {
+      description: asTrimmedString(item.description, `${itemLabel} description`, MAX_DESCRIPTION_LENGTH),
+      amount: itemAmount,
+      memberIds,
+    }
+  })
+
+  const asOptionalExtra = (value: unknown, field: string): number | null => {
+    if (value === undefined || value === null) return null
+    const units = asRoundedMinorUnits(value, currency, `${label} ${field}`)
+    if (units < 0) throw new Error(`${label} ${field} cannot be negative`)
+    return units
+  }
+  const taxAmount = asOptionalExtra(expense.taxAmount, 'tax')
+  const tipAmount = asOptionalExtra(expense.tipAmount, 'tip')
+
+  const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0)
+  if (itemsTotal + (taxAmount ?? 0) + (tipAmount ?? 0) !== amount) {
+    throw new Error(`${label} items, tax and tip must add up to its amount`)
+  }
+
+  return { items, taxAmount, tipAmount }
+}
+
+// Creation dates are kept when they can be read; otherwise the import time is used
+function asOptionalDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
 }
 
 function normalizeCurrency(currency: string): string {
@@ -237,27 +542,72 @@ function normalizeCurrency(currency: string): string {
   return matchingCurrency?.code ?? 'USD'
 }
 
-function calculateOwedAmount(
-  totalAmount: number,
-  splitType: string,
-  currentSplit: KostosImportData['expenses'][0]['paidFor'][0],
-  allSplits: KostosImportData['expenses'][0]['paidFor']
-): number {
-  switch (splitType) {
-    case 'even':
-      return roundToCent(totalAmount / allSplits.length)
-    case 'amount':
-      return roundToCent(currentSplit.amount ?? currentSplit.owedAmount ?? 0)
-    case 'shares': {
-      const totalShares = allSplits.reduce((sum, split) => sum + (split.shares ?? 0), 0)
-      return totalShares > 0 ? roundToCent(totalAmount * ((currentSplit.shares ?? 0) / totalShares)) : 0
-    }
-    case 'percent': {
-      const rawPercent = currentSplit.percent ?? 0
-      const normalizedPercent = rawPercent > 1 ? rawPercent / 100 : rawPercent
-      return roundToCent(totalAmount * normalizedPercent)
+// Owed amounts are recalculated with the shared split engine. Older exports may lack shares or
+// percentages, so those expenses fall back to an even split.
+function calculateImportedOwedAmounts(expense: KostosImportData['expenses'][0]): number[] {
+  const splitType = expense.splitType as SplitType
+  const splits = expense.paidFor.map((split) => ({ ...split, amount: split.amount ?? split.owedAmount }))
+  const hasWeights =
+    (splitType !== 'shares' || splits.some((split) => (split.shares ?? 0) > 0)) &&
+    (splitType !== 'percent' || splits.some((split) => (split.percent ?? 0) > 0))
+
+  return calculateOwedAmounts(expense.amount, hasWeights ? splitType : 'even', splits)
+}
+
+/**
+ * Calculate the balances the import will give every member, and check them against those of the
+ * export, so an import never silently moves money between members
+ */
+function verifyImportedBalances(importData: KostosImportData): MemberBalance[] {
+  const balances = calculateMemberBalances(
+    importData.participants,
+    importData.expenses.map((expense) => {
+      const owedAmounts = calculateImportedOwedAmounts(expense)
+      return {
+        payments: expense.payments,
+        splits: expense.paidFor.map((split, index) => ({
+          memberId: split.memberId,
+          owedAmount: owedAmounts[index],
+        })),
+      }
+    }),
+    importData.settlements
+  )
+
+  for (const exported of importData.balances ?? []) {
+    const imported = balances.find((balance) => balance.memberId === exported.memberId)
+    if (imported?.net !== exported.net) {
+      const name = importData.participants.find((participant) => participant.id === exported.memberId)?.name
+      throw new Error(`The balance of ${name} does not match the exported balance`)
     }
-    default:
-      return 0
+  }
+
+  return balances
+}
+
+function getImportPreview(importData: KostosImportData, balances: MemberBalance[]) {
+  const currency = normalizeCurrency(importData.currency)
+  const getMemberName = (memberId: string) =>
+    importData.participants.find((participant) => participant.id === memberId)?.name ?? ''
+
+  return {
+    name: importData.name,
+    currency,
+    members: balances.map((balance) => ({
+      name: getMemberName(balance.memberId),
+      paid: fromMinorUnits(balance.paid, currency),
+      owed: fromMinorUnits(balance.owed, currency),
+      net: fromMinorUnits(balance.net, currency),
+    })),
+    categories: importData.categories.map((category) => category.name),
+    expenseCount: importData.expenses.length,
+    settlementCount: importData.settlements.length,
+    expenses: importData.expenses.slice(0, PREVIEW_EXPENSE_COUNT).map((expense) => ({
+      date: expense.expenseDate,
+      title: expense.title,
+      amount: fromMinorUnits(expense.amount, currency),
+      category: importData.categories.find((category) => category.id === expense.categoryId)?.name ?? null,
+      paidBy: expense.payments.map((payment) => getMemberName(payment.memberId)),
+    })),
   }
 }
@@ -2,7 +2,16 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { db, schema } from '../../../db'
 import { generateId } from '../../../utils/id'
 import { sendSuccess, sendError } from '../../../utils/api'
-import { asCurrency, asEmoji, asOptionalTrimmedString, asTrimmedString, isPlainObject } from '../../../utils/apiValidation'
+import {
+  asCurrency,
+  asEmoji,
+  asOptionalTrimmedString,
+  asPassphrase,
+  asTrimmedString,
+  isPlainObject,
+} from '../../../utils/apiValidation'
+import { createProjectSession, hashPassphrase } from '../../../utils/passphrase'
+import { generateAccessToken, withoutAccessSecrets } from '../../../utils/withProjectAccess'
 import { eq } from 'drizzle-orm'
 
 const DEFAULT_CATEGORIES = [
@@ -60,14 +69,20 @@ async function createProject(req: NextApiRequest, res: NextApiResponse) {
       return sendError(res, 'Member names must be unique', 400)
     }
 
+    const passphraseHash =
+      req.body.passphrase == null || req.body.passphrase === ''
+        ? null
+        : await hashPassphrase(asPassphrase(req.body.passphrase))
+
     const projectId = generateId()
+    const adminSecret = generateAccessToken()
     let createdMembers: Array<{ id: string; name: string }> = []
     let createdCategories: Array<{ id: string; name: string; color: string }> = []
     let createdPaymentMethods: Array<{ id: string; name: string; icon: string }> = []
 
     db.transaction((tx) => {
       tx.insert(schema.projects)
-        .values({ id: projectId, name, description, emoji, currency })
+        .values({ id: projectId, name, description, emoji, currency, adminSecret, passphraseHash })
         .run()
 
       createdMembers = memberNames.map((memberName) => {
@@ -90,10 +105,19 @@ async function createProject(req: NextApiRequest, res: NextApiResponse) {
     })
 
     const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+    const sessionToken = passphraseHash ? await createProjectSession(projectId) : null
 
+    // The admin secret is only ever returned here, to the creator
     return sendSuccess(
       res,
-      { ...project, members: createdMembers, categories: createdCategories, paymentMethods: createdPaymentMethods },
+      {
+        ...withoutAccessSecrets(project),
+        adminSecret,
+        sessionToken,
+        members: createdMembers,
+        categories: createdCategories,
+        paymentMethods: createdPaymentMethods,
+      },
       201
     )
   } catch (error) {
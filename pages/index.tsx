@@ -2,11 +2,15 @@ import Link from 'next/link'
 import { useRouter } from 'next/router'
 import { useEffect, useRef, useState } from 'react'
 import Layout from '../components/Layout'
+import SplitwiseImport from '../components/SplitwiseImport'
 import { getJoinedProjects, JoinedProject } from '../utils/localStorage'
+import { getShareUrl } from '../utils/projectAccess'
 
 export default function Home() {
   const [joinedProjects, setJoinedProjects] = useState<JoinedProject[]>([])
   const [isImporting, setIsImporting] = useState(false)
+  // A Splitwise CSV export waiting for its preview to be confirmed
+  const [splitwiseFile, setSplitwiseFile] = useState<File | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const router = useRouter()
 
@@ -18,6 +22,13 @@ export default function Home() {
     const file = event.target.files?.[0]
     if (!file) return
 
+    // CSV files are Splitwise exports, which are previewed before anything is imported
+    if (/\.csv$/i.test(file.name)) {
+      setSplitwiseFile(file)
+      event.target.value = ''
+      return
+    }
+
     setIsImporting(true)
 
     try {
@@ -37,7 +48,7 @@ export default function Home() {
       }
 
       alert('Project imported successfully! You will be redirected to the new project.')
-      router.push(`/projects/join?projectId=${result.data.projectId}`)
+      router.push(getShareUrl('', result.data.projectId, result.data.adminSecret))
     } catch (error) {
       console.error('Error importing project:', error)
       alert(error instanceof Error ? error.message : 'Failed to import project')
@@ -170,7 +181,7 @@ export default function Home() {
                   type="file"
                   ref={fileInputRef}
                   className="hidden"
-                  accept=".json"
+                  accept=".json,.csv"
                   onChange={handleFileSelected}
                   disabled={isImporting}
                 />
@@ -376,6 +387,8 @@ export default function Home() {
           </div>
         </div>
       </div>
+
+      {splitwiseFile && <SplitwiseImport file={splitwiseFile} onClose={() => setSplitwiseFile(null)} />}
     </Layout>
   )
 }
@@ -4,9 +4,34 @@ import Layout from '../../components/Layout'
 import AddOrEditExpenseForm from '../../components/AddOrEditExpenseForm'
 import CategoryManager from '../../components/CategoryManager'
 import PaymentMethodManager from '../../components/PaymentMethodManager'
-import { removeJoinedProject, addJoinedProject, getJoinedProjects } from '../../utils/localStorage'
-import { formatCurrency } from '../../utils/currency'
+import ExchangeRateManager from '../../components/ExchangeRateManager'
+import ExpenseTemplateManager from '../../components/ExpenseTemplateManager'
+import RecurringExpenseManager from '../../components/RecurringExpenseManager'
+import SettlementList from '../../components/SettlementList'
+import ShareProjectManager from '../../components/ShareProjectManager'
+import ActivityFeed from '../../components/ActivityFeed'
+import TrashManager from '../../components/TrashManager'
+import ExpenseHistory from '../../components/ExpenseHistory'
+import SplitwiseImport from '../../components/SplitwiseImport'
+import CsvImportWizard from '../../components/CsvImportWizard'
+import {
+  removeJoinedProject,
+  addJoinedProject,
+  getJoinedProjects,
+  setActingMember,
+  setProjectAccessToken,
+} from '../../utils/localStorage'
+import { formatCurrency, fromMinorUnits, roundToCurrency, toMinorUnits } from '../../utils/currency'
+import { DEBT_SIMPLIFICATION_OPTIONS, DebtSimplificationMode, summarizeBalances } from '../../utils/balances'
 import ExpenseItem from '../../components/ui/ExpenseItem'
+import { ACCESS_LINK_REQUIRED_ERROR, PASSPHRASE_REQUIRED_ERROR, getShareUrl } from '../../utils/projectAccess'
+import {
+  ATTACHMENT_ACCEPT,
+  Attachment,
+  formatFileSize,
+  isImageAttachment,
+  uploadAttachment,
+} from '../../utils/attachments'
 
 // Default project emojis for quick selection
 const DEFAULT_EMOJIS = [
@@ -52,6 +77,36 @@ const DEFAULT_EMOJIS = [
   '🗺️',
 ]
 
+// How long the undo toast shows after an expense is deleted, in milliseconds
+const UNDO_TOAST_DURATION = 8000
+
+/**
+ * Fetch the admin secret a project created before share links was given, for a device that joined
+ * it back then, and store it like the token of a share link. Returns whether it worked.
+ */
+async function claimEarlyAccess(projectId: string, memberId: string): Promise<boolean> {
+  const joinedProject = getJoinedProjects().find((p) => p.id === projectId && p.memberId === memberId)
+  if (!joinedProject || joinedProject.accessToken) return false
+
+  try {
+    const response = await fetch(`/api/projects/${projectId}/claim-access`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ memberId }),
+    })
+    const result = await response.json()
+    if (!result.success) return false
+
+    setProjectAccessToken(projectId, result.data.accessToken)
+    return true
+  } catch (error) {
+    console.error('Error claiming project access:', error)
+    return false
+  }
+}
+
 export default function ProjectDetail() {
   const router = useRouter()
   const { id: projectId, memberId } = router.query
@@ -70,9 +125,24 @@ export default function ProjectDetail() {
   const [selectedExpense, setSelectedExpense] = useState<any>(null)
   const [activeTab, setActiveTab] = useState<'all' | 'byCategory'>('all')
   const [showPaymentMethodManager, setShowPaymentMethodManager] = useState(false)
+  const [showExpenseTemplateManager, setShowExpenseTemplateManager] = useState(false)
+  const [showExchangeRateManager, setShowExchangeRateManager] = useState(false)
+  const [showRecurringExpenseManager, setShowRecurringExpenseManager] = useState(false)
+  const [showShareManager, setShowShareManager] = useState(false)
+  const [showActivityFeed, setShowActivityFeed] = useState(false)
+  const [showTrashManager, setShowTrashManager] = useState(false)
+  const [showExportOptions, setShowExportOptions] = useState(false)
+  // The expense just moved to the trash, offered for undo for a few seconds
+  const [deletedExpense, setDeletedExpense] = useState<{ id: string; description: string } | null>(null)
+  const [isUploadingAttachment, setIsUploadingAttachment] = useState(false)
   const [isImporting, setIsImporting] = useState(false)
+  // A Splitwise CSV export waiting for its preview to be confirmed
+  const [splitwiseFile, setSplitwiseFile] = useState<File | null>(null)
+  const [showCsvImport, setShowCsvImport] = useState(false)
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
   const [isUpdatingEmoji, setIsUpdatingEmoji] = useState(false)
+  const [isUpdatingDebtSimplification, setIsUpdatingDebtSimplification] = useState(false)
+  const [isRecordingSettlement, setIsRecordingSettlement] = useState(false)
 
   // Pagination states
   const [currentPage, setCurrentPage] = useState(1)
@@ -100,11 +170,12 @@ export default function ProjectDetail() {
   useEffect(() => {
     if (!projectId || !memberId) return
 
+    setActingMember(projectId as string, memberId as string)
     fetchProject()
   }, [projectId, memberId])
 
   // Create a reusable function to fetch project data
-  const fetchProject = async () => {
+  const fetchProject = async (canClaimAccess = true) => {
     setIsLoading(true)
     setError(null)
 
@@ -112,6 +183,22 @@ export default function ProjectDetail() {
       const response = await fetch(`/api/projects/${projectId}`)
       const result = await response.json()
 
+      // Joined before share links existed: get the admin secret the project was given, then try again
+      if (
+        result.error === ACCESS_LINK_REQUIRED_ERROR &&
+        canClaimAccess &&
+        (await claimEarlyAccess(projectId as string, memberId as string))
+      ) {
+        return fetchProject(false)
+      }
+
+      // The passphrase was set or changed since this device joined: enter it again on the join page
+      if (result.error === PASSPHRASE_REQUIRED_ERROR) {
+        const joinedProject = getJoinedProjects().find((p) => p.id === projectId)
+        router.replace(getShareUrl('', projectId as string, joinedProject?.accessToken))
+        return
+      }
+
       if (!result.success) {
         throw new Error(result.error || 'Failed to fetch project')
       }
@@ -170,6 +257,41 @@ export default function ProjectDetail() {
     }
   }
 
+  // Update how debts are simplified into transfers
+  const updateDebtSimplification = async (debtSimplification: DebtSimplificationMode) => {
+    if (!projectId || !project) return
+
+    setIsUpdatingDebtSimplification(true)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          debtSimplification,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update debt simplification')
+      }
+
+      setProject((prevProject: any) => ({
+        ...prevProject,
+        debtSimplification: result.data.debtSimplification,
+      }))
+    } catch (error) {
+      console.error('Error updating debt simplification:', error)
+      alert(error instanceof Error ? error.message : 'Failed to update debt simplification')
+    } finally {
+      setIsUpdatingDebtSimplification(false)
+    }
+  }
+
   // Leave project
   const handleLeaveProject = () => {
     if (!projectId || !memberId) return
@@ -182,12 +304,197 @@ export default function ProjectDetail() {
     }
   }
 
-  // Export project data
-  const handleExportProject = () => {
+  // Record a settlement (reimbursement) between two members
+  const handleRecordSettlement = async (fromMemberId: string, toMemberId: string, amount: number) => {
+    if (!projectId || !project) return
+
+    const fromMember = project.members.find((m: any) => m.id === fromMemberId)
+    const toMember = project.members.find((m: any) => m.id === toMemberId)
+    const settledAmount = roundToCurrency(amount, project.currency)
+
+    if (
+      !confirm(
+        `Record a payment of ${formatAmount(settledAmount)} from ${fromMember?.name || 'Unknown'} to ${
+          toMember?.name || 'Unknown'
+        }?`
+      )
+    ) {
+      return
+    }
+
+    setIsRecordingSettlement(true)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/settlements`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          fromMemberId,
+          toMemberId,
+          amount: settledAmount,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to record settlement')
+      }
+
+      // Fetch updated data instead of refreshing the page
+      fetchProject()
+    } catch (error) {
+      console.error('Error recording settlement:', error)
+      alert(error instanceof Error ? error.message : 'Failed to record settlement')
+    } finally {
+      setIsRecordingSettlement(false)
+    }
+  }
+
+  // Delete a recorded settlement
+  const handleDeleteSettlement = async (settlement: any) => {
+    if (!projectId) return
+
+    if (!confirm('Are you sure you want to delete this settlement?')) return
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/settlements/${settlement.id}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete settlement')
+      }
+
+      fetchProject()
+    } catch (error) {
+      console.error('Error deleting settlement:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete settlement')
+    }
+  }
+
+  // Move an expense to the trash; it can be restored from the undo toast or the trash
+  const handleDeleteExpense = async (expense: any) => {
+    try {
+      const response = await fetch(`/api/expenses/${expense.id}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete expense')
+      }
+
+      setShowExpenseDetail(false)
+      setSelectedExpense(null)
+      setDeletedExpense({ id: expense.id, description: expense.description })
+
+      // Fetch updated data instead of refreshing the page
+      fetchProject()
+    } catch (error) {
+      console.error('Error deleting expense:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete expense')
+    }
+  }
+
+  const handleUndoDeleteExpense = async () => {
+    if (!deletedExpense) return
+
+    const expenseId = deletedExpense.id
+    setDeletedExpense(null)
+
+    try {
+      const response = await fetch(`/api/expenses/${expenseId}/restore`, { method: 'POST' })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore expense')
+      }
+
+      fetchProject()
+    } catch (error) {
+      console.error('Error restoring expense:', error)
+      alert(error instanceof Error ? error.message : 'Failed to restore expense')
+    }
+  }
+
+  // Hide the undo toast after a while; the expense stays restorable from the trash
+  useEffect(() => {
+    if (!deletedExpense) return
+
+    const timeout = setTimeout(() => setDeletedExpense(null), UNDO_TOAST_DURATION)
+    return () => clearTimeout(timeout)
+  }, [deletedExpense])
+
+  // Export project data in one of the formats offered by the export endpoint
+  const handleExportProject = (query: string) => {
     if (!projectId) return
 
+    setShowExportOptions(false)
     // Redirect to export endpoint which will trigger a file download
-    window.location.href = `/api/projects/${projectId}/export`
+    window.location.href = `/api/projects/${projectId}/export${query}`
+  }
+
+  // Replace the attachments of an expense without reloading the whole project
+  const updateExpenseAttachments = (expenseId: string, attachments: Attachment[]) => {
+    setProject((current: any) => ({
+      ...current,
+      expenses: current.expenses.map((expense: any) =>
+        expense.id === expenseId ? { ...expense, attachments } : expense
+      ),
+    }))
+    setSelectedExpense((current: any) => (current?.id === expenseId ? { ...current, attachments } : current))
+  }
+
+  const handleAttachmentSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    if (!selectedExpense || files.length === 0) return
+
+    setIsUploadingAttachment(true)
+    const attachments: Attachment[] = [...(selectedExpense.attachments ?? [])]
+
+    try {
+      for (const file of files) {
+        attachments.push(await uploadAttachment(selectedExpense.id, file))
+      }
+    } catch (error) {
+      console.error('Error uploading attachment:', error)
+      alert(error instanceof Error ? error.message : 'Failed to upload attachment')
+    } finally {
+      updateExpenseAttachments(selectedExpense.id, attachments)
+      setIsUploadingAttachment(false)
+      event.target.value = ''
+    }
+  }
+
+  const handleDeleteAttachment = async (attachment: Attachment) => {
+    if (!selectedExpense || !confirm(`Remove ${attachment.fileName} from this expense?`)) return
+
+    try {
+      const response = await fetch(`/api/attachments/${attachment.id}`, {
+        method: 'DELETE',
+      })
+
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete attachment')
+      }
+
+      updateExpenseAttachments(
+        selectedExpense.id,
+        (selectedExpense.attachments ?? []).filter((a: Attachment) => a.id !== attachment.id)
+      )
+    } catch (error) {
+      console.error('Error deleting attachment:', error)
+      alert(error instanceof Error ? error.message : 'Failed to delete attachment')
+    }
   }
 
   // Handle file selection for import
@@ -195,6 +502,13 @@ export default function ProjectDetail() {
     const file = event.target.files?.[0]
     if (!file) return
 
+    // CSV files are Splitwise exports, which are previewed before anything is imported
+    if (/\.csv$/i.test(file.name)) {
+      setSplitwiseFile(file)
+      event.target.value = ''
+      return
+    }
+
     setIsImporting(true)
 
     try {
@@ -218,7 +532,7 @@ export default function ProjectDetail() {
 
       // Redirect to the newly created project
       alert('Project imported successfully! You will be redirected to the new project.')
-      router.push(`/projects/join?projectId=${result.data.projectId}`)
+      router.push(getShareUrl('', result.data.projectId, result.data.adminSecret))
     } catch (error) {
       console.error('Error importing project:', error)
       alert(error instanceof Error ? error.message : 'Failed to import project')
@@ -253,103 +567,46 @@ export default function ProjectDetail() {
     })
   }
 
-  // Calculate balances
+  // Calculate balances with the shared minor-unit logic so they match the balances API
   const calculateBalances = () => {
     if (!project || !project.expenses) return []
 
-    const balances: Record<string, number> = {}
-
-    // Initialize balances for all members
-    project.members.forEach((member: any) => {
-      balances[member.id] = 0
-    })
-
-    // Calculate balances based on expenses
-    project.expenses.forEach((expense: any) => {
-      // Add amounts for payers
-      expense.payments.forEach((payment: any) => {
-        balances[payment.memberId] += payment.amount
-      })
-
-      // Subtract amounts for splits
-      expense.splits.forEach((split: any) => {
-        balances[split.memberId] -= split.owedAmount
-      })
-    })
-
-    // Simplify debts to minimize transactions
-    const simplifiedDebts = simplifyDebts(balances, project.members)
+    const toUnits = (amount: number) => toMinorUnits(amount, project.currency)
+    const fromUnits = (units: number) => fromMinorUnits(units, project.currency)
+
+    const { balances, transfers } = summarizeBalances(
+      project.members,
+      project.expenses.map((expense: any) => ({
+        payments: expense.payments.map((payment: any) => ({
+          memberId: payment.memberId,
+          amount: toUnits(payment.amount),
+        })),
+        splits: expense.splits.map((split: any) => ({
+          memberId: split.memberId,
+          owedAmount: toUnits(split.owedAmount),
+        })),
+      })),
+      (project.settlements ?? []).map((settlement: any) => ({
+        ...settlement,
+        amount: toUnits(settlement.amount),
+      })),
+      project.debtSimplification
+    )
 
     // Convert to array with member details
     return project.members.map((member: any) => ({
       ...member,
-      balance: balances[member.id],
+      balance: fromUnits(balances.find((balance) => balance.memberId === member.id)?.net ?? 0),
       // Add simplified debt info
-      owes: simplifiedDebts
-        .filter((debt) => debt.from === member.id)
-        .map((debt) => ({ memberId: debt.to, amount: debt.amount })),
-      isOwed: simplifiedDebts
-        .filter((debt) => debt.to === member.id)
-        .map((debt) => ({ memberId: debt.from, amount: debt.amount })),
+      owes: transfers
+        .filter((transfer) => transfer.fromMemberId === member.id)
+        .map((transfer) => ({ memberId: transfer.toMemberId, amount: fromUnits(transfer.amount) })),
+      isOwed: transfers
+        .filter((transfer) => transfer.toMemberId === member.id)
+        .map((transfer) => ({ memberId: transfer.fromMemberId, amount: fromUnits(transfer.amount) })),
     }))
   }
 
-  // Simplify debts to minimize transactions
-  const simplifyDebts = (balances: Record<string, number>, members: any[]) => {
-    // Separate members into debtors (negative balance) and creditors (positive balance)
-    const debtors: { id: string; amount: number }[] = []
-    const creditors: { id: string; amount: number }[] = []
-
-    // Create a copy of balances to work with
-    const workingBalances = { ...balances }
-
-    members.forEach((member) => {
-      const balance = workingBalances[member.id]
-      if (balance < -0.01) {
-        // Debtor (owes money)
-        debtors.push({ id: member.id, amount: -balance })
-      } else if (balance > 0.01) {
-        // Creditor (is owed money)
-        creditors.push({ id: member.id, amount: balance })
-      }
-    })
-
-    // Sort by amount (descending)
-    debtors.sort((a, b) => b.amount - a.amount)
-    creditors.sort((a, b) => b.amount - a.amount)
-
-    // Simplified debt transactions
-    const transactions: { from: string; to: string; amount: number }[] = []
-
-    // Match debtors with creditors until all debts are settled
-    while (debtors.length > 0 && creditors.length > 0) {
-      const debtor = debtors[0]
-      const creditor = creditors[0]
-
-      // Find the amount to transfer (minimum of what is owed and what is due)
-      const amount = Math.min(debtor.amount, creditor.amount)
-
-      if (amount > 0.01) {
-        // Only create transactions for significant amounts
-        transactions.push({
-          from: debtor.id,
-          to: creditor.id,
-          amount,
-        })
-      }
-
-      // Update balances
-      debtor.amount -= amount
-      creditor.amount -= amount
-
-      // Remove settled accounts
-      if (debtor.amount <= 0.01) debtors.shift()
-      if (creditor.amount <= 0.01) creditors.shift()
-    }
-
-    return transactions
-  }
-
   // Format currency based on project's currency
   const formatAmount = (amount: number) => {
     return formatCurrency(amount, project?.currency || 'USD')
@@ -507,7 +764,14 @@ export default function ProjectDetail() {
               </div>
 
               <div>
-                <h1 className="text-2xl font-bold">{project.name}</h1>
+                <h1 className="text-2xl font-bold">
+                  {project.name}
+                  {project.access === 'read' && (
+                    <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 align-middle text-xs font-medium text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                      Read-only
+                    </span>
+                  )}
+                </h1>
                 {project.description && (
                   <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{project.description}</p>
                 )}
@@ -536,26 +800,28 @@ export default function ProjectDetail() {
                 Stats
               </button>
 
-              <button
-                onClick={() => setShowAddExpense(true)}
-                className="btn flex items-center whitespace-nowrap rounded-lg bg-green-600 px-3 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-green-700"
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="mr-1 h-4 w-4"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
+              {project.access !== 'read' && (
+                <button
+                  onClick={() => setShowAddExpense(true)}
+                  className="btn flex items-center whitespace-nowrap rounded-lg bg-green-600 px-3 py-1.5 text-sm font-medium text-white shadow-sm hover:bg-green-700"
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                  />
-                </svg>
-                Add Expense
-              </button>
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="mr-1 h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                    />
+                  </svg>
+                  Add Expense
+                </button>
+              )}
 
               <button
                 onClick={() => setShowMemberManager(true)}
@@ -647,7 +913,7 @@ export default function ProjectDetail() {
                       </div>
                     </div>
 
-                    {memberBalances.balance !== 0 && (
+                    {(memberBalances.owes.length > 0 || memberBalances.isOwed.length > 0) && (
                       <div className="mt-3 border-t border-gray-100 pt-3 text-xs dark:border-gray-700">
                         {/* Show who you owe money to */}
                         {memberBalances.owes && memberBalances.owes.length > 0 && (
@@ -667,8 +933,20 @@ export default function ProjectDetail() {
                                     </span>
                                     <span>{member.name}</span>
                                   </span>
-                                  <span className="text-red-600 dark:text-red-400">
-                                    you owe {formatAmount(debt.amount)}
+                                  <span className="flex items-center gap-2">
+                                    <span className="text-red-600 dark:text-red-400">
+                                      you owe {formatAmount(debt.amount)}
+                                    </span>
+                                    <button
+                                      onClick={() =>
+                                        handleRecordSettlement(currentMember.id, member.id, debt.amount)
+                                      }
+                                      disabled={isRecordingSettlement}
+                                      className="rounded bg-green-50 px-1.5 py-0.5 text-[10px] font-medium text-green-700 hover:bg-green-100 disabled:opacity-50 dark:bg-green-900/30 dark:text-green-300"
+                                      title="Record that you paid this back"
+                                    >
+                                      Settle
+                                    </button>
                                   </span>
                                 </div>
                               )
@@ -694,8 +972,20 @@ export default function ProjectDetail() {
                                     </span>
                                     <span>{member.name}</span>
                                   </span>
-                                  <span className="text-green-600 dark:text-green-400">
-                                    owes you {formatAmount(debt.amount)}
+                                  <span className="flex items-center gap-2">
+                                    <span className="text-green-600 dark:text-green-400">
+                                      owes you {formatAmount(debt.amount)}
+                                    </span>
+                                    <button
+                                      onClick={() =>
+                                        handleRecordSettlement(member.id, currentMember.id, debt.amount)
+                                      }
+                                      disabled={isRecordingSettlement}
+                                      className="rounded bg-green-50 px-1.5 py-0.5 text-[10px] font-medium text-green-700 hover:bg-green-100 disabled:opacity-50 dark:bg-green-900/30 dark:text-green-300"
+                                      title="Record that you received this payment"
+                                    >
+                                      Received
+                                    </button>
                                   </span>
                                 </div>
                               )
@@ -704,6 +994,31 @@ export default function ProjectDetail() {
                         )}
                       </div>
                     )}
+
+                    {/* How debts are turned into transfers */}
+                    <div className="mt-3 flex items-center justify-between border-t border-gray-100 pt-3 text-xs dark:border-gray-700">
+                      <label htmlFor="debtSimplification" className="text-gray-500 dark:text-gray-400">
+                        Settle up
+                      </label>
+                      <select
+                        id="debtSimplification"
+                        value={project.debtSimplification || 'greedy'}
+                        onChange={(e) => updateDebtSimplification(e.target.value as DebtSimplificationMode)}
+                        disabled={isUpdatingDebtSimplification}
+                        title={
+                          DEBT_SIMPLIFICATION_OPTIONS.find(
+                            (option) => option.value === (project.debtSimplification || 'greedy')
+                          )?.description
+                        }
+                        className="rounded border border-gray-200 bg-white px-1.5 py-0.5 text-xs disabled:opacity-50 dark:border-gray-600 dark:bg-gray-800"
+                      >
+                        {DEBT_SIMPLIFICATION_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
                 </>
               )}
@@ -966,27 +1281,29 @@ export default function ProjectDetail() {
                   </svg>
                   <span className="hidden sm:inline">Stats</span>
                 </button>
-                <button
-                  onClick={() => setShowAddExpense(true)}
-                  className="btn flex items-center rounded-lg bg-green-600 px-3 py-1.5 text-sm text-white shadow-sm hover:bg-green-700"
-                >
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    className="mr-1 h-4 w-4"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
+                {project.access !== 'read' && (
+                  <button
+                    onClick={() => setShowAddExpense(true)}
+                    className="btn flex items-center rounded-lg bg-green-600 px-3 py-1.5 text-sm text-white shadow-sm hover:bg-green-700"
                   >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                    />
-                  </svg>
-                  <span className="hidden sm:inline">Add</span>
-                  <span className="sm:hidden">+</span>
-                </button>
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="mr-1 h-4 w-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                      />
+                    </svg>
+                    <span className="hidden sm:inline">Add</span>
+                    <span className="sm:hidden">+</span>
+                  </button>
+                )}
               </div>
             </div>
 
@@ -1379,13 +1696,34 @@ export default function ProjectDetail() {
                 />
               </svg>
               <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">No expenses yet.</p>
-              <button onClick={() => setShowAddExpense(true)} className="btn btn-primary text-sm">
-                Add Your First Expense
-              </button>
+              {project.access !== 'read' && (
+                <button onClick={() => setShowAddExpense(true)} className="btn btn-primary text-sm">
+                  Add Your First Expense
+                </button>
+              )}
             </div>
           )}
         </div>
 
+        {/* Settlements Section */}
+        {project.settlements && project.settlements.length > 0 && (
+          <div className="mb-4 rounded-lg border border-gray-100 bg-white p-4 shadow-sm dark:border-gray-700 dark:bg-gray-800 sm:mb-6 sm:p-6">
+            <div className="mb-3 flex items-center justify-between">
+              <h2 className="text-xl font-semibold">Settlements</h2>
+              <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-500 dark:bg-gray-700 dark:text-gray-400">
+                <span className="font-medium">{project.settlements.length}</span> total
+              </span>
+            </div>
+            <SettlementList
+              settlements={project.settlements}
+              members={project.members}
+              currency={project.currency}
+              currentMemberId={currentMember.id}
+              onDelete={handleDeleteSettlement}
+            />
+          </div>
+        )}
+
         {/* Utilities Section - At the bottom */}
         <div className="mb-6 rounded-lg border border-gray-100 bg-white p-4 shadow-sm dark:border-gray-700 dark:bg-gray-800 sm:p-6">
           <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
@@ -1482,18 +1820,159 @@ export default function ProjectDetail() {
                 )}
               </div>
             </div>
-          </div>
-        </div>
 
-        {/* Modals - unchanged */}
-        {/* Add Expense Modal */}
-        {showAddExpense && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
-            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
-              <div className="p-6">
-                <div className="mb-4 flex items-center justify-between">
-                  <h2 className="text-xl font-semibold">Add Expense</h2>
-                  <button
+            {/* Expense Templates Section */}
+            <div className="rounded-lg border border-gray-100 p-3 dark:border-gray-700">
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="flex items-center text-lg font-semibold">
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="mr-2 h-4 w-4 text-gray-500 dark:text-gray-400"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2"
+                    />
+                  </svg>
+                  Templates
+                </h2>
+                <button
+                  onClick={() => setShowExpenseTemplateManager(true)}
+                  className="btn btn-secondary px-2 py-1 text-xs"
+                >
+                  Manage
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-1.5">
+                {project.expenseTemplates && project.expenseTemplates.length > 0 ? (
+                  project.expenseTemplates.map((template: any) => (
+                    <div
+                      key={template.id}
+                      className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                    >
+                      {template.name}
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-xs italic text-gray-500">
+                    No templates yet. Use "Save as Template" when adding an expense.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Exchange Rates Section */}
+            <div className="rounded-lg border border-gray-100 p-3 dark:border-gray-700">
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="flex items-center text-lg font-semibold">
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="mr-2 h-4 w-4 text-gray-500 dark:text-gray-400"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                    />
+                  </svg>
+                  Exchange Rates
+                </h2>
+                <button
+                  onClick={() => setShowExchangeRateManager(true)}
+                  className="btn btn-secondary px-2 py-1 text-xs"
+                >
+                  Manage
+                </button>
+              </div>
+
+              {project.exchangeRates && project.exchangeRates.length > 0 ? (
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  <span className="font-medium">{project.exchangeRates.length}</span> rates for{' '}
+                  {
+                    new Set(
+                      project.exchangeRates.flatMap((rate: any) => [rate.fromCurrency, rate.toCurrency])
+                    ).size
+                  }{' '}
+                  currencies. Used to pre-fill rates for expenses paid in another currency.
+                </p>
+              ) : (
+                <p className="text-xs italic text-gray-500">
+                  No exchange rates yet. Click "Manage" to add or import some.
+                </p>
+              )}
+            </div>
+
+            {/* Recurring Expenses Section */}
+            <div className="rounded-lg border border-gray-100 p-3 dark:border-gray-700">
+              <div className="mb-3 flex items-center justify-between">
+                <h2 className="flex items-center text-lg font-semibold">
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="mr-2 h-4 w-4 text-gray-500 dark:text-gray-400"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                    />
+                  </svg>
+                  Recurring Expenses
+                </h2>
+                <button
+                  onClick={() => setShowRecurringExpenseManager(true)}
+                  className="btn btn-secondary px-2 py-1 text-xs"
+                >
+                  Manage
+                </button>
+              </div>
+
+              {project.recurringExpenses && project.recurringExpenses.length > 0 ? (
+                <div className="space-y-1">
+                  {project.recurringExpenses.map((recurring: any) => (
+                    <div key={recurring.id} className="flex items-center justify-between text-xs">
+                      <span className="truncate">{recurring.template.description}</span>
+                      <span className="ml-2 shrink-0 text-gray-500">
+                        {recurring.paused
+                          ? 'Paused'
+                          : recurring.nextDate
+                            ? `Next ${new Date(recurring.nextDate).toLocaleDateString()}`
+                            : 'Ended'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs italic text-gray-500">
+                  No recurring expenses yet. Choose "Repeat" when adding an expense.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Modals - unchanged */}
+        {/* Add Expense Modal */}
+        {showAddExpense && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Add Expense</h2>
+                  <button
                     onClick={() => setShowAddExpense(false)}
                     className="text-gray-500 hover:text-gray-700"
                   >
@@ -1506,6 +1985,14 @@ export default function ProjectDetail() {
                   members={project.members}
                   categories={project.categories || []}
                   paymentMethods={project.paymentMethods || []}
+                  exchangeRates={project.exchangeRates || []}
+                  expenseTemplates={project.expenseTemplates || []}
+                  onExpenseTemplateSaved={(template) =>
+                    setProject((currentProject: any) => ({
+                      ...currentProject,
+                      expenseTemplates: [...(currentProject.expenseTemplates || []), template],
+                    }))
+                  }
                   currentMemberId={currentMember.id}
                   currency={project.currency}
                   onClose={() => setShowAddExpense(false)}
@@ -1576,6 +2063,14 @@ export default function ProjectDetail() {
                   members={project.members}
                   categories={project.categories || []}
                   paymentMethods={project.paymentMethods || []}
+                  exchangeRates={project.exchangeRates || []}
+                  expenseTemplates={project.expenseTemplates || []}
+                  onExpenseTemplateSaved={(template) =>
+                    setProject((currentProject: any) => ({
+                      ...currentProject,
+                      expenseTemplates: [...(currentProject.expenseTemplates || []), template],
+                    }))
+                  }
                   currentMemberId={currentMember.id}
                   currency={project.currency}
                   expense={selectedExpense}
@@ -1702,6 +2197,16 @@ export default function ProjectDetail() {
                           <p className="text-3xl font-bold text-gray-900 dark:text-white">
                             {formatAmount(selectedExpense.amount)}
                           </p>
+                          {selectedExpense.originalCurrency && selectedExpense.originalAmount !== null && (
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              {formatCurrency(
+                                selectedExpense.originalAmount,
+                                selectedExpense.originalCurrency
+                              )}{' '}
+                              at {selectedExpense.exchangeRate} {project.currency}/
+                              {selectedExpense.originalCurrency}
+                            </p>
+                          )}
                         </div>
 
                         {netPosition !== 0 && (
@@ -1842,7 +2347,8 @@ export default function ProjectDetail() {
 
                       {/* Additional split details if available */}
                       {(selectedExpense.splitType === 'shares' ||
-                        selectedExpense.splitType === 'percent') && (
+                        selectedExpense.splitType === 'percent' ||
+                        selectedExpense.splitType === 'adjustment') && (
                         <div className="mb-6">
                           <h3 className="mb-3 flex items-center text-sm font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
                             <svg
@@ -1861,7 +2367,9 @@ export default function ProjectDetail() {
                             </svg>
                             {selectedExpense.splitType === 'shares'
                               ? 'Share allocation'
-                              : 'Percentage allocation'}
+                              : selectedExpense.splitType === 'percent'
+                                ? 'Percentage allocation'
+                                : 'Adjustments to the even split'}
                           </h3>
                           <div className="overflow-hidden rounded-lg border border-gray-100 border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800">
                             <div className="divide-y divide-gray-100 dark:divide-gray-700">
@@ -1871,9 +2379,13 @@ export default function ProjectDetail() {
                                 const value =
                                   selectedExpense.splitType === 'shares'
                                     ? split.shares
-                                    : split.percent
-                                      ? `${split.percent}%`
-                                      : 'N/A'
+                                    : selectedExpense.splitType === 'adjustment'
+                                      ? split.adjustment
+                                        ? `${split.adjustment > 0 ? '+' : ''}${formatAmount(split.adjustment)}`
+                                        : '—'
+                                      : split.percent
+                                        ? `${split.percent}%`
+                                        : 'N/A'
 
                                 return (
                                   <div
@@ -1948,34 +2460,137 @@ export default function ProjectDetail() {
                         </div>
                       )}
 
+                      {/* Attachments section */}
+                      <div className="mb-6">
+                        <h3 className="mb-3 flex items-center text-sm font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="mr-1.5 h-4 w-4 text-blue-500"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+                            />
+                          </svg>
+                          Receipts
+                        </h3>
+                        {selectedExpense.attachments?.length > 0 && (
+                          <div className="mb-3 divide-y divide-gray-100 overflow-hidden rounded-lg border border-gray-200 dark:divide-gray-700 dark:border-gray-700">
+                            {selectedExpense.attachments.map((attachment: Attachment) => (
+                              <div key={attachment.id} className="flex items-center gap-3 p-2">
+                                <a
+                                  href={`/api/attachments/${attachment.id}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex min-w-0 flex-1 items-center gap-3"
+                                >
+                                  {isImageAttachment(attachment) ? (
+                                    <img
+                                      src={`/api/attachments/${attachment.id}`}
+                                      alt={attachment.fileName}
+                                      loading="lazy"
+                                      className="h-12 w-12 flex-shrink-0 rounded object-cover"
+                                    />
+                                  ) : (
+                                    <span className="flex h-12 w-12 flex-shrink-0 items-center justify-center rounded bg-gray-100 text-xs font-medium uppercase text-gray-500 dark:bg-gray-700 dark:text-gray-400">
+                                      {attachment.fileName.split('.').pop()?.slice(0, 4) || 'file'}
+                                    </span>
+                                  )}
+                                  <span className="min-w-0">
+                                    <span className="block truncate text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                                      {attachment.fileName}
+                                    </span>
+                                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                                      {formatFileSize(attachment.size)}
+                                    </span>
+                                  </span>
+                                </a>
+                                <a
+                                  href={`/api/attachments/${attachment.id}?download=1`}
+                                  className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300"
+                                >
+                                  Download
+                                </a>
+                                <button
+                                  onClick={() => handleDeleteAttachment(attachment)}
+                                  className="rounded-full p-1 text-red-600 hover:bg-red-50 hover:text-red-800 dark:hover:bg-red-900/20"
+                                  title="Remove attachment"
+                                >
+                                  <svg
+                                    xmlns="http://www.w3.org/2000/svg"
+                                    className="h-4 w-4"
+                                    fill="none"
+                                    viewBox="0 0 24 24"
+                                    stroke="currentColor"
+                                  >
+                                    <path
+                                      strokeLinecap="round"
+                                      strokeLinejoin="round"
+                                      strokeWidth={2}
+                                      d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                                    />
+                                  </svg>
+                                </button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        <label className="inline-flex cursor-pointer items-center text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400">
+                          {isUploadingAttachment ? 'Uploading...' : '+ Add receipt'}
+                          <input
+                            type="file"
+                            className="hidden"
+                            accept={ATTACHMENT_ACCEPT}
+                            multiple
+                            onChange={handleAttachmentSelected}
+                            disabled={isUploadingAttachment}
+                          />
+                        </label>
+                      </div>
+
+                      {/* History section */}
+                      <div className="mb-6">
+                        <h3 className="mb-3 flex items-center text-sm font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="mr-1.5 h-4 w-4 text-blue-500"
+                            fill="none"
+                            viewBox="0 0 24 24"
+                            stroke="currentColor"
+                          >
+                            <path
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              strokeWidth={2}
+                              d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                            />
+                          </svg>
+                          History
+                        </h3>
+                        <ExpenseHistory
+                          projectId={projectId as string}
+                          expenseId={selectedExpense.id}
+                          currency={project.currency}
+                          members={project.members}
+                          categories={project.categories}
+                          paymentMethods={project.paymentMethods}
+                          canEdit={project.access !== 'read'}
+                          onRevert={() => {
+                            setShowExpenseDetail(false)
+                            fetchProject()
+                          }}
+                        />
+                      </div>
+
                       {/* Action buttons */}
                       <div className="mt-8 flex items-center justify-between border-t border-gray-200 pt-4 dark:border-gray-700">
                         <button
-                          onClick={async () => {
-                            if (confirm('Are you sure you want to delete this expense?')) {
-                              try {
-                                const response = await fetch(`/api/expenses/${selectedExpense.id}`, {
-                                  method: 'DELETE',
-                                })
-
-                                const result = await response.json()
-
-                                if (result.success) {
-                                  // Close the modal
-                                  setShowExpenseDetail(false)
-                                  setSelectedExpense(null)
-
-                                  // Fetch updated data instead of refreshing the page
-                                  fetchProject()
-                                } else {
-                                  alert('Failed to delete expense: ' + result.error)
-                                }
-                              } catch (error) {
-                                console.error('Error deleting expense:', error)
-                                alert('Failed to delete expense')
-                              }
-                            }
-                          }}
+                          onClick={() => handleDeleteExpense(selectedExpense)}
                           className="flex items-center rounded-lg bg-red-50 px-3 py-1.5 text-red-600 transition-colors hover:bg-red-100 hover:text-red-800 dark:bg-red-900/20 dark:text-red-500 dark:hover:bg-red-900/30 dark:hover:text-red-400"
                         >
                           <svg
@@ -2289,6 +2904,294 @@ export default function ProjectDetail() {
           </div>
         )}
 
+        {/* Expense Template Manager Modal */}
+        {showExpenseTemplateManager && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Manage Templates</h2>
+                  <button
+                    onClick={() => setShowExpenseTemplateManager(false)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <ExpenseTemplateManager
+                  members={project.members}
+                  categories={project.categories || []}
+                  paymentMethods={project.paymentMethods || []}
+                  initialExpenseTemplates={project.expenseTemplates || []}
+                  onExpenseTemplatesChange={(expenseTemplates) => {
+                    setProject({
+                      ...project,
+                      expenseTemplates,
+                    })
+                  }}
+                />
+
+                <div className="mt-6 flex justify-end">
+                  <button onClick={() => setShowExpenseTemplateManager(false)} className="btn btn-primary">
+                    Done
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Exchange Rate Manager Modal */}
+        {showExchangeRateManager && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Manage Exchange Rates</h2>
+                  <button
+                    onClick={() => setShowExchangeRateManager(false)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <ExchangeRateManager
+                  projectId={projectId as string}
+                  currency={project.currency}
+                  initialExchangeRates={project.exchangeRates || []}
+                  onExchangeRatesChange={(exchangeRates) => {
+                    setProject({
+                      ...project,
+                      exchangeRates,
+                    })
+                  }}
+                />
+
+                <div className="mt-6 flex justify-end">
+                  <button onClick={() => setShowExchangeRateManager(false)} className="btn btn-primary">
+                    Done
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Recurring Expense Manager Modal */}
+        {showRecurringExpenseManager && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Manage Recurring Expenses</h2>
+                  <button
+                    onClick={() => setShowRecurringExpenseManager(false)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <RecurringExpenseManager
+                  projectId={projectId as string}
+                  currency={project.currency}
+                  initialRecurringExpenses={project.recurringExpenses || []}
+                  onRecurringExpensesChange={() => fetchProject()}
+                />
+
+                <div className="mt-6 flex justify-end">
+                  <button onClick={() => setShowRecurringExpenseManager(false)} className="btn btn-primary">
+                    Done
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Share Project Modal */}
+        {showShareManager && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Share Project</h2>
+                  <button
+                    onClick={() => setShowShareManager(false)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <ShareProjectManager projectId={projectId as string} />
+
+                <div className="mt-6 flex justify-end">
+                  <button onClick={() => setShowShareManager(false)} className="btn btn-primary">
+                    Done
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Activity Feed Modal */}
+        {showActivityFeed && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Activity</h2>
+                  <button
+                    onClick={() => setShowActivityFeed(false)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <ActivityFeed
+                  projectId={projectId as string}
+                  currency={project.currency}
+                  members={project.members}
+                />
+
+                <div className="mt-6 flex justify-end">
+                  <button onClick={() => setShowActivityFeed(false)} className="btn btn-primary">
+                    Done
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {splitwiseFile && <SplitwiseImport file={splitwiseFile} onClose={() => setSplitwiseFile(null)} />}
+
+        {showCsvImport && (
+          <CsvImportWizard
+            projectId={projectId as string}
+            currency={project.currency}
+            onClose={() => setShowCsvImport(false)}
+            onImported={() => fetchProject()}
+          />
+        )}
+
+        {showExportOptions && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Export</h2>
+                  <button
+                    onClick={() => setShowExportOptions(false)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <div className="space-y-2">
+                  {[
+                    {
+                      query: '',
+                      label: 'Kostos (JSON)',
+                      description: 'Everything in this project, to import into Kostos again.',
+                    },
+                    // Receipts can only be included in a ZIP archive
+                    ...(project.expenses.some((expense: any) => expense.attachments?.length > 0)
+                      ? [
+                          {
+                            query: '?attachments=1',
+                            label: 'Kostos with receipts (ZIP)',
+                            description: 'The same JSON plus every receipt and attachment file.',
+                          },
+                        ]
+                      : []),
+                    {
+                      query: '?format=spliit',
+                      label: 'Spliit (JSON)',
+                      description: 'For Spliit. Expenses with several payers become one expense per payer.',
+                    },
+                    {
+                      query: '?format=spliit-csv',
+                      label: 'Spliit (CSV)',
+                      description:
+                        "Spliit's spreadsheet layout, with each member's balance change per expense.",
+                    },
+                    {
+                      query: '?format=csv',
+                      label: 'Spreadsheet (CSV)',
+                      description:
+                        'A ZIP of CSV tables: expenses with what each member owes, every payment and split, and balances.',
+                    },
+                  ].map((option) => (
+                    <button
+                      key={option.label}
+                      onClick={() => handleExportProject(option.query)}
+                      className="w-full rounded-lg border border-gray-200 p-3 text-left hover:bg-gray-50 dark:border-gray-700 dark:hover:bg-gray-700"
+                    >
+                      <div className="text-sm font-medium">{option.label}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{option.description}</div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Trash Modal */}
+        {showTrashManager && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4">
+            <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-lg bg-white shadow-xl dark:bg-gray-800">
+              <div className="p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">Trash</h2>
+                  <button
+                    onClick={() => setShowTrashManager(false)}
+                    className="text-gray-500 hover:text-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <TrashManager
+                  projectId={projectId as string}
+                  currency={project.currency}
+                  members={project.members}
+                  canEdit={project.access !== 'read'}
+                  onTrashChange={() => fetchProject()}
+                />
+
+                <div className="mt-6 flex justify-end">
+                  <button onClick={() => setShowTrashManager(false)} className="btn btn-primary">
+                    Done
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Undo toast for the last deleted expense */}
+        {deletedExpense && (
+          <div className="fixed inset-x-0 bottom-4 z-50 flex justify-center px-4">
+            <div className="flex items-center gap-4 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg dark:bg-gray-700">
+              <span>“{deletedExpense.description}” moved to the trash</span>
+              <button
+                onClick={handleUndoDeleteExpense}
+                className="font-semibold text-blue-300 hover:text-blue-200"
+              >
+                Undo
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Project actions */}
         <div className="mt-8 flex items-center justify-between border-t pt-4">
           <div className="flex items-center space-x-2">
@@ -2305,13 +3208,59 @@ export default function ProjectDetail() {
             >
               Manage Payment Methods
             </button>
+            <span className="text-gray-300">|</span>
+            <button
+              onClick={() => setShowExpenseTemplateManager(true)}
+              className="text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              Manage Templates
+            </button>
+            <span className="text-gray-300">|</span>
+            <button
+              onClick={() => setShowExchangeRateManager(true)}
+              className="text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              Manage Exchange Rates
+            </button>
+            <span className="text-gray-300">|</span>
+            <button
+              onClick={() => setShowRecurringExpenseManager(true)}
+              className="text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              Manage Recurring Expenses
+            </button>
+            <span className="text-gray-300">|</span>
+            <button
+              onClick={() => setShowActivityFeed(true)}
+              className="text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              Activity
+            </button>
+            <span className="text-gray-300">|</span>
+            <button
+              onClick={() => setShowTrashManager(true)}
+              className="text-xs text-indigo-600 hover:text-indigo-800"
+            >
+              Trash
+            </button>
+            {project.access !== 'read' && (
+              <>
+                <span className="text-gray-300">|</span>
+                <button
+                  onClick={() => setShowCsvImport(true)}
+                  className="text-xs text-indigo-600 hover:text-indigo-800"
+                >
+                  Import Expenses from CSV
+                </button>
+              </>
+            )}
           </div>
 
           <div className="flex items-center space-x-4">
             {/* Import/Export & Share buttons */}
             <div className="flex items-center space-x-2">
               <button
-                onClick={handleExportProject}
+                onClick={() => setShowExportOptions(true)}
                 className="flex items-center text-xs text-blue-600 hover:text-blue-800"
               >
                 <svg
@@ -2351,34 +3300,14 @@ export default function ProjectDetail() {
                   type="file"
                   ref={fileInputRef}
                   className="hidden"
-                  accept=".json"
+                  accept=".json,.csv"
                   onChange={handleFileSelected}
                   disabled={isImporting}
                 />
               </label>
 
               <button
-                onClick={() => {
-                  const joinUrl = `${window.location.origin}/projects/join?projectId=${projectId}`
-                  navigator.clipboard
-                    .writeText(joinUrl)
-                    .then(() => {
-                      // Show a temporary "Copied!" notification
-                      const button = document.getElementById('share-button')
-                      if (button) {
-                        const originalText = button.innerText
-                        button.innerText = 'Copied!'
-                        setTimeout(() => {
-                          button.innerText = originalText
-                        }, 2000)
-                      }
-                    })
-                    .catch((err) => {
-                      console.error('Failed to copy share link:', err)
-                      alert('Failed to copy link to clipboard.')
-                    })
-                }}
-                id="share-button"
+                onClick={() => setShowShareManager(true)}
                 className="flex items-center text-xs text-purple-600 hover:text-purple-800"
               >
                 <svg
@@ -1,7 +1,7 @@
 import { useState } from 'react'
 import { useRouter } from 'next/router'
 import Layout from '../../../components/Layout'
-import { useProjectStats } from '../../../hooks/useProjectStats'
+import { getStatsFilterParams, useProjectStats } from '../../../hooks/useProjectStats'
 import { StatsFilters } from '../../../components/stats/StatsFilters'
 import { SummaryCards } from '../../../components/stats/SummaryCards'
 import {
@@ -74,6 +74,20 @@ export default function ProjectStats() {
     }
   )
 
+  // Downloads the expenses behind the current filters; the personal tab narrows them to the member
+  const handleExportCsv = () => {
+    const params = getStatsFilterParams({
+      timeFrame,
+      customStartDate,
+      customEndDate,
+      selectedCategory,
+      selectedPaymentMethod,
+    })
+    params.append('format', 'csv')
+    if (activeTab === 'personal' && memberId) params.append('memberId', memberId as string)
+    window.location.href = `/api/projects/${projectId}/export?${params.toString()}`
+  }
+
   if (isLoading && !stats) {
     return (
       <Layout title={project?.name ? `${project.name} - Stats` : 'Project Stats'}>
@@ -111,12 +125,17 @@ export default function ProjectStats() {
             )}
           </div>
 
-          <button
-            onClick={() => router.push(`/projects/${projectId}?memberId=${memberId}`)}
-            className="btn btn-secondary"
-          >
-            Back to Project
-          </button>
+          <div className="flex gap-2">
+            <button onClick={handleExportCsv} className="btn btn-secondary">
+              Export CSV
+            </button>
+            <button
+              onClick={() => router.push(`/projects/${projectId}?memberId=${memberId}`)}
+              className="btn btn-secondary"
+            >
+              Back to Project
+            </button>
+          </div>
         </div>
 
         {/* Tabs */}
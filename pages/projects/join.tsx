@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/router'
 import Layout from '../../components/Layout'
 import { addJoinedProject } from '../../utils/localStorage'
+import { ACCESS_LEVELS, PASSPHRASE_REQUIRED_ERROR, SESSION_HEADER } from '../../utils/projectAccess'
 
 export default function JoinProject() {
   const router = useRouter()
@@ -9,21 +10,34 @@ export default function JoinProject() {
   const [error, setError] = useState<string | null>(null)
 
   const [projectId, setProjectId] = useState('')
+  // Access token from a share link; it decides what the joined member can do
+  const [accessToken, setAccessToken] = useState<string | null>(null)
+  // Passphrase-protected projects also need a session, started by entering the passphrase
+  const [needsPassphrase, setNeedsPassphrase] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [sessionToken, setSessionToken] = useState<string | null>(null)
   const [selectedMemberId, setSelectedMemberId] = useState('')
   const [project, setProject] = useState<any>(null)
 
   // Effect to auto-fetch project when projectId is in URL
   useEffect(() => {
-    const { projectId: queryProjectId } = router.query
+    const { projectId: queryProjectId, token } = router.query
+    const queryToken = typeof token === 'string' ? token : null
 
     if (queryProjectId && typeof queryProjectId === 'string') {
       setProjectId(queryProjectId)
-      fetchProject(queryProjectId)
+      setAccessToken(queryToken)
+      setSessionToken(null)
+      fetchProject(queryProjectId, queryToken, null)
     }
   }, [router.query])
 
   // Fetch project details
-  const fetchProject = async (projectIdToFetch?: string) => {
+  const fetchProject = async (
+    projectIdToFetch?: string,
+    token: string | null = accessToken,
+    session: string | null = sessionToken
+  ) => {
     const idToUse = projectIdToFetch || projectId
 
     if (!idToUse.trim()) {
@@ -35,13 +49,26 @@ export default function JoinProject() {
     setError(null)
 
     try {
-      const response = await fetch(`/api/projects/${idToUse}`)
+      // The tokens are only stored once the member is chosen, so send them directly
+      const response = await fetch(`/api/projects/${idToUse}`, {
+        headers: {
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...(session && { [SESSION_HEADER]: session }),
+        },
+      })
       const result = await response.json()
 
+      if (result.error === PASSPHRASE_REQUIRED_ERROR) {
+        setProject(null)
+        setNeedsPassphrase(true)
+        return
+      }
+
       if (!result.success) {
         throw new Error(result.error || 'Failed to fetch project')
       }
 
+      setNeedsPassphrase(false)
       setProject(result.data)
       setSelectedMemberId('') // Reset selected member when project changes
     } catch (error) {
@@ -52,6 +79,38 @@ export default function JoinProject() {
     }
   }
 
+  // Start a session with the passphrase, then fetch the project with it
+  const unlockProject = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/sessions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+        },
+        body: JSON.stringify({ passphrase }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to unlock project')
+      }
+
+      setSessionToken(result.data.sessionToken)
+      setPassphrase('')
+      await fetchProject(projectId, accessToken, result.data.sessionToken)
+    } catch (error) {
+      console.error('Error unlocking project:', error)
+      setError(error instanceof Error ? error.message : 'Failed to unlock project')
+      setIsLoading(false)
+    }
+  }
+
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -80,6 +139,8 @@ export default function JoinProject() {
       name: project.name,
       memberName: selectedMember.name,
       memberId: selectedMember.id,
+      ...(accessToken && { accessToken }),
+      ...(sessionToken && { sessionToken }),
       joinedAt: Date.now(),
     })
 
@@ -87,6 +148,9 @@ export default function JoinProject() {
     router.push(`/projects/${project.id}?memberId=${selectedMember.id}`)
   }
 
+  // What the share link allows
+  const accessOption = ACCESS_LEVELS.find((option) => option.value === project?.access)
+
   return (
     <Layout title="Join Project">
       <div className="mx-auto max-w-2xl">
@@ -153,7 +217,12 @@ export default function JoinProject() {
                 type="text"
                 className="w-full rounded-lg border border-gray-300 py-2 pl-10 pr-3 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
                 value={projectId}
-                onChange={(e) => setProjectId(e.target.value)}
+                onChange={(e) => {
+                  setProjectId(e.target.value)
+                  setAccessToken(null)
+                  setSessionToken(null)
+                  setNeedsPassphrase(false)
+                }}
                 placeholder="Enter the project ID"
               />
             </div>
@@ -194,6 +263,37 @@ export default function JoinProject() {
           </div>
         </div>
 
+        {needsPassphrase && (
+          <form
+            onSubmit={unlockProject}
+            className="mb-6 rounded-lg border border-gray-100 bg-white p-6 shadow-sm dark:border-gray-700 dark:bg-gray-800"
+          >
+            <h2 className="mb-2 text-xl font-semibold text-gray-900 dark:text-white">Enter Passphrase</h2>
+            <p className="mb-4 text-gray-600 dark:text-gray-400">
+              This project is protected by a passphrase. Ask the project admin for it.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                className="w-full flex-grow rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoComplete="current-password"
+                autoFocus
+                required
+              />
+              <button
+                type="submit"
+                className="whitespace-nowrap rounded-lg bg-blue-600 px-4 py-2 text-white transition-colors hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                disabled={isLoading || !passphrase}
+              >
+                Unlock
+              </button>
+            </div>
+          </form>
+        )}
+
         {project && (
           <div className="rounded-lg border border-gray-100 bg-white p-6 shadow-sm dark:border-gray-700 dark:bg-gray-800">
             <div className="mb-4 flex items-center">
@@ -221,6 +321,12 @@ export default function JoinProject() {
               </div>
             </div>
 
+            {accessOption && accessOption.value !== 'admin' && (
+              <p className="mb-4 rounded-lg bg-gray-50 px-3 py-2 text-sm text-gray-600 dark:bg-gray-700/50 dark:text-gray-300">
+                {accessOption.label} access: {accessOption.description.toLowerCase()}
+              </p>
+            )}
+
             <form onSubmit={handleSubmit}>
               <div className="mb-6">
                 <label className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300">
@@ -304,7 +410,7 @@ export default function JoinProject() {
           </div>
         )}
 
-        {!project && !isLoading && (
+        {!project && !needsPassphrase && !isLoading && (
           <div className="rounded-lg border border-gray-100 bg-gray-50 p-6 text-center dark:border-gray-700 dark:bg-gray-800/50">
             <svg
               xmlns="http://www.w3.org/2000/svg"
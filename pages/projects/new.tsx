@@ -3,6 +3,7 @@ import { useRouter } from 'next/router'
 import Layout from '../../components/Layout'
 import { addJoinedProject } from '../../utils/localStorage'
 import { CURRENCY_OPTIONS } from '../../utils/currency'
+import { MIN_PASSPHRASE_LENGTH } from '../../utils/projectAccess'
 
 // Default project emojis
 const DEFAULT_EMOJIS = [
@@ -55,6 +56,7 @@ export default function NewProject() {
 
   const [projectName, setProjectName] = useState('')
   const [projectDescription, setProjectDescription] = useState('')
+  const [projectPassphrase, setProjectPassphrase] = useState('')
   const [projectCurrency, setProjectCurrency] = useState('USD')
   const [projectEmoji, setProjectEmoji] = useState('📊')
   const [showEmojiPicker, setShowEmojiPicker] = useState(false)
@@ -122,6 +124,7 @@ export default function NewProject() {
           currency: projectCurrency,
           emoji: projectEmoji,
           members: filteredMembers,
+          ...(projectPassphrase && { passphrase: projectPassphrase }),
         }),
       })
 
@@ -140,6 +143,8 @@ export default function NewProject() {
         name: project.name,
         memberName: firstMember.name,
         memberId: firstMember.id,
+        accessToken: project.adminSecret,
+        ...(project.sessionToken && { sessionToken: project.sessionToken }),
         joinedAt: Date.now(),
       })
 
@@ -277,6 +282,28 @@ export default function NewProject() {
               />
             </div>
 
+            <div>
+              <label
+                htmlFor="projectPassphrase"
+                className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300"
+              >
+                Passphrase (Optional)
+              </label>
+              <input
+                id="projectPassphrase"
+                type="password"
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                value={projectPassphrase}
+                onChange={(e) => setProjectPassphrase(e.target.value)}
+                placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                autoComplete="new-password"
+                minLength={MIN_PASSPHRASE_LENGTH}
+              />
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                Members will have to enter it once per device, on top of opening a share link.
+              </p>
+            </div>
+
             <div>
               <div className="mb-2 flex items-center justify-between">
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Members</label>
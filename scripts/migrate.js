@@ -18,6 +18,7 @@ try {
 
   migrate(db, { migrationsFolder })
   applyCompatibilityIndexes()
+  reconcileMoneyTotals()
   console.log('Database migrations applied successfully')
 } finally {
   sqlite.close()
@@ -88,6 +89,55 @@ function applyCompatibilityIndexes() {
   }
 }
 
+function reconcileMoneyTotals() {
+  if (!tableExists('expenses') || !tableExists('payments') || !tableExists('splits')) return
+
+  // Amounts used to be stored as floating point and compared with a one-cent tolerance, so
+  // converted payments and splits can be off from the expense total by a minor unit per row.
+  // Give the remainder to the largest row so totals match exactly. Safe to run repeatedly.
+  const rowSets = [
+    ['payments', 'amount'],
+    ['splits', 'owed_amount'],
+  ]
+
+  const reconcile = sqlite.transaction(() => {
+    let adjusted = 0
+
+    for (const [table, column] of rowSets) {
+      const mismatches = sqlite
+        .prepare(
+          `SELECT e.id AS expenseId, e.amount AS amount, SUM(r.\`${column}\`) AS total, COUNT(*) AS count
+           FROM expenses e JOIN \`${table}\` r ON r.expense_id = e.id
+           GROUP BY e.id HAVING SUM(r.\`${column}\`) != e.amount`
+        )
+        .all()
+
+      for (const { expenseId, amount, total, count } of mismatches) {
+        const difference = amount - total
+        if (Math.abs(difference) > count) {
+          console.warn(
+            `Expense ${expenseId}: ${table} differ from the total by ${difference} minor units; left unchanged`
+          )
+          continue
+        }
+
+        const largest = sqlite
+          .prepare(`SELECT id FROM \`${table}\` WHERE expense_id = ? ORDER BY \`${column}\` DESC, id LIMIT 1`)
+          .get(expenseId)
+        sqlite
+          .prepare(`UPDATE \`${table}\` SET \`${column}\` = \`${column}\` + ? WHERE id = ?`)
+          .run(difference, largest.id)
+        adjusted++
+      }
+    }
+
+    return adjusted
+  })
+
+  const adjusted = reconcile()
+  if (adjusted > 0) console.log(`Reconciled rounding differences on ${adjusted} expense totals`)
+}
+
 function tableExists(tableName) {
   return Boolean(
     sqlite
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { CsvExportSource, toCsvExportTables } from '../utils/csvExport'
+
+const source: CsvExportSource = {
+  currency: 'EUR',
+  members: [
+    { id: 'm-ana', name: '=HYPERLINK("https://example.com")' },
+    { id: 'm-ben', name: 'Ben' },
+  ],
+  categories: [{ id: 'c-food', name: '@Food' }],
+  paymentMethods: [{ id: 'p-card', name: '+Card' }],
+  expenses: [
+    {
+      id: 'e-refund',
+      description: '-Refund',
+      amount: -1250,
+      originalCurrency: null,
+      originalAmount: null,
+      exchangeRate: null,
+      date: new Date('2024-06-08T00:00:00.000Z'),
+      splitType: 'even',
+      categoryId: 'c-food',
+      paymentMethodId: 'p-card',
+      notes: '\tcmd',
+      payments: [{ memberId: 'm-ana', amount: -1250 }],
+      splits: [
+        { memberId: 'm-ana', owedAmount: -625 },
+        { memberId: 'm-ben', owedAmount: -625 },
+      ],
+    },
+  ],
+  balances: [],
+}
+
+describe('CSV export', () => {
+  it('keeps text that starts like a formula from running in a spreadsheet', () => {
+    const lines = toCsvExportTables(source).expenses.split('\r\n')
+
+    expect(lines[0]).toBe(
+      'Date,Description,Category,Payment method,Amount,Currency,Original amount,Original currency,' +
+        'Exchange rate,Split type,Paid by,Notes,"\'=HYPERLINK(""https://example.com"")",Ben'
+    )
+    expect(lines[1]).toBe(
+      `2024-06-08,'-Refund,'@Food,'+Card,-12.5,EUR,,,,even,"'=HYPERLINK(""https://example.com"")",'\tcmd,-6.25,-6.25`
+    )
+  })
+})
@@ -0,0 +1,93 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { expect } from 'vitest'
+import importHandler from '../../pages/api/projects/import'
+import exportHandler from '../../pages/api/projects/[id]/export'
+
+// Calls API route handlers directly, without a server, and records what they send back
+
+export interface ApiCall {
+  method?: string
+  query?: Record<string, string>
+  body?: unknown
+  // Sent as a bearer token, the way scripts reach protected projects
+  token?: string
+}
+
+export interface ApiResult {
+  status: number
+  headers: Record<string, string>
+  // The parsed JSON of json() responses, the raw value of send() responses
+  body: any
+}
+
+type ApiHandler = (req: NextApiRequest, res: NextApiResponse) => unknown
+
+export async function callApi(handler: ApiHandler, call: ApiCall = {}): Promise<ApiResult> {
+  const result: ApiResult = { status: 200, headers: {}, body: undefined }
+
+  const req = {
+    method: call.method ?? 'GET',
+    query: call.query ?? {},
+    body: call.body,
+    headers: call.token ? { authorization: `Bearer ${call.token}` } : {},
+    cookies: {},
+    socket: { remoteAddress: '127.0.0.1' },
+  } as unknown as NextApiRequest
+
+  const res = {
+    headersSent: false,
+    status(code: number) {
+      result.status = code
+      return res
+    },
+    setHeader(name: string, value: string) {
+      result.headers[name.toLowerCase()] = String(value)
+      return res
+    },
+    removeHeader(name: string) {
+      delete result.headers[name.toLowerCase()]
+      return res
+    },
+    json(body: unknown) {
+      result.body = JSON.parse(JSON.stringify(body))
+      res.headersSent = true
+      return res
+    },
+    send(body: unknown) {
+      result.body = body
+      res.headersSent = true
+      return res
+    },
+  }
+
+  await handler(req, res as unknown as NextApiResponse)
+  return result
+}
+
+// A project created by an import, with the admin secret that opens it
+export interface ImportedProject {
+  projectId: string
+  adminSecret: string
+}
+
+/**
+ * Import a project through the import route, failing the test when it is refused
+ */
+export async function importProject(body: unknown): Promise<ImportedProject> {
+  const imported = await callApi(importHandler, { method: 'POST', body })
+  expect(imported.body.error).toBeUndefined()
+  expect(imported.status).toBe(201)
+  return imported.body.data
+}
+
+/**
+ * Export a project through the export route as an admin; without a format, as a Kostos export
+ */
+export async function exportProject(project: ImportedProject, format?: string): Promise<ApiResult['body']> {
+  const exported = await callApi(exportHandler, {
+    query: { id: project.projectId, ...(format && { format }) },
+    token: project.adminSecret,
+  })
+  expect(exported.status).toBe(200)
+  return exported.body
+}
@@ -0,0 +1,9 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+
+/**
+ * Read a file from tests/fixtures
+ */
+export function readFixture(name: string): string {
+  return readFileSync(path.join(__dirname, '..', 'fixtures', name), 'utf8')
+}
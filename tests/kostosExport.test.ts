@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import importHandler from '../pages/api/projects/import'
+import { KostosExportData } from '../utils/kostosExport'
+import { callApi, exportProject, importProject } from './helpers/api'
+import { readFixture } from './helpers/fixtures'
+
+const kostosExport: KostosExportData = JSON.parse(readFixture('kostos-export.json'))
+
+/**
+ * Imports get new IDs, so exports are compared with members named instead of referred to by ID
+ */
+function withoutGeneratedFields(data: KostosExportData) {
+  const names = new Map(data.participants.map((participant) => [participant.id, participant.name]))
+  const name = (memberId: string) => names.get(memberId)
+  const { id, exportedAt, participants, expenses, balances, ...project } = data
+
+  return {
+    ...project,
+    participants: participants.map((participant) => participant.name),
+    expenses: expenses.map(({ id, items, payments, paidFor, ...expense }) => ({
+      ...expense,
+      items: items.map((item) => ({ ...item, memberIds: item.memberIds.map(name) })),
+      payments: payments.map((payment) => ({ ...payment, memberId: name(payment.memberId) })),
+      paidFor: paidFor.map((split) => ({ ...split, memberId: name(split.memberId) })),
+    })),
+    balances: balances.map((balance) => ({ ...balance, memberId: name(balance.memberId) })),
+  }
+}
+
+describe('Kostos import and export', () => {
+  it('keeps the line items, tax and tip of itemized expenses', async () => {
+    const exported = await exportProject(await importProject(kostosExport))
+
+    expect(withoutGeneratedFields(exported)).toEqual(withoutGeneratedFields(kostosExport))
+  })
+
+  it('imports its own exports again without changes', async () => {
+    const exported = await exportProject(await importProject(kostosExport))
+    const reexported = await exportProject(await importProject(exported))
+
+    expect(withoutGeneratedFields(reexported)).toEqual(withoutGeneratedFields(kostosExport))
+  })
+
+  it('imports itemized expenses of exports without line items as amount splits', async () => {
+    const [dinner, ...otherExpenses] = kostosExport.expenses
+    const { items, taxAmount, tipAmount, ...withoutItems } = dinner
+    const exported = await exportProject(
+      await importProject({ ...kostosExport, expenses: [withoutItems, ...otherExpenses] })
+    )
+
+    expect(exported.expenses[0]).toMatchObject({
+      splitType: 'amount',
+      items: [],
+      taxAmount: null,
+      tipAmount: null,
+      paidFor: dinner.paidFor.map(({ memberId, ...split }) => split),
+    })
+  })
+
+  it('refuses line items that do not add up to the expense amount', async () => {
+    const [dinner, ...otherExpenses] = kostosExport.expenses
+    const imported = await callApi(importHandler, {
+      method: 'POST',
+      body: { ...kostosExport, expenses: [{ ...dinner, tipAmount: 8 }, ...otherExpenses] },
+    })
+
+    expect(imported.status).toBe(400)
+    expect(imported.body.error).toBe('Import failed: Expense 1 items, tax and tip must add up to its amount')
+  })
+})
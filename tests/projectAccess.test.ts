@@ -0,0 +1,147 @@
+import { readFileSync } from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { eq } from 'drizzle-orm'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { db, schema } from '../db'
+import projectHandler from '../pages/api/projects/[id]'
+import accessHandler from '../pages/api/projects/[id]/access'
+import claimAccessHandler from '../pages/api/projects/[id]/claim-access'
+import expensesHandler from '../pages/api/expenses'
+import { ImportedProject, callApi, importProject } from './helpers/api'
+import { readFixture } from './helpers/fixtures'
+
+const kostosExport = JSON.parse(readFixture('kostos-export.json'))
+
+async function createToken(project: ImportedProject, level: 'read' | 'edit'): Promise<string> {
+  const created = await callApi(accessHandler, {
+    method: 'POST',
+    query: { id: project.projectId },
+    body: { level },
+    token: project.adminSecret,
+  })
+  expect(created.status).toBe(200)
+  return created.body.data.tokens[level]
+}
+
+async function getMemberIds(project: ImportedProject): Promise<string[]> {
+  const members = await db
+    .select({ id: schema.members.id })
+    .from(schema.members)
+    .where(eq(schema.members.projectId, project.projectId))
+  return members.map((member) => member.id)
+}
+
+describe('Project access', () => {
+  let project: ImportedProject
+
+  beforeEach(async () => {
+    project = await importProject(kostosExport)
+  })
+
+  it('keeps read-only links out of edit and admin routes', async () => {
+    const token = await createToken(project, 'read')
+    const query = { id: project.projectId }
+
+    expect((await callApi(projectHandler, { query, token })).status).toBe(200)
+
+    const rename = await callApi(projectHandler, { method: 'PATCH', query, body: { name: 'Renamed' }, token })
+    expect(rename.status).toBe(403)
+    expect(rename.body.error).toBe('You have read-only access to this project')
+
+    const expense = await callApi(expensesHandler, {
+      method: 'POST',
+      body: { projectId: project.projectId, description: 'Snacks', amount: 5 },
+      token,
+    })
+    expect(expense.status).toBe(403)
+
+    const takeOver = await callApi(accessHandler, { method: 'POST', query, body: { level: 'admin' }, token })
+    expect(takeOver.status).toBe(403)
+    expect(takeOver.body.error).toBe('Only project admins can do this')
+  })
+
+  it('keeps edit links out of admin routes', async () => {
+    const token = await createToken(project, 'edit')
+    const reset = await callApi(accessHandler, {
+      method: 'POST',
+      query: { id: project.projectId },
+      body: { level: 'admin' },
+      token,
+    })
+
+    expect(reset.status).toBe(403)
+  })
+
+  it('does not let callers without a link claim a project that has no admin secret', async () => {
+    await db
+      .update(schema.projects)
+      .set({ adminSecret: null })
+      .where(eq(schema.projects.id, project.projectId))
+
+    const takeOver = await callApi(accessHandler, {
+      method: 'POST',
+      query: { id: project.projectId },
+      body: { level: 'admin' },
+    })
+
+    expect(takeOver.status).toBe(401)
+    expect(takeOver.body.error).toBe('An access link is required')
+  })
+
+  it('hands the admin secret of an early project to its members until the admin link is reset', async () => {
+    await db
+      .update(schema.projects)
+      .set({ adminSecretClaimable: true })
+      .where(eq(schema.projects.id, project.projectId))
+    const query = { id: project.projectId }
+    const [memberId] = await getMemberIds(project)
+
+    const stranger = await callApi(claimAccessHandler, {
+      method: 'POST',
+      query,
+      body: { memberId: 'unknown' },
+    })
+    expect(stranger.status).toBe(403)
+
+    const member = await callApi(claimAccessHandler, { method: 'POST', query, body: { memberId } })
+    expect(member.status).toBe(200)
+    expect(member.body.data.accessToken).toBe(project.adminSecret)
+
+    await callApi(accessHandler, {
+      method: 'POST',
+      query,
+      body: { level: 'admin' },
+      token: project.adminSecret,
+    })
+    const afterReset = await callApi(claimAccessHandler, { method: 'POST', query, body: { memberId } })
+    expect(afterReset.status).toBe(403)
+  })
+})
+
+describe('Access control migration', () => {
+  it('gives projects created before access control an admin secret their members can claim', () => {
+    const migrationsFolder = path.join(__dirname, '..', 'db', 'migrations')
+    const journal = JSON.parse(readFileSync(path.join(migrationsFolder, 'meta', '_journal.json'), 'utf8'))
+    const sqlite = new Database(':memory:')
+    const runMigration = (tag: string) => {
+      const migration = readFileSync(path.join(migrationsFolder, `${tag}.sql`), 'utf8')
+      for (const statement of migration.split('--> statement-breakpoint')) sqlite.exec(statement)
+    }
+
+    for (const { tag } of journal.entries) {
+      // A project made before access control, with no secrets yet
+      if (tag === '0017_protect_existing_projects') {
+        sqlite.prepare("INSERT INTO projects (id, name) VALUES ('early', 'Early project')").run()
+      }
+      runMigration(tag)
+    }
+
+    const project = sqlite
+      .prepare('SELECT admin_secret, admin_secret_claimable FROM projects WHERE id = ?')
+      .get('early') as { admin_secret: string | null; admin_secret_claimable: number }
+    expect(project.admin_secret).toMatch(/^[0-9a-f]{32}$/)
+    expect(project.admin_secret_claimable).toBe(1)
+    sqlite.close()
+  })
+})
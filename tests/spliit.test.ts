@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { SpliitExport } from '../utils/spliit'
+import { exportProject, importProject } from './helpers/api'
+import { readFixture } from './helpers/fixtures'
+
+const spliitExport: SpliitExport = JSON.parse(readFixture('spliit-export.json'))
+
+/**
+ * Imports get new IDs and record when they were made, so exports are compared by what the user
+ * entered: participants by name and expenses without their creation time
+ */
+function withoutGeneratedFields(data: SpliitExport) {
+  const names = new Map(data.participants.map((participant) => [participant.id, participant.name]))
+  return {
+    name: data.name,
+    currency: data.currency,
+    currencyCode: data.currencyCode,
+    participants: data.participants.map((participant) => participant.name),
+    expenses: data.expenses.map(({ createdAt, paidById, paidFor, ...expense }) => ({
+      ...expense,
+      paidBy: names.get(paidById),
+      paidFor: paidFor.map((split) => ({ ...split, participantId: names.get(split.participantId) })),
+    })),
+  }
+}
+
+describe('Spliit import and export', () => {
+  it('exports an imported Spliit project as it was', async () => {
+    const project = await importProject(spliitExport)
+    const exported: SpliitExport = await exportProject(project, 'spliit')
+
+    expect(withoutGeneratedFields(exported)).toEqual(withoutGeneratedFields(spliitExport))
+  })
+
+  it('exports an imported Spliit project as Spliit CSV', async () => {
+    const project = await importProject(spliitExport)
+    const csv = await exportProject(project, 'spliit-csv')
+
+    // CSV rows end in CRLF; the fixture is kept with plain newlines
+    expect(csv.replace(/\r\n/g, '\n')).toBe(readFixture('spliit-export.csv'))
+  })
+
+  it('imports categories given by their Spliit ID', async () => {
+    const [groceries, ...otherExpenses] = spliitExport.expenses
+    const { category, ...withoutCategory } = groceries
+    const project = await importProject({
+      ...spliitExport,
+      expenses: [{ ...withoutCategory, categoryId: 9 }, ...otherExpenses],
+    })
+    const exported: SpliitExport = await exportProject(project, 'spliit')
+
+    expect(exported.expenses[0].category).toEqual(category)
+  })
+
+  it('reads exports back after a round trip through Kostos', async () => {
+    const project = await importProject(spliitExport)
+    const exported: SpliitExport = await exportProject(project, 'spliit')
+    const reimported = await importProject(exported)
+
+    expect(withoutGeneratedFields(await exportProject(reimported, 'spliit'))).toEqual(
+      withoutGeneratedFields(spliitExport)
+    )
+  })
+})
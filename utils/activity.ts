@@ -0,0 +1,95 @@
+// Types and labels of the activity log, shared by the API routes that record changes and the
+// activity feed. Recording entries lives in activityLog.ts, which only runs on the server.
+
+export type ActivityEntityType = 'expense' | 'member' | 'category' | 'paymentMethod'
+// Deleted expenses go to the trash; restoring brings them back and purging removes them for good.
+// Reverting sets an expense back to the state it had after an earlier entry.
+export type ActivityAction = 'create' | 'update' | 'delete' | 'restore' | 'purge' | 'revert'
+
+export const ACTIVITY_ENTITY_TYPES: { value: ActivityEntityType; label: string; noun: string }[] = [
+  { value: 'expense', label: 'Expenses', noun: 'expense' },
+  { value: 'member', label: 'Members', noun: 'member' },
+  { value: 'category', label: 'Categories', noun: 'category' },
+  { value: 'paymentMethod', label: 'Payment methods', noun: 'payment method' },
+]
+
+export const ACTIVITY_ACTION_VERBS: Record<ActivityAction, string> = {
+  create: 'added',
+  update: 'changed',
+  delete: 'deleted',
+  restore: 'restored',
+  purge: 'permanently deleted',
+  revert: 'reverted',
+}
+
+export interface ActivityEntry {
+  id: string
+  actorMemberId: string | null
+  entityType: ActivityEntityType
+  entityId: string
+  action: ActivityAction
+  // The entity as stored, with money in minor units; null before a create and after a delete
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  createdAt: string
+}
+
+// Names of the fields an update can change, as shown in the feed
+const FIELD_LABELS: Record<string, string> = {
+  name: 'name',
+  color: 'color',
+  icon: 'icon',
+  description: 'description',
+  amount: 'amount',
+  originalCurrency: 'original currency',
+  originalAmount: 'original amount',
+  exchangeRate: 'exchange rate',
+  date: 'date',
+  splitType: 'split type',
+  categoryId: 'category',
+  paymentMethodId: 'payment method',
+  notes: 'notes',
+  payments: 'payers',
+  splits: 'split',
+  items: 'items',
+  taxAmount: 'tax',
+  tipAmount: 'tip',
+}
+
+export function isActivityEntityType(value: unknown): value is ActivityEntityType {
+  return ACTIVITY_ENTITY_TYPES.some((option) => option.value === value)
+}
+
+export function getFieldLabel(key: string): string {
+  return FIELD_LABELS[key] ?? key
+}
+
+/**
+ * Keys of the fields that differ between the before and after state of an update or revert
+ */
+export function getChangedKeys(entry: ActivityEntry): string[] {
+  if (!entry.before || !entry.after) return []
+
+  const keys = new Set([...Object.keys(entry.before), ...Object.keys(entry.after)])
+  keys.delete('id')
+
+  return Array.from(keys).filter(
+    (key) => JSON.stringify(entry.before?.[key]) !== JSON.stringify(entry.after?.[key])
+  )
+}
+
+/**
+ * Labels of the fields that differ between the before and after state of an update or revert
+ */
+export function getChangedFields(entry: ActivityEntry): string[] {
+  return Array.from(new Set(getChangedKeys(entry).map(getFieldLabel)))
+}
+
+/**
+ * What the entity of an entry is called: the description of an expense, otherwise its name
+ */
+export function getActivityEntityName(entry: ActivityEntry): string {
+  const state = entry.after ?? entry.before
+  const name = state?.description ?? state?.name
+  return typeof name === 'string' ? name : ''
+}
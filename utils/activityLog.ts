@@ -0,0 +1,35 @@
+import { db, schema } from '../db'
+import { ActivityAction, ActivityEntityType } from './activity'
+import { generateId } from './id'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+export interface ActivityRecord {
+  projectId: string
+  actorMemberId: string | null
+  entityType: ActivityEntityType
+  entityId: string
+  action: ActivityAction
+  before?: unknown
+  after?: unknown
+}
+
+/**
+ * Append an entry to the activity log. Runs inside the caller's transaction, so a change is never
+ * stored without its entry.
+ */
+export function recordActivity(tx: Transaction, record: ActivityRecord): void {
+  tx.insert(schema.activityLog)
+    .values({
+      id: generateId(),
+      projectId: record.projectId,
+      actorMemberId: record.actorMemberId,
+      entityType: record.entityType,
+      entityId: record.entityId,
+      action: record.action,
+      before: record.before ?? null,
+      after: record.after ?? null,
+      createdAt: new Date(),
+    })
+    .run()
+}
@@ -1,13 +1,23 @@
 import { db, schema } from '../db'
 import { eq } from 'drizzle-orm'
+import { DEBT_SIMPLIFICATION_OPTIONS, DebtSimplificationMode } from './balances'
+import { CURRENCY_OPTIONS, fromMinorUnits, getCurrencyDecimals, toMinorUnits } from './currency'
+import { ACCESS_LEVELS, AccessLevel, MIN_PASSPHRASE_LENGTH } from './projectAccess'
+import { RECURRENCE_FREQUENCIES, RecurrenceFrequency } from './recurrence'
+import { SPLIT_TYPES, SplitType, calculateItemizedOwedAmounts, calculateOwedAmounts } from './splits'
 
 export const MAX_NAME_LENGTH = 120
 export const MAX_DESCRIPTION_LENGTH = 240
 export const MAX_NOTES_LENGTH = 2_000
 export const MAX_IMPORT_EXPENSES = 5_000
-export const MONEY_EPSILON = 0.01
+export const MAX_IMPORT_EXCHANGE_RATES = 20_000
+export const MAX_EXPENSE_ITEMS = 200
+export const MAX_RECURRENCE_OCCURRENCES = 10_000
+export const MAX_PASSPHRASE_LENGTH = 200
+export const MAX_TRASH_RETENTION_DAYS = 365
 
-export type SplitType = 'even' | 'amount' | 'shares' | 'percent'
+// Money in parsed inputs is in integer minor units of the project currency (cents, or whole
+// yen for JPY), matching how it is stored
 
 export interface PaymentInput {
   memberId: string
@@ -19,13 +29,67 @@ export interface SplitInput {
   amount?: number | null
   shares?: number | null
   percent?: number | null
+  adjustment?: number | null
   owedAmount: number
 }
 
+export interface ExpenseItemInput {
+  description: string
+  amount: number
+  memberIds: string[]
+}
+
+export interface ItemizedInput {
+  items: ExpenseItemInput[]
+  taxAmount: number | null
+  tipAmount: number | null
+}
+
+export interface SettlementInput {
+  fromMemberId: string
+  toMemberId: string
+  amount: number
+  date: Date
+  notes: string | null
+}
+
+export interface ExchangeRateInput {
+  date: Date
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+}
+
+export interface RecurrenceInput {
+  frequency: RecurrenceFrequency
+  endDate: Date | null
+  occurrenceLimit: number | null
+}
+
+// Templates keep the split configuration without amounts, so they fit any expense amount
+export interface ExpenseTemplateSplitInput {
+  memberId: string
+  shares: number | null
+  percent: number | null
+  adjustment: number | null
+}
+
+export interface ExpenseTemplateInput {
+  name: string
+  description: string | null
+  categoryId: string | null
+  paymentMethodId: string | null
+  payerIds: string[]
+  splitType: SplitType
+  splits: ExpenseTemplateSplitInput[]
+}
+
 export interface ExpenseInput {
-  projectId?: string
   description: string
   amount: number
+  originalCurrency: string | null
+  originalAmount: number | null
+  exchangeRate: number | null
   date: Date
   splitType: SplitType
   categoryId: string | null
@@ -33,6 +97,9 @@ export interface ExpenseInput {
   notes: string | null
   payments: PaymentInput[]
   splits: SplitInput[]
+  items: ExpenseItemInput[]
+  taxAmount: number | null
+  tipAmount: number | null
 }
 
 export function isPlainObject(value: unknown): value is Record<string, unknown> {
@@ -47,6 +114,18 @@ export function asTrimmedString(value: unknown, field: string, maxLength = MAX_N
   return trimmed
 }
 
+// Passphrases are taken as typed; spaces count
+export function asPassphrase(value: unknown): string {
+  if (typeof value !== 'string' || !value) throw new Error('Passphrase is required')
+  if (value.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+  }
+  if (value.length > MAX_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be ${MAX_PASSPHRASE_LENGTH} characters or fewer`)
+  }
+  return value
+}
+
 export function asOptionalTrimmedString(
   value: unknown,
   field: string,
@@ -62,10 +141,29 @@ export function asFiniteNumber(value: unknown, field: string): number {
   return numberValue
 }
 
-export function asPositiveAmount(value: unknown, field = 'Amount'): number {
-  const amount = roundToCent(asFiniteNumber(value, field))
-  if (amount <= 0) throw new Error(`${field} must be greater than 0`)
-  return amount
+export function asRoundedMinorUnits(value: unknown, currency: string, field = 'Amount'): number {
+  return toMinorUnits(asFiniteNumber(value, field), currency)
+}
+
+export function asMinorUnits(value: unknown, currency: string, field = 'Amount'): number {
+  const amount = asFiniteNumber(value, field)
+  const units = toMinorUnits(amount, currency)
+  const decimals = getCurrencyDecimals(currency)
+  // Reject amounts more precise than the currency allows, such as 10.5 JPY or 1.005 USD
+  if (Math.abs(amount * 10 ** decimals - units) > 1e-4) {
+    throw new Error(
+      decimals === 0
+        ? `${field} must be a whole number of ${currency}`
+        : `${field} must have at most ${decimals} decimal places for ${currency}`
+    )
+  }
+  return units
+}
+
+export function asPositiveMinorUnits(value: unknown, currency: string, field = 'Amount'): number {
+  const units = asMinorUnits(value, currency, field)
+  if (units <= 0) throw new Error(`${field} must be greater than 0`)
+  return units
 }
 
 export function asDate(value: unknown, field = 'Date'): Date {
@@ -98,27 +196,65 @@ export function asCurrency(value: unknown): string {
   return currency
 }
 
-export function roundToCent(value: number): number {
-  return Math.round((value + Number.EPSILON) * 100) / 100
+export function asDebtSimplificationMode(value: unknown): DebtSimplificationMode {
+  if (!DEBT_SIMPLIFICATION_OPTIONS.some((option) => option.value === value)) {
+    throw new Error(
+      `Debt simplification must be one of: ${DEBT_SIMPLIFICATION_OPTIONS.map((option) => option.value).join(', ')}`
+    )
+  }
+  return value as DebtSimplificationMode
 }
 
-export function assertAmountsMatch(actual: number, expected: number, message: string): void {
-  if (Math.abs(roundToCent(actual) - roundToCent(expected)) > MONEY_EPSILON) {
-    throw new Error(message)
+export function asTrashRetentionDays(value: unknown): number {
+  const days = asFiniteNumber(value, 'Trash retention')
+  if (!Number.isInteger(days) || days < 1 || days > MAX_TRASH_RETENTION_DAYS) {
+    throw new Error(`Trash retention must be a whole number of days from 1 to ${MAX_TRASH_RETENTION_DAYS}`)
   }
+  return days
+}
+
+export function asAccessLevel(value: unknown): AccessLevel {
+  if (!ACCESS_LEVELS.some((option) => option.value === value)) {
+    throw new Error(`Access level must be one of: ${ACCESS_LEVELS.map((option) => option.value).join(', ')}`)
+  }
+  return value as AccessLevel
+}
+
+export function asExchangeRate(value: unknown, field = 'Exchange rate'): number {
+  const rate = asFiniteNumber(value, field)
+  if (rate <= 0) throw new Error(`${field} must be greater than 0`)
+  return rate
 }
 
-export function parseExpenseBody(body: unknown, options: { requireProjectId: boolean }): ExpenseInput {
+export function assertAmountsMatch(actual: number, expected: number, message: string): void {
+  if (actual !== expected) throw new Error(message)
+}
+
+export function parseExpenseBody(body: unknown, options: { currency: string }): ExpenseInput {
   if (!isPlainObject(body)) throw new Error('Request body must be an object')
 
-  const projectId = options.requireProjectId ? asTrimmedString(body.projectId, 'Project ID', 128) : undefined
+  const { currency } = options
   const description = asTrimmedString(body.description, 'Description', MAX_DESCRIPTION_LENGTH)
-  const amount = asPositiveAmount(body.amount)
+  const amount = asPositiveMinorUnits(body.amount, currency)
   const date = asDate(body.date)
-  const splitType = asTrimmedString(body.splitType, 'Split type', 16) as SplitType
 
-  if (!['even', 'amount', 'shares', 'percent'].includes(splitType)) {
-    throw new Error('Split type is invalid')
+  // Expenses paid in another currency keep the original amount and the rate used to convert it
+  let originalCurrency: string | null = null
+  let originalAmount: number | null = null
+  let exchangeRate: number | null = null
+  if (body.originalCurrency !== undefined && body.originalCurrency !== null && body.originalCurrency !== '') {
+    originalCurrency = asCurrency(body.originalCurrency)
+    if (!CURRENCY_OPTIONS.some((currency) => currency.code === originalCurrency)) {
+      throw new Error('Original currency is not supported')
+    }
+    if (originalCurrency === currency) throw new Error('Original currency must differ from the project currency')
+    originalAmount = asPositiveMinorUnits(body.originalAmount, originalCurrency, 'Original amount')
+    exchangeRate = asExchangeRate(body.exchangeRate)
+    // Clients round the converted decimal amount themselves, so allow them to be a minor unit apart
+    const convertedAmount = toMinorUnits(fromMinorUnits(originalAmount, originalCurrency) * exchangeRate, currency)
+    if (Math.abs(convertedAmount - amount) > 1) {
+      throw new Error('Expense amount must equal the original amount converted at the exchange rate')
+    }
   }
 
   const categoryId = asOptionalId(body.categoryId, 'Category ID')
@@ -129,42 +265,37 @@ export function parseExpenseBody(body: unknown, options: { requireProjectId: boo
     throw new Error('At least one payment is required')
   }
 
-  if (!Array.isArray(body.splits) || body.splits.length === 0) {
-    throw new Error('At least one split is required')
-  }
-
   const payments = body.payments.map((payment, index): PaymentInput => {
     if (!isPlainObject(payment)) throw new Error(`Payment ${index + 1} is invalid`)
     return {
       memberId: asTrimmedString(payment.memberId, `Payment ${index + 1} member ID`, 128),
-      amount: asPositiveAmount(payment.amount, `Payment ${index + 1} amount`),
+      amount: asPositiveMinorUnits(payment.amount, currency, `Payment ${index + 1} amount`),
     }
   })
 
-  const splits = body.splits.map((split, index): SplitInput => {
-    if (!isPlainObject(split)) throw new Error(`Split ${index + 1} is invalid`)
-    const owedAmount = roundToCent(asFiniteNumber(split.owedAmount, `Split ${index + 1} owed amount`))
-    if (owedAmount < 0) throw new Error(`Split ${index + 1} owed amount cannot be negative`)
-
-    return {
-      memberId: asTrimmedString(split.memberId, `Split ${index + 1} member ID`, 128),
-      amount: split.amount === undefined || split.amount === null ? null : roundToCent(asFiniteNumber(split.amount, `Split ${index + 1} amount`)),
-      shares: split.shares === undefined || split.shares === null ? null : Math.trunc(asFiniteNumber(split.shares, `Split ${index + 1} shares`)),
-      percent: split.percent === undefined || split.percent === null ? null : asFiniteNumber(split.percent, `Split ${index + 1} percent`),
-      owedAmount,
+  const { splitType, splits, items, taxAmount, tipAmount } = parseSplitBody(body, amount, currency)
+
+  // Clients send the owed amounts they rendered; reject any that contradict the split inputs.
+  // Itemized splits are derived from the items alone.
+  const requestedSplits = splitType === 'itemized' ? [] : (body.splits as unknown[])
+  splits.forEach((split, index) => {
+    const requested = requestedSplits[index]
+    if (!isPlainObject(requested) || requested.owedAmount === undefined || requested.owedAmount === null) return
+    if (asMinorUnits(requested.owedAmount, currency, `Split ${index + 1} owed amount`) !== split.owedAmount) {
+      const expected = fromMinorUnits(split.owedAmount, currency)
+      throw new Error(`Split ${index + 1} owed amount does not match the ${splitType} split (expected ${expected})`)
     }
   })
 
   const totalPaid = payments.reduce((sum, payment) => sum + payment.amount, 0)
   assertAmountsMatch(totalPaid, amount, 'Total payment amount must equal expense amount')
 
-  const totalOwed = splits.reduce((sum, split) => sum + split.owedAmount, 0)
-  assertAmountsMatch(totalOwed, amount, 'Total split amount must equal expense amount')
-
   return {
-    projectId,
     description,
     amount,
+    originalCurrency,
+    originalAmount,
+    exchangeRate,
     date,
     splitType,
     categoryId,
@@ -172,6 +303,281 @@ export function parseExpenseBody(body: unknown, options: { requireProjectId: boo
     notes,
     payments,
     splits,
+    items,
+    taxAmount,
+    tipAmount,
+  }
+}
+
+/**
+ * Parse the split type and per-member split inputs of an expense body and derive each
+ * member's owed amount from them. Client-provided owed amounts are not trusted.
+ */
+export function parseSplitBody(
+  body: Record<string, unknown>,
+  amount: number,
+  currency: string
+): { splitType: SplitType; splits: SplitInput[] } & ItemizedInput {
+  const splitType = asTrimmedString(body.splitType, 'Split type', 16) as SplitType
+
+  if (!SPLIT_TYPES.includes(splitType)) {
+    throw new Error('Split type is invalid')
+  }
+
+  if (splitType === 'itemized') return { splitType, ...parseItemizedBody(body, amount, currency) }
+
+  if (!Array.isArray(body.splits) || body.splits.length === 0) {
+    throw new Error('At least one split is required')
+  }
+
+  const rawSplits = body.splits.map((split, index) => {
+    if (!isPlainObject(split)) throw new Error(`Split ${index + 1} is invalid`)
+    const label = `Split ${index + 1}`
+
+    // Amount splits may send the amount as owedAmount only
+    const rawAmount = split.amount ?? (splitType === 'amount' ? split.owedAmount : null)
+    const splitAmount = rawAmount === undefined || rawAmount === null ? null : asMinorUnits(rawAmount, currency, `${label} amount`)
+    const shares = split.shares === undefined || split.shares === null ? null : Math.trunc(asFiniteNumber(split.shares, `${label} shares`))
+    const percent = split.percent === undefined || split.percent === null ? null : asFiniteNumber(split.percent, `${label} percent`)
+    // Adjustments are signed: a member can pay extra or be let off part of their even share
+    const adjustment =
+      split.adjustment === undefined || split.adjustment === null || split.adjustment === ''
+        ? null
+        : asMinorUnits(split.adjustment, currency, `${label} adjustment`)
+
+    if (splitAmount !== null && splitAmount < 0) throw new Error(`${label} amount cannot be negative`)
+    if (shares !== null && shares < 0) throw new Error(`${label} shares cannot be negative`)
+    if (percent !== null && percent < 0) throw new Error(`${label} percent cannot be negative`)
+    if (splitType === 'amount' && splitAmount === null) throw new Error(`${label} amount is required`)
+
+    return {
+      memberId: asTrimmedString(split.memberId, `${label} member ID`, 128),
+      amount: splitAmount,
+      shares,
+      percent,
+      adjustment,
+    }
+  })
+
+  if (splitType === 'shares' && !rawSplits.some((split) => (split.shares ?? 0) > 0)) {
+    throw new Error('At least one split must have shares')
+  }
+  if (splitType === 'percent') {
+    const totalPercent = rawSplits.reduce((sum, split) => sum + (split.percent ?? 0), 0)
+    if (Math.abs(totalPercent - 100) > 0.01) throw new Error('Split percentages must add up to 100')
+  }
+  if (splitType === 'adjustment') {
+    const totalAdjustment = rawSplits.reduce((sum, split) => sum + (split.adjustment ?? 0), 0)
+    if (totalAdjustment > amount) throw new Error('Split adjustments cannot add up to more than the expense amount')
+  }
+
+  // Owed amounts are always derived on the server so leftover units are distributed the same way everywhere
+  const owedAmounts = calculateOwedAmounts(amount, splitType, rawSplits)
+  const splits = rawSplits.map((split, index): SplitInput => ({ ...split, owedAmount: owedAmounts[index] }))
+
+  const negativeIndex = splits.findIndex((split) => split.owedAmount < 0)
+  if (negativeIndex !== -1) throw new Error(`Split ${negativeIndex + 1} adjustment leaves a negative share`)
+
+  const totalOwed = splits.reduce((sum, split) => sum + split.owedAmount, 0)
+  assertAmountsMatch(totalOwed, amount, 'Total split amount must equal expense amount')
+
+  return { splitType, splits, items: [], taxAmount: null, tipAmount: null }
+}
+
+/**
+ * Parse the line items, tax and tip of an itemized expense and derive each member's split from
+ * them. A split's amount is the member's share of their items plus their part of tax and tip.
+ */
+function parseItemizedBody(
+  body: Record<string, unknown>,
+  amount: number,
+  currency: string
+): ItemizedInput & { splits: SplitInput[] } {
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    throw new Error('At least one item is required')
+  }
+  if (body.items.length > MAX_EXPENSE_ITEMS) {
+    throw new Error(`An expense can have at most ${MAX_EXPENSE_ITEMS} items`)
+  }
+
+  const items = body.items.map((item, index): ExpenseItemInput => {
+    if (!isPlainObject(item)) throw new Error(`Item ${index + 1} is invalid`)
+    const label = `Item ${index + 1}`
+
+    if (!Array.isArray(item.memberIds) || item.memberIds.length === 0) {
+      throw new Error(`${label} must be assigned to at least one member`)
+    }
+    const memberIds = item.memberIds.map((memberId) => asTrimmedString(memberId, `${label} member ID`, 128))
+    if (new Set(memberIds).size !== memberIds.length) throw new Error(`${label} contains duplicate members`)
+
+    return {
+      description: asTrimmedString(item.description, `${label} description`, MAX_DESCRIPTION_LENGTH),
+      amount: asPositiveMinorUnits(item.amount, currency, `${label} amount`),
+      memberIds,
+    }
+  })
+
+  const asOptionalExtra = (value: unknown, field: string): number | null => {
+    if (value === undefined || value === null || value === '') return null
+    const units = asMinorUnits(value, currency, field)
+    if (units < 0) throw new Error(`${field} cannot be negative`)
+    return units
+  }
+  const taxAmount = asOptionalExtra(body.taxAmount, 'Tax')
+  const tipAmount = asOptionalExtra(body.tipAmount, 'Tip')
+
+  const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0)
+  assertAmountsMatch(
+    itemsTotal + (taxAmount ?? 0) + (tipAmount ?? 0),
+    amount,
+    'Items, tax and tip must add up to the expense amount'
+  )
+
+  const splits = calculateItemizedOwedAmounts(items, taxAmount ?? 0, tipAmount ?? 0).map(
+    ({ memberId, owedAmount }): SplitInput => ({
+      memberId,
+      amount: owedAmount,
+      shares: null,
+      percent: null,
+      adjustment: null,
+      owedAmount,
+    })
+  )
+
+  return { items, taxAmount, tipAmount, splits }
+}
+
+export function parseSettlementBody(body: unknown, currency: string): SettlementInput {
+  if (!isPlainObject(body)) throw new Error('Request body must be an object')
+
+  const fromMemberId = asTrimmedString(body.fromMemberId, 'From member ID', 128)
+  const toMemberId = asTrimmedString(body.toMemberId, 'To member ID', 128)
+  if (fromMemberId === toMemberId) throw new Error('A member cannot settle with themselves')
+
+  return {
+    fromMemberId,
+    toMemberId,
+    amount: asPositiveMinorUnits(body.amount, currency),
+    date: asDate(body.date),
+    notes: asOptionalTrimmedString(body.notes, 'Notes', MAX_NOTES_LENGTH),
+  }
+}
+
+export function parseExchangeRateBody(body: unknown, field = 'Exchange rate'): ExchangeRateInput {
+  if (!isPlainObject(body)) throw new Error(`${field} must be an object`)
+
+  const fromCurrency = asCurrency(body.fromCurrency)
+  const toCurrency = asCurrency(body.toCurrency)
+  for (const code of [fromCurrency, toCurrency]) {
+    if (!CURRENCY_OPTIONS.some((currency) => currency.code === code)) {
+      throw new Error(`${field} currency ${code} is not supported`)
+    }
+  }
+  if (fromCurrency === toCurrency) throw new Error(`${field} must convert between two different currencies`)
+
+  // Rates apply to whole days, so store them at midnight UTC
+  const date = asDate(body.date, `${field} date`)
+  date.setUTCHours(0, 0, 0, 0)
+
+  return { date, fromCurrency, toCurrency, rate: asExchangeRate(body.rate, `${field} rate`) }
+}
+
+export function asRecurrenceFrequency(value: unknown): RecurrenceFrequency {
+  if (!RECURRENCE_FREQUENCIES.some((option) => option.value === value)) {
+    throw new Error(
+      `Frequency must be one of: ${RECURRENCE_FREQUENCIES.map((option) => option.value).join(', ')}`
+    )
+  }
+  return value as RecurrenceFrequency
+}
+
+// The series includes occurrences on the end date itself, whatever their time of day
+export function asRecurrenceEndDate(value: unknown, startDate: Date): Date | null {
+  if (value === undefined || value === null || value === '') return null
+  const endDate = asDate(value, 'End date')
+  endDate.setUTCHours(23, 59, 59, 999)
+  if (endDate < startDate) throw new Error('End date must not be before the first occurrence')
+  return endDate
+}
+
+export function asOccurrenceLimit(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null
+  const limit = asFiniteNumber(value, 'Number of occurrences')
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RECURRENCE_OCCURRENCES) {
+    throw new Error(`Number of occurrences must be a whole number from 1 to ${MAX_RECURRENCE_OCCURRENCES}`)
+  }
+  return limit
+}
+
+export function parseRecurrenceBody(body: unknown, startDate: Date): RecurrenceInput {
+  if (!isPlainObject(body)) throw new Error('Recurrence must be an object')
+
+  return {
+    frequency: asRecurrenceFrequency(body.frequency),
+    endDate: asRecurrenceEndDate(body.endDate, startDate),
+    occurrenceLimit: asOccurrenceLimit(body.occurrenceLimit),
+  }
+}
+
+export function parseExpenseTemplateBody(body: unknown, currency: string): ExpenseTemplateInput {
+  if (!isPlainObject(body)) throw new Error('Request body must be an object')
+
+  const splitType = asTrimmedString(body.splitType, 'Split type', 16) as SplitType
+  if (!['even', 'shares', 'percent', 'adjustment'].includes(splitType)) {
+    throw new Error('Templates can only use even, shares, percent or adjustment splits')
+  }
+
+  if (!Array.isArray(body.payerIds) || body.payerIds.length === 0) {
+    throw new Error('At least one payer is required')
+  }
+  const payerIds = body.payerIds.map((payerId, index) =>
+    asTrimmedString(payerId, `Payer ${index + 1} ID`, 128)
+  )
+
+  if (!Array.isArray(body.splits) || body.splits.length === 0) {
+    throw new Error('At least one split is required')
+  }
+  const splits = body.splits.map((split, index): ExpenseTemplateSplitInput => {
+    if (!isPlainObject(split)) throw new Error(`Split ${index + 1} is invalid`)
+    const label = `Split ${index + 1}`
+
+    const shares =
+      split.shares === undefined || split.shares === null
+        ? null
+        : Math.trunc(asFiniteNumber(split.shares, `${label} shares`))
+    const percent =
+      split.percent === undefined || split.percent === null
+        ? null
+        : asFiniteNumber(split.percent, `${label} percent`)
+    const adjustment =
+      split.adjustment === undefined || split.adjustment === null || split.adjustment === ''
+        ? null
+        : asMinorUnits(split.adjustment, currency, `${label} adjustment`)
+
+    if (shares !== null && shares < 0) throw new Error(`${label} shares cannot be negative`)
+    if (percent !== null && percent < 0) throw new Error(`${label} percent cannot be negative`)
+
+    return {
+      memberId: asTrimmedString(split.memberId, `${label} member ID`, 128),
+      shares,
+      percent,
+      adjustment,
+    }
+  })
+
+  if (splitType === 'percent') {
+    const totalPercent = splits.reduce((sum, split) => sum + (split.percent ?? 0), 0)
+    if (Math.abs(totalPercent - 100) > 0.01) throw new Error('Split percentages must add up to 100')
+  }
+
+  return {
+    name: asTrimmedString(body.name, 'Template name'),
+    description: asOptionalTrimmedString(body.description, 'Description', MAX_DESCRIPTION_LENGTH),
+    categoryId: asOptionalId(body.categoryId, 'Category ID'),
+    paymentMethodId: asOptionalId(body.paymentMethodId, 'Payment method ID'),
+    payerIds,
+    splitType,
+    splits,
   }
 }
 
@@ -183,13 +589,16 @@ export function assertUniqueMembers(items: Array<{ memberId: string }>, label: s
   }
 }
 
-export async function validateExpenseReferences(input: ExpenseInput, projectId: string): Promise<void> {
+// Members, category and payment method of an expense, recurring expense or template
+type ExpenseReferences = Pick<ExpenseInput, 'categoryId' | 'paymentMethodId'> & {
+  payments: Array<{ memberId: string }>
+  splits: Array<{ memberId: string }>
+}
+
+export async function validateExpenseReferences(input: ExpenseReferences, projectId: string): Promise<void> {
   assertUniqueMembers(input.payments, 'Payments')
   assertUniqueMembers(input.splits, 'Splits')
 
-  const [project] = await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
-  if (!project) throw new Error('Project not found')
-
   const members = await db.select().from(schema.members).where(eq(schema.members.projectId, projectId))
   const memberIds = new Set(members.map((member) => member.id))
 
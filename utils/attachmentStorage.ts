@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { IncomingMessage } from 'http'
+import { db, schema } from '../db'
+import { asc, inArray } from 'drizzle-orm'
+import { ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE } from './attachments'
+
+type StoredAttachment = typeof schema.attachments.$inferSelect
+
+/**
+ * Directory holding attachment files: `attachments` next to the database file, so backing up
+ * the data directory keeps both together
+ */
+export function getAttachmentsDirectory(): string {
+  const databasePath = path.resolve(process.env.DATABASE_URL || 'kostos.db')
+  return path.join(path.dirname(databasePath), 'attachments')
+}
+
+export function getAttachmentPath(storedName: string): string {
+  return path.join(getAttachmentsDirectory(), storedName)
+}
+
+/**
+ * Detect the file type from its first bytes. The type the client declares is not trusted.
+ */
+export function detectAttachmentType(data: Buffer): string | null {
+  const startsWith = (bytes: number[], offset = 0) =>
+    bytes.every((byte, index) => data[offset + index] === byte)
+  const ascii = (start: number, end: number) => data.subarray(start, end).toString('latin1')
+
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (ascii(0, 4) === 'GIF8') return 'image/gif'
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp'
+  if (
+    ascii(4, 8) === 'ftyp' &&
+    ['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(ascii(8, 12))
+  ) {
+    return 'image/heic'
+  }
+  if (ascii(0, 5) === '%PDF-') return 'application/pdf'
+  return null
+}
+
+/**
+ * Read a raw request body, failing as soon as it grows past the attachment size limit
+ */
+export async function readAttachmentBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let size = 0
+
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_ATTACHMENT_SIZE) {
+      throw new Error(`Attachments must be ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB or smaller`)
+    }
+    chunks.push(chunk)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Write an attachment file under the project's directory and return its stored name
+ */
+export async function writeAttachmentFile(
+  projectId: string,
+  attachmentId: string,
+  mimeType: string,
+  data: Buffer
+): Promise<string> {
+  const extension = ATTACHMENT_TYPES.find((type) => type.mimeType === mimeType)?.extension ?? ''
+  const storedName = path.join(projectId, `${attachmentId}${extension}`)
+  const filePath = getAttachmentPath(storedName)
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, data)
+
+  return storedName
+}
+
+/**
+ * Remove attachment files from disk. Files that are already gone are ignored, so a failed
+ * cleanup can simply be repeated.
+ */
+export async function removeAttachmentFiles(storedNames: string[]): Promise<void> {
+  await Promise.all(storedNames.map((storedName) => fs.rm(getAttachmentPath(storedName), { force: true })))
+}
+
+/**
+ * Load the attachments of the given expenses, grouped by expense ID in upload order
+ */
+export async function getAttachmentsByExpense(
+  expenseIds: string[]
+): Promise<Map<string, StoredAttachment[]>> {
+  const attachmentsByExpense = new Map<string, StoredAttachment[]>()
+  if (expenseIds.length === 0) return attachmentsByExpense
+
+  const attachments = await db
+    .select()
+    .from(schema.attachments)
+    .where(inArray(schema.attachments.expenseId, expenseIds))
+    .orderBy(asc(schema.attachments.createdAt))
+
+  for (const attachment of attachments) {
+    attachmentsByExpense.set(attachment.expenseId, [
+      ...(attachmentsByExpense.get(attachment.expenseId) ?? []),
+      attachment,
+    ])
+  }
+
+  return attachmentsByExpense
+}
+
+/**
+ * API representation of an attachment; where it is stored on disk stays on the server
+ */
+export function toApiAttachment({ storedName, ...attachment }: StoredAttachment) {
+  return attachment
+}
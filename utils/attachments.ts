@@ -0,0 +1,62 @@
+// Limits and types of expense attachments, shared by the upload endpoint and the expense form.
+// Storage on disk lives in attachmentStorage.ts, which only runs on the server.
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+export const MAX_ATTACHMENTS_PER_EXPENSE = 10
+
+export const ATTACHMENT_TYPES: { mimeType: string; extension: string }[] = [
+  { mimeType: 'image/jpeg', extension: '.jpg' },
+  { mimeType: 'image/png', extension: '.png' },
+  { mimeType: 'image/gif', extension: '.gif' },
+  { mimeType: 'image/webp', extension: '.webp' },
+  { mimeType: 'image/heic', extension: '.heic' },
+  { mimeType: 'application/pdf', extension: '.pdf' },
+]
+
+// Value for the accept attribute of file inputs
+export const ATTACHMENT_ACCEPT = ATTACHMENT_TYPES.flatMap((type) => [type.mimeType, type.extension]).join(',')
+
+export interface Attachment {
+  id: string
+  expenseId: string
+  fileName: string
+  mimeType: string
+  size: number
+}
+
+// Whether browsers can show the attachment as an image; only Safari displays HEIC
+export function isImageAttachment(attachment: Pick<Attachment, 'mimeType'>): boolean {
+  return attachment.mimeType.startsWith('image/') && attachment.mimeType !== 'image/heic'
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Upload a file from the browser and attach it to an expense
+ */
+export async function uploadAttachment(expenseId: string, file: File): Promise<Attachment> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`)
+  }
+
+  const query = new URLSearchParams({ expenseId, fileName: file.name })
+  const response = await fetch(`/api/attachments?${query}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': file.type || 'application/octet-stream',
+    },
+    body: file,
+  })
+
+  const result = await response.json()
+
+  if (!result.success) {
+    throw new Error(result.error || `Failed to upload ${file.name}`)
+  }
+
+  return result.data
+}
@@ -0,0 +1,276 @@
+// Shared balance and debt-simplification logic used by the API and the project page.
+// All amounts are integer minor units of the project currency (cents, or whole yen for JPY)
+// so every client arrives at exactly the same numbers.
+
+import { allocateByLargestRemainder } from './splits'
+
+export type DebtSimplificationMode = 'greedy' | 'minimal' | 'none'
+
+export const DEBT_SIMPLIFICATION_OPTIONS: Array<{
+  value: DebtSimplificationMode
+  label: string
+  description: string
+}> = [
+  {
+    value: 'greedy',
+    label: 'Simplified',
+    description: 'Match the largest debts with the largest credits',
+  },
+  {
+    value: 'minimal',
+    label: 'Fewest transfers',
+    description: 'Find the smallest possible number of transfers',
+  },
+  {
+    value: 'none',
+    label: 'Direct debts',
+    description: 'Only pay back the people who paid for you',
+  },
+]
+
+// The exact search is exponential in the number of members with a non-zero balance,
+// so larger groups fall back to the greedy plan
+export const MAX_EXACT_SIMPLIFICATION_MEMBERS = 15
+
+export interface BalanceMember {
+  id: string
+}
+
+export interface BalanceExpense {
+  payments: Array<{ memberId: string; amount: number }>
+  splits: Array<{ memberId: string; owedAmount: number }>
+}
+
+export interface BalanceSettlement {
+  fromMemberId: string
+  toMemberId: string
+  amount: number
+}
+
+export interface MemberBalance {
+  memberId: string
+  paid: number
+  owed: number
+  settledOut: number
+  settledIn: number
+  net: number
+}
+
+export interface Transfer {
+  fromMemberId: string
+  toMemberId: string
+  amount: number
+}
+
+export interface BalanceSummary {
+  balances: MemberBalance[]
+  transfers: Transfer[]
+}
+
+/**
+ * Calculate what each member paid, owes and their net position.
+ * A positive net means the member is owed money, a negative net means they owe money.
+ */
+export function calculateMemberBalances(
+  members: BalanceMember[],
+  expenses: BalanceExpense[],
+  settlements: BalanceSettlement[] = []
+): MemberBalance[] {
+  const balances = new Map<string, MemberBalance>()
+
+  for (const member of members) {
+    balances.set(member.id, { memberId: member.id, paid: 0, owed: 0, settledOut: 0, settledIn: 0, net: 0 })
+  }
+
+  for (const expense of expenses) {
+    for (const payment of expense.payments) {
+      const balance = balances.get(payment.memberId)
+      if (balance) balance.paid += payment.amount
+    }
+
+    for (const split of expense.splits) {
+      const balance = balances.get(split.memberId)
+      if (balance) balance.owed += split.owedAmount
+    }
+  }
+
+  // Settlements move balance from the member who paid back to the member who received
+  for (const settlement of settlements) {
+    const from = balances.get(settlement.fromMemberId)
+    const to = balances.get(settlement.toMemberId)
+    if (from) from.settledOut += settlement.amount
+    if (to) to.settledIn += settlement.amount
+  }
+
+  return members.map((member) => {
+    const balance = balances.get(member.id)!
+    return { ...balance, net: balance.paid - balance.owed + balance.settledOut - balance.settledIn }
+  })
+}
+
+/**
+ * Produce a transfer plan that settles all balances by repeatedly matching
+ * the largest debtor with the largest creditor.
+ */
+export function simplifyDebts(balances: MemberBalance[]): Transfer[] {
+  return settleGroup(balances.filter((balance) => balance.net !== 0))
+}
+
+/**
+ * Produce a transfer plan with the fewest possible transfers.
+ *
+ * A group of n members whose balances sum to zero can always be settled with n - 1 transfers,
+ * so the plan is optimal when members are split into as many zero-sum subgroups as possible.
+ */
+export function minimizeTransfers(balances: MemberBalance[]): Transfer[] {
+  const open = balances.filter((balance) => balance.net !== 0)
+  if (open.length > MAX_EXACT_SIMPLIFICATION_MEMBERS) return settleGroup(open)
+
+  const size = 1 << open.length
+  const sums = new Int32Array(size)
+  const groups = new Int8Array(size)
+
+  // groups[mask] is the largest number of zero-sum subgroups that the members in mask can form
+  for (let mask = 1; mask < size; mask++) {
+    const lowest = 31 - Math.clz32(mask & -mask)
+    sums[mask] = sums[mask & (mask - 1)] + open[lowest].net
+
+    let best = 0
+    for (let i = 0; i < open.length; i++) {
+      if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)])
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0)
+  }
+
+  // Walk back from the full set, closing a subgroup every time the remaining members sum to zero
+  const transfers: Transfer[] = []
+  let current: MemberBalance[] = []
+  let mask = size - 1
+
+  while (mask > 0) {
+    const bonus = sums[mask] === 0 ? 1 : 0
+    let next = 0
+    for (let i = 0; i < open.length; i++) {
+      const bit = 1 << i
+      if (mask & bit && groups[mask ^ bit] + bonus === groups[mask]) {
+        next = i
+        break
+      }
+    }
+
+    current.push(open[next])
+    mask ^= 1 << next
+
+    if (sums[mask] === 0) {
+      transfers.push(...settleGroup(current))
+      current = []
+    }
+  }
+
+  return transfers
+}
+
+/**
+ * Derive direct debts from each expense: every member pays back the members who paid
+ * for their share, proportionally to what each payer contributed. Debts in both directions
+ * between the same two members are netted against each other.
+ */
+export function directDebts(
+  members: BalanceMember[],
+  expenses: BalanceExpense[],
+  settlements: BalanceSettlement[] = []
+): Transfer[] {
+  const memberIds = new Set(members.map((member) => member.id))
+  const debts = new Map<string, number>()
+  const addDebt = (fromMemberId: string, toMemberId: string, amount: number) => {
+    if (fromMemberId === toMemberId || !memberIds.has(fromMemberId) || !memberIds.has(toMemberId)) return
+    const key = `${fromMemberId}\u0000${toMemberId}`
+    debts.set(key, (debts.get(key) ?? 0) + amount)
+  }
+
+  for (const expense of expenses) {
+    const payments = expense.payments.filter((payment) => payment.amount > 0)
+    if (payments.length === 0) continue
+
+    for (const split of expense.splits) {
+      const shares = allocateByLargestRemainder(
+        split.owedAmount,
+        payments.map((payment) => payment.amount)
+      )
+      payments.forEach((payment, index) => addDebt(split.memberId, payment.memberId, shares[index]))
+    }
+  }
+
+  // A settlement pays down the debt between the two members involved
+  for (const settlement of settlements) {
+    addDebt(settlement.fromMemberId, settlement.toMemberId, -settlement.amount)
+  }
+
+  const transfers: Transfer[] = []
+  const ids = members.map((member) => member.id)
+
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const net = (debts.get(`${ids[i]}\u0000${ids[j]}`) ?? 0) - (debts.get(`${ids[j]}\u0000${ids[i]}`) ?? 0)
+      if (net > 0) transfers.push({ fromMemberId: ids[i], toMemberId: ids[j], amount: net })
+      if (net < 0) transfers.push({ fromMemberId: ids[j], toMemberId: ids[i], amount: -net })
+    }
+  }
+
+  return transfers.sort((a, b) => b.amount - a.amount)
+}
+
+/**
+ * Calculate member balances together with the transfers that settle them.
+ */
+export function summarizeBalances(
+  members: BalanceMember[],
+  expenses: BalanceExpense[],
+  settlements: BalanceSettlement[] = [],
+  mode: DebtSimplificationMode = 'greedy'
+): BalanceSummary {
+  const balances = calculateMemberBalances(members, expenses, settlements)
+
+  switch (mode) {
+    case 'minimal':
+      return { balances, transfers: minimizeTransfers(balances) }
+    case 'none':
+      return { balances, transfers: directDebts(members, expenses, settlements) }
+    default:
+      return { balances, transfers: simplifyDebts(balances) }
+  }
+}
+
+// Settle a set of balances by repeatedly matching the largest debtor with the largest creditor
+function settleGroup(balances: MemberBalance[]): Transfer[] {
+  const debtors = balances
+    .filter((balance) => balance.net < 0)
+    .map((balance) => ({ id: balance.memberId, amount: -balance.net }))
+  const creditors = balances
+    .filter((balance) => balance.net > 0)
+    .map((balance) => ({ id: balance.memberId, amount: balance.net }))
+
+  // Sort by amount (descending), falling back to member ID so ties are deterministic
+  const byAmount = (a: { id: string; amount: number }, b: { id: string; amount: number }) =>
+    b.amount - a.amount || a.id.localeCompare(b.id)
+  debtors.sort(byAmount)
+  creditors.sort(byAmount)
+
+  const transfers: Transfer[] = []
+
+  while (debtors.length > 0 && creditors.length > 0) {
+    const debtor = debtors[0]
+    const creditor = creditors[0]
+    const amount = Math.min(debtor.amount, creditor.amount)
+
+    transfers.push({ fromMemberId: debtor.id, toMemberId: creditor.id, amount })
+
+    debtor.amount -= amount
+    creditor.amount -= amount
+
+    if (debtor.amount === 0) debtors.shift()
+    if (creditor.amount === 0) creditors.shift()
+  }
+
+  return transfers
+}
@@ -0,0 +1,61 @@
+// CSV reading and writing for imports and exports. Cells follow RFC 4180: fields holding a comma,
+// quote or line break are quoted, and quotes inside them are doubled.
+
+export type CsvCell = string | number | boolean | null | undefined
+
+function formatCsvCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) return ''
+  const text = String(cell)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Format rows as CSV text, one line per row with CRLF line endings
+ */
+export function formatCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(formatCsvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+/**
+ * Parse CSV text into rows of cells. Quoted cells may hold delimiters, quotes and line breaks;
+ * blank lines are left out. Some spreadsheets separate cells with semicolons or tabs instead.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  // A byte order mark would otherwise end up in the first header
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char !== '"') {
+        cell += char
+      } else if (input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else {
+        inQuotes = false
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      rows.push([...row, cell])
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  rows.push([...row, cell])
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''))
+}
@@ -0,0 +1,141 @@
+import { MemberBalance } from './balances'
+import { fromMinorUnits } from './currency'
+import { CsvCell, formatCsv } from './csv'
+
+// Spreadsheet-friendly CSV export of a project's expenses, written as three tables: the expenses
+// with one owed column per member, every payment and split as its own row, and the balances.
+// Amounts are decimal amounts in the project currency.
+
+export const CSV_EXPORT_TABLES = ['expenses', 'payments-and-splits', 'balances'] as const
+
+export type CsvExportTable = (typeof CSV_EXPORT_TABLES)[number]
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+/**
+ * Keep user-entered text from being run as a formula when the file is opened in a spreadsheet,
+ * by starting it with an apostrophe, which spreadsheets read as "this cell is text"
+ */
+function asSpreadsheetText(text: string): string {
+  return FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix)) ? `'${text}` : text
+}
+
+export interface CsvExportSource {
+  currency: string
+  members: { id: string; name: string }[]
+  categories: { id: string; name: string }[]
+  paymentMethods: { id: string; name: string }[]
+  expenses: {
+    id: string
+    description: string
+    amount: number
+    originalCurrency: string | null
+    originalAmount: number | null
+    exchangeRate: number | null
+    date: Date | null
+    splitType: string
+    categoryId: string | null
+    paymentMethodId: string | null
+    notes: string | null
+    payments: { memberId: string; amount: number }[]
+    splits: { memberId: string; owedAmount: number }[]
+  }[]
+  balances: MemberBalance[]
+}
+
+/**
+ * Format the tables of a CSV export, keyed by table name
+ */
+export function toCsvExportTables(source: CsvExportSource): Record<CsvExportTable, string> {
+  const { currency } = source
+  const money = (units: number) => fromMinorUnits(units, currency)
+  const memberName = (memberId: string) =>
+    asSpreadsheetText(source.members.find((member) => member.id === memberId)?.name ?? memberId)
+  const day = (date: Date | null) => (date ? date.toISOString().split('T')[0] : '')
+  // Oldest expenses first, as they would be entered in a spreadsheet
+  const expenses = [...source.expenses].sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0))
+
+  const expenseRows: CsvCell[][] = [
+    [
+      'Date',
+      'Description',
+      'Category',
+      'Payment method',
+      'Amount',
+      'Currency',
+      'Original amount',
+      'Original currency',
+      'Exchange rate',
+      'Split type',
+      'Paid by',
+      'Notes',
+      ...source.members.map((member) => asSpreadsheetText(member.name)),
+    ],
+    ...expenses.map((expense) => [
+      day(expense.date),
+      asSpreadsheetText(expense.description),
+      asSpreadsheetText(source.categories.find((category) => category.id === expense.categoryId)?.name ?? ''),
+      asSpreadsheetText(
+        source.paymentMethods.find((method) => method.id === expense.paymentMethodId)?.name ?? ''
+      ),
+      money(expense.amount),
+      currency,
+      expense.originalCurrency && expense.originalAmount !== null
+        ? fromMinorUnits(expense.originalAmount, expense.originalCurrency)
+        : '',
+      expense.originalCurrency ?? '',
+      expense.exchangeRate ?? '',
+      expense.splitType,
+      expense.payments.map((payment) => memberName(payment.memberId)).join(', '),
+      asSpreadsheetText(expense.notes ?? ''),
+      // What each member owes of the expense
+      ...source.members.map((member) =>
+        money(
+          expense.splits.reduce(
+            (sum, split) => (split.memberId === member.id ? sum + split.owedAmount : sum),
+            0
+          )
+        )
+      ),
+    ]),
+  ]
+
+  const entryRows: CsvCell[][] = [
+    ['Expense ID', 'Date', 'Description', 'Member', 'Type', 'Amount', 'Currency'],
+    ...expenses.flatMap((expense) => {
+      const entry = (memberId: string, type: 'paid' | 'owed', amount: number): CsvCell[] => [
+        expense.id,
+        day(expense.date),
+        asSpreadsheetText(expense.description),
+        memberName(memberId),
+        type,
+        money(amount),
+        currency,
+      ]
+      return [
+        ...expense.payments.map((payment) => entry(payment.memberId, 'paid', payment.amount)),
+        ...expense.splits.map((split) => entry(split.memberId, 'owed', split.owedAmount)),
+      ]
+    }),
+  ]
+
+  const balanceRows: CsvCell[][] = [
+    ['Member', 'Paid', 'Owed', 'Settlements paid', 'Settlements received', 'Balance', 'Currency'],
+    ...source.balances.map((balance) => [
+      memberName(balance.memberId),
+      money(balance.paid),
+      money(balance.owed),
+      money(balance.settledOut),
+      money(balance.settledIn),
+      money(balance.net),
+      currency,
+    ]),
+  ]
+
+  return {
+    expenses: formatCsv(expenseRows),
+    'payments-and-splits': formatCsv(entryRows),
+    balances: formatCsv(balanceRows),
+  }
+}
@@ -0,0 +1,116 @@
+// Column mapping and cell parsing for importing expenses from any CSV file into a project. The
+// import wizard reads the header to let the user map columns; the import route reads the rows.
+
+export type CsvImportField = 'description' | 'amount' | 'date' | 'category' | 'payer' | 'participants'
+
+// Column index of each field; optional fields may be left unmapped
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>
+
+export const CSV_IMPORT_FIELDS: { field: CsvImportField; label: string; required: boolean }[] = [
+  { field: 'description', label: 'Description', required: true },
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'date', label: 'Date', required: true },
+  { field: 'category', label: 'Category', required: false },
+  { field: 'payer', label: 'Paid by', required: true },
+  { field: 'participants', label: 'Split between', required: false },
+]
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY'
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY']
+
+export type CsvDecimalSeparator = '.' | ','
+
+export type CsvDelimiter = ',' | ';' | '\t'
+
+// Header names recognized for each field, lowercased
+const FIELD_HEADERS: Record<CsvImportField, string[]> = {
+  description: ['description', 'title', 'name', 'memo', 'details'],
+  amount: ['amount', 'cost', 'price', 'total', 'value'],
+  date: ['date', 'day', 'expense date'],
+  category: ['category', 'type'],
+  payer: ['payer', 'paid by', 'paidby', 'who paid'],
+  participants: ['participants', 'split between', 'split', 'for', 'members', 'paid for'],
+}
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export function guessCsvColumnMapping(header: string[]): CsvColumnMapping {
+  const names = header.map((name) => name.trim().toLowerCase())
+  const mapping: CsvColumnMapping = {}
+
+  for (const { field } of CSV_IMPORT_FIELDS) {
+    const index = names.findIndex((name) => FIELD_HEADERS[field].includes(name))
+    if (index !== -1 && !Object.values(mapping).includes(index)) mapping[field] = index
+  }
+
+  return mapping
+}
+
+/**
+ * Guess the delimiter of a CSV file from its first line. Files using a decimal comma are
+ * usually separated by semicolons.
+ */
+export function guessCsvDelimiter(text: string): CsvDelimiter {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  const count = (delimiter: string) => firstLine.split(delimiter).length - 1
+  if (count('\t') > count(',') && count('\t') > count(';')) return '\t'
+  return count(';') > count(',') ? ';' : ','
+}
+
+/**
+ * Read a decimal amount written with the given decimal separator. Currency symbols, spaces and
+ * thousands separators are ignored.
+ */
+export function parseCsvAmount(text: string, decimalSeparator: CsvDecimalSeparator): number {
+  const thousandsSeparator = decimalSeparator === ',' ? '.' : ','
+  const cleaned = text
+    .trim()
+    .replace(/[^\d.,+-]/g, '')
+    .split(thousandsSeparator)
+    .join('')
+    .replace(decimalSeparator, '.')
+
+  const amount = cleaned ? Number(cleaned) : NaN
+  if (!Number.isFinite(amount)) throw new Error(`Amount "${text.trim()}" is not a number`)
+  return amount
+}
+
+/**
+ * Read a date written in the given format as a YYYY-MM-DD day
+ */
+export function parseCsvDate(text: string, format: CsvDateFormat): string {
+  const parts = text.trim().split(/[-/.]/)
+  const [year, month, day] =
+    format === 'YYYY-MM-DD'
+      ? parts
+      : format === 'MM/DD/YYYY'
+        ? [parts[2], parts[0], parts[1]]
+        : [parts[2], parts[1], parts[0]]
+
+  const invalid = () => new Error(`Date "${text.trim()}" is not in the ${format} format`)
+  if (
+    parts.length !== 3 ||
+    !/^\d{4}$/.test(year ?? '') ||
+    !/^\d{1,2}$/.test(month ?? '') ||
+    !/^\d{1,2}$/.test(day ?? '')
+  ) {
+    throw invalid()
+  }
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)))
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) throw invalid()
+
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Split a cell listing member names, separated by commas, semicolons or pipes
+ */
+export function splitCsvNames(text: string): string[] {
+  return text
+    .split(/[,;|]/)
+    .map((name) => name.trim())
+    .filter(Boolean)
+}
@@ -3,30 +3,33 @@ export interface CurrencyOption {
   code: string
   symbol: string
   name: string
+  decimals: number // Minor-unit exponent (ISO 4217): 2 for cents, 0 for JPY, 3 for KWD
 }
 
 export const CURRENCY_OPTIONS: CurrencyOption[] = [
-  { code: 'USD', symbol: '$', name: 'US Dollar' },
-  { code: 'EUR', symbol: '€', name: 'Euro' },
-  { code: 'GBP', symbol: '£', name: 'British Pound' },
-  { code: 'RON', symbol: 'R', name: 'Romanian Leu' },
-  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
-  { code: 'CNY', symbol: '¥', name: 'Chinese Yuan' },
-  { code: 'RUB', symbol: '₽', name: 'Russian Ruble' },
-  { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
-  { code: 'BRL', symbol: 'R$', name: 'Brazilian Real' },
-  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
-  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
-  { code: 'DKK', symbol: 'kr', name: 'Danish Krone' },
-  { code: 'CHF', symbol: 'CHF', name: 'Swiss Franc' },
-  { code: 'SEK', symbol: 'kr', name: 'Swedish Krona' },
-  { code: 'NOK', symbol: 'kr', name: 'Norwegian Krone' },
-  { code: 'KRW', symbol: '₩', name: 'South Korean Won' },
-  { code: 'MXN', symbol: '$', name: 'Mexican Peso' },
-  { code: 'SGD', symbol: '$', name: 'Singapore Dollar' },
-  { code: 'HKD', symbol: '$', name: 'Hong Kong Dollar' },
-  { code: 'NZD', symbol: '$', name: 'New Zealand Dollar' },
-  { code: 'ZAR', symbol: 'R', name: 'South African Rand' },
+  { code: 'USD', symbol: '$', name: 'US Dollar', decimals: 2 },
+  { code: 'EUR', symbol: '€', name: 'Euro', decimals: 2 },
+  { code: 'GBP', symbol: '£', name: 'British Pound', decimals: 2 },
+  { code: 'RON', symbol: 'R', name: 'Romanian Leu', decimals: 2 },
+  { code: 'JPY', symbol: '¥', name: 'Japanese Yen', decimals: 0 },
+  { code: 'CNY', symbol: '¥', name: 'Chinese Yuan', decimals: 2 },
+  { code: 'RUB', symbol: '₽', name: 'Russian Ruble', decimals: 2 },
+  { code: 'INR', symbol: '₹', name: 'Indian Rupee', decimals: 2 },
+  { code: 'BRL', symbol: 'R$', name: 'Brazilian Real', decimals: 2 },
+  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar', decimals: 2 },
+  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar', decimals: 2 },
+  { code: 'DKK', symbol: 'kr', name: 'Danish Krone', decimals: 2 },
+  { code: 'CHF', symbol: 'CHF', name: 'Swiss Franc', decimals: 2 },
+  { code: 'SEK', symbol: 'kr', name: 'Swedish Krona', decimals: 2 },
+  { code: 'NOK', symbol: 'kr', name: 'Norwegian Krone', decimals: 2 },
+  { code: 'KRW', symbol: '₩', name: 'South Korean Won', decimals: 0 },
+  { code: 'MXN', symbol: '$', name: 'Mexican Peso', decimals: 2 },
+  { code: 'SGD', symbol: '$', name: 'Singapore Dollar', decimals: 2 },
+  { code: 'HKD', symbol: '$', name: 'Hong Kong Dollar', decimals: 2 },
+  { code: 'NZD', symbol: '$', name: 'New Zealand Dollar', decimals: 2 },
+  { code: 'ZAR', symbol: 'R', name: 'South African Rand', decimals: 2 },
+  { code: 'KWD', symbol: 'KD', name: 'Kuwaiti Dinar', decimals: 3 },
+  { code: 'BHD', symbol: 'BD', name: 'Bahraini Dinar', decimals: 3 },
 ]
 
 /**
@@ -48,17 +51,71 @@ export function getCurrencyByCode(codeOrSymbol: string): CurrencyOption {
 }
 
 /**
- * Format a number as currency with the specified currency code
+ * Amount of an expense in the currency it was originally paid in
  */
-export function formatCurrency(value: number, currencyCode: string): string {
+export interface OriginalAmount {
+  amount?: number | null
+  currency?: string | null
+}
+
+/**
+ * Format a number as currency with the specified currency code.
+ * When an original amount in another currency is given, it is shown alongside, e.g. "€12.00 (¥1,900.00)"
+ */
+export function formatCurrency(
+  value: number,
+  currencyCode: string,
+  original?: OriginalAmount | null
+): string {
   const currency = getCurrencyByCode(currencyCode)
 
-  return new Intl.NumberFormat('en-US', {
+  const formatted = new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: currency.code,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    minimumFractionDigits: currency.decimals,
+    maximumFractionDigits: currency.decimals,
   }).format(value)
+
+  if (!original?.currency || original.amount === undefined || original.amount === null) return formatted
+  if (original.currency === currency.code) return formatted
+
+  return `${formatted} (${formatCurrency(original.amount, original.currency)})`
+}
+
+/**
+ * Get the number of decimal places (minor-unit exponent) used by a currency
+ */
+export function getCurrencyDecimals(currencyCode: string): number {
+  return getCurrencyByCode(currencyCode).decimals
+}
+
+/**
+ * Get the smallest amount that can be expressed in a currency, e.g. 0.01 for USD or 1 for JPY
+ */
+export function getMinorUnit(currencyCode: string): number {
+  return 1 / 10 ** getCurrencyDecimals(currencyCode)
+}
+
+/**
+ * Convert a decimal amount to integer minor units of the currency (cents for USD, yen for JPY)
+ */
+export function toMinorUnits(value: number, currencyCode: string): number {
+  const factor = 10 ** getCurrencyDecimals(currencyCode)
+  return Math.round((value + Number.EPSILON) * factor)
+}
+
+/**
+ * Convert integer minor units of the currency back to a decimal amount
+ */
+export function fromMinorUnits(units: number, currencyCode: string): number {
+  return units / 10 ** getCurrencyDecimals(currencyCode)
+}
+
+/**
+ * Round a decimal amount to the precision of the currency
+ */
+export function roundToCurrency(value: number, currencyCode: string): number {
+  return fromMinorUnits(toMinorUnits(value, currencyCode), currencyCode)
 }
 
 /**
@@ -0,0 +1,175 @@
+import { CURRENCY_OPTIONS } from './currency'
+
+// Exchange-rate table parsing and lookup, shared by the API and the expense form.
+// A rate means 1 unit of fromCurrency = rate units of toCurrency.
+
+export interface ExchangeRateEntry {
+  date: string // YYYY-MM-DD
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+}
+
+export interface ExchangeRateMatch {
+  rate: number
+  date: string
+}
+
+const SUPPORTED_CODES = new Set(CURRENCY_OPTIONS.map((currency) => currency.code))
+
+/**
+ * Check whether a currency code is one of the supported CURRENCY_OPTIONS
+ */
+export function isSupportedCurrency(code: string): boolean {
+  return SUPPORTED_CODES.has(code)
+}
+
+/**
+ * Normalize a date (Date, timestamp or date string) to a YYYY-MM-DD day key
+ */
+export function toDateKey(value: string | number | Date): string {
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid date: ${value}`)
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Parse a CSV file of exchange rates.
+ * Columns are date, from, to, rate; a header row may name them in any order.
+ */
+export function parseExchangeRatesCsv(text: string): ExchangeRateEntry[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line !== '')
+  if (lines.length === 0) return []
+
+  const delimiter = lines[0].includes(';') ? ';' : ','
+  const splitLine = (line: string) => line.split(delimiter).map((cell) => cell.trim().replace(/^"|"$/g, ''))
+
+  let columns = { date: 0, from: 1, to: 2, rate: 3 }
+  const header = splitLine(lines[0]).map((cell) => cell.toLowerCase())
+  const hasHeader = header.includes('rate')
+
+  if (hasHeader) {
+    const find = (...names: string[]) => header.findIndex((cell) => names.includes(cell))
+    columns = {
+      date: find('date', 'day'),
+      from: find('from', 'from_currency', 'fromcurrency', 'base'),
+      to: find('to', 'to_currency', 'tocurrency', 'quote', 'currency'),
+      rate: find('rate'),
+    }
+    if (Object.values(columns).some((index) => index === -1)) {
+      throw new Error('CSV header must contain date, from, to and rate columns')
+    }
+  }
+
+  const entries: ExchangeRateEntry[] = []
+  const rows = hasHeader ? lines.slice(1) : lines
+
+  rows.forEach((line, index) => {
+    const lineNumber = index + (hasHeader ? 2 : 1)
+    const cells = splitLine(line)
+    const fromCurrency = (cells[columns.from] || '').toUpperCase()
+    const toCurrency = (cells[columns.to] || '').toUpperCase()
+    const rate = Number(cells[columns.rate])
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(cells[columns.date] || '')) {
+      throw new Error(`Line ${lineNumber}: date must be in YYYY-MM-DD format`)
+    }
+    if (!isSupportedCurrency(fromCurrency) || !isSupportedCurrency(toCurrency)) {
+      throw new Error(`Line ${lineNumber}: unsupported currency`)
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new Error(`Line ${lineNumber}: rate must be a positive number`)
+    }
+
+    entries.push({ date: cells[columns.date], fromCurrency, toCurrency, rate })
+  })
+
+  return entries
+}
+
+/**
+ * Parse an ECB-style XML file (eurofxref-daily.xml or eurofxref-hist.xml).
+ * ECB rates are quoted against the euro, so every entry is EUR -> currency.
+ * Currencies that are not in CURRENCY_OPTIONS are skipped.
+ */
+export function parseEcbXml(text: string): ExchangeRateEntry[] {
+  const entries: ExchangeRateEntry[] = []
+  const dayPattern = /<Cube\s+time=['"](\d{4}-\d{2}-\d{2})['"]\s*>([\s\S]*?)<\/Cube>/g
+  const ratePattern = /<Cube\s+currency=['"]([A-Z]{3})['"]\s+rate=['"]([0-9.]+)['"]\s*\/>/g
+
+  for (const [, date, body] of text.matchAll(dayPattern)) {
+    for (const [, currency, rawRate] of body.matchAll(ratePattern)) {
+      const rate = Number(rawRate)
+      if (!isSupportedCurrency(currency) || !Number.isFinite(rate) || rate <= 0) continue
+      entries.push({ date, fromCurrency: 'EUR', toCurrency: currency, rate })
+    }
+  }
+
+  if (entries.length === 0) throw new Error('No exchange rates found in the XML file')
+  return entries
+}
+
+/**
+ * Parse an exchange-rate file, detecting XML or CSV from its contents
+ */
+export function parseExchangeRateFile(text: string): ExchangeRateEntry[] {
+  return text.trimStart().startsWith('<') ? parseEcbXml(text) : parseExchangeRatesCsv(text)
+}
+
+/**
+ * Find the rate to convert fromCurrency into toCurrency on the given date, using the
+ * nearest rate on or before that date. Inverse rates are used when only the opposite
+ * direction is known, and a single intermediate currency (e.g. EUR for ECB data) is
+ * used when there is no rate between the two currencies.
+ */
+export function findExchangeRate(
+  rates: Array<{ date: string | number | Date; fromCurrency: string; toCurrency: string; rate: number }>,
+  fromCurrency: string,
+  toCurrency: string,
+  date: string | number | Date
+): ExchangeRateMatch | null {
+  if (fromCurrency === toCurrency) return { rate: 1, date: toDateKey(date) }
+
+  const dateKey = toDateKey(date)
+  const entries = rates.map((rate) => ({ ...rate, date: toDateKey(rate.date) }))
+
+  const direct = (from: string, to: string): ExchangeRateMatch | null => {
+    let best: ExchangeRateMatch | null = null
+    for (const entry of entries) {
+      if (entry.date > dateKey || (best && entry.date <= best.date)) continue
+      if (entry.fromCurrency === from && entry.toCurrency === to) {
+        best = { rate: entry.rate, date: entry.date }
+      } else if (entry.fromCurrency === to && entry.toCurrency === from) {
+        best = { rate: 1 / entry.rate, date: entry.date }
+      }
+    }
+    return best
+  }
+
+  const match = direct(fromCurrency, toCurrency)
+  if (match) return { ...match, rate: roundRate(match.rate) }
+
+  const intermediates = new Set(entries.flatMap((entry) => [entry.fromCurrency, entry.toCurrency]))
+  let best: ExchangeRateMatch | null = null
+
+  for (const currency of intermediates) {
+    if (currency === fromCurrency || currency === toCurrency) continue
+    const first = direct(fromCurrency, currency)
+    const second = first && direct(currency, toCurrency)
+    if (!first || !second) continue
+
+    const olderDate = first.date < second.date ? first.date : second.date
+    if (!best || olderDate > best.date) best = { rate: first.rate * second.rate, date: olderDate }
+  }
+
+  return best ? { ...best, rate: roundRate(best.rate) } : null
+}
+
+// Keep derived rates readable; six significant decimals is more than any receipt needs
+function roundRate(rate: number): number {
+  return Number(rate.toPrecision(6))
+}
@@ -0,0 +1,62 @@
+import { NextApiRequest } from 'next'
+import { schema } from '../db'
+import { SQL, and, eq, gte, isNull, lte } from 'drizzle-orm'
+
+// Expense filters shared by the statistics and the CSV export. They are read from the query
+// string: startDate and endDate (both days included), categoryId, paymentMethodId and memberId.
+
+export interface ExpenseFilters {
+  startDate?: Date
+  endDate?: Date
+  categoryId?: string
+  paymentMethodId?: string
+  memberId?: string // Only expenses the member paid for or has a share in
+}
+
+export function parseExpenseFilters(query: NextApiRequest['query']): ExpenseFilters {
+  const { startDate, endDate, memberId, categoryId, paymentMethodId } = query
+  const filters: ExpenseFilters = {}
+
+  if (startDate && typeof startDate === 'string') {
+    filters.startDate = new Date(startDate)
+    if (isNaN(filters.startDate.getTime())) throw new Error('Invalid start date format')
+  }
+
+  if (endDate && typeof endDate === 'string') {
+    filters.endDate = new Date(endDate)
+    if (isNaN(filters.endDate.getTime())) throw new Error('Invalid end date format')
+    // Set end date to end of day
+    filters.endDate.setHours(23, 59, 59, 999)
+  }
+
+  if (typeof memberId === 'string') filters.memberId = memberId
+  if (typeof categoryId === 'string') filters.categoryId = categoryId
+  if (typeof paymentMethodId === 'string') filters.paymentMethodId = paymentMethodId
+
+  return filters
+}
+
+/**
+ * Query condition for the expenses of a project outside the trash that match the filters. The
+ * member filter needs the payments and splits, so it is applied with expenseInvolvesMember.
+ */
+export function getExpenseFilterCondition(projectId: string, filters: ExpenseFilters): SQL | undefined {
+  const conditions = [eq(schema.expenses.projectId, projectId), isNull(schema.expenses.deletedAt)]
+
+  if (filters.startDate) conditions.push(gte(schema.expenses.date, filters.startDate))
+  if (filters.endDate) conditions.push(lte(schema.expenses.date, filters.endDate))
+  if (filters.categoryId) conditions.push(eq(schema.expenses.categoryId, filters.categoryId))
+  if (filters.paymentMethodId) conditions.push(eq(schema.expenses.paymentMethodId, filters.paymentMethodId))
+
+  return and(...conditions)
+}
+
+export function expenseInvolvesMember(
+  expense: { payments: { memberId: string }[]; splits: { memberId: string }[] },
+  memberId: string
+): boolean {
+  return (
+    expense.payments.some((payment) => payment.memberId === memberId) ||
+    expense.splits.some((split) => split.memberId === memberId)
+  )
+}
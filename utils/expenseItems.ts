@@ -0,0 +1,52 @@
+import { db, schema } from '../db'
+import { asc, inArray } from 'drizzle-orm'
+
+export interface ExpenseItemWithMembers {
+  id: string
+  expenseId: string
+  description: string
+  amount: number
+  position: number
+  memberIds: string[]
+}
+
+/**
+ * Load the line items of itemized expenses with the members sharing each item,
+ * grouped by expense ID in the order they were entered
+ */
+export async function getExpenseItemsByExpense(
+  expenseIds: string[]
+): Promise<Map<string, ExpenseItemWithMembers[]>> {
+  const itemsByExpense = new Map<string, ExpenseItemWithMembers[]>()
+  if (expenseIds.length === 0) return itemsByExpense
+
+  const items = await db
+    .select()
+    .from(schema.expenseItems)
+    .where(inArray(schema.expenseItems.expenseId, expenseIds))
+    .orderBy(asc(schema.expenseItems.position))
+  if (items.length === 0) return itemsByExpense
+
+  const itemIds = items.map((item) => item.id)
+  const itemMembers = await db
+    .select()
+    .from(schema.expenseItemMembers)
+    .where(inArray(schema.expenseItemMembers.itemId, itemIds))
+
+  const memberIdsByItem = new Map<string, string[]>()
+  for (const itemMember of itemMembers) {
+    memberIdsByItem.set(itemMember.itemId, [
+      ...(memberIdsByItem.get(itemMember.itemId) ?? []),
+      itemMember.memberId,
+    ])
+  }
+
+  for (const item of items) {
+    itemsByExpense.set(item.expenseId, [
+      ...(itemsByExpense.get(item.expenseId) ?? []),
+      { ...item, memberIds: memberIdsByItem.get(item.id) ?? [] },
+    ])
+  }
+
+  return itemsByExpense
+}
@@ -0,0 +1,183 @@
+import { db, schema } from '../db'
+import { ExpenseInput } from './apiValidation'
+import { generateId } from './id'
+import { RecurringExpenseTemplate } from './recurrence'
+import { asc, eq, inArray } from 'drizzle-orm'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * Insert the payments, splits and line items of an expense. Runs inside the caller's transaction
+ * so the expense is never stored without them.
+ */
+export function insertExpenseDetails(
+  tx: Transaction,
+  expenseId: string,
+  input: RecurringExpenseTemplate
+): void {
+  for (const payment of input.payments) {
+    tx.insert(schema.payments)
+      .values({
+        id: generateId(),
+        expenseId,
+        memberId: payment.memberId,
+        amount: payment.amount,
+      })
+      .run()
+  }
+
+  for (const split of input.splits) {
+    tx.insert(schema.splits)
+      .values({
+        id: generateId(),
+        expenseId,
+        memberId: split.memberId,
+        amount: split.amount,
+        shares: split.shares,
+        percent: split.percent,
+        adjustment: split.adjustment,
+        owedAmount: split.owedAmount,
+      })
+      .run()
+  }
+
+  input.items.forEach((item, position) => {
+    const itemId = generateId()
+    tx.insert(schema.expenseItems)
+      .values({
+        id: itemId,
+        expenseId,
+        description: item.description,
+        amount: item.amount,
+        position,
+      })
+      .run()
+
+    for (const memberId of item.memberIds) {
+      tx.insert(schema.expenseItemMembers).values({ id: generateId(), itemId, memberId }).run()
+    }
+  })
+}
+
+/**
+ * Insert a new expense with its payments, splits and line items
+ */
+export function insertExpense(
+  tx: Transaction,
+  expenseId: string,
+  projectId: string,
+  input: ExpenseInput
+): void {
+  tx.insert(schema.expenses)
+    .values({
+      id: expenseId,
+      projectId,
+      description: input.description,
+      amount: input.amount,
+      originalCurrency: input.originalCurrency,
+      originalAmount: input.originalAmount,
+      exchangeRate: input.exchangeRate,
+      date: input.date,
+      splitType: input.splitType,
+      categoryId: input.categoryId,
+      paymentMethodId: input.paymentMethodId,
+      notes: input.notes,
+      taxAmount: input.taxAmount,
+      tipAmount: input.tipAmount,
+      createdAt: new Date(),
+    })
+    .run()
+
+  insertExpenseDetails(tx, expenseId, input)
+}
+
+/**
+ * Overwrite an expense and replace its payments, splits and line items with those of the input
+ */
+export function replaceExpense(tx: Transaction, expenseId: string, input: ExpenseInput): void {
+  tx.update(schema.expenses)
+    .set({
+      description: input.description,
+      amount: input.amount,
+      originalCurrency: input.originalCurrency,
+      originalAmount: input.originalAmount,
+      exchangeRate: input.exchangeRate,
+      date: input.date,
+      splitType: input.splitType,
+      categoryId: input.categoryId,
+      paymentMethodId: input.paymentMethodId,
+      notes: input.notes,
+      taxAmount: input.taxAmount,
+      tipAmount: input.tipAmount,
+    })
+    .where(eq(schema.expenses.id, expenseId))
+    .run()
+
+  tx.delete(schema.payments).where(eq(schema.payments.expenseId, expenseId)).run()
+  tx.delete(schema.splits).where(eq(schema.splits.expenseId, expenseId)).run()
+  // Item members are removed with their items
+  tx.delete(schema.expenseItems).where(eq(schema.expenseItems.expenseId, expenseId)).run()
+
+  insertExpenseDetails(tx, expenseId, input)
+}
+
+// An expense with its payments, splits and items, as recorded in the activity log. It has the
+// shape of a parsed expense, so it can be stored again with replaceExpense.
+export type ExpenseSnapshot = ExpenseInput & { id: string }
+
+/**
+ * Read an expense with its details inside a transaction, or null when it does not exist
+ */
+export function readExpenseSnapshot(tx: Transaction, expenseId: string): ExpenseSnapshot | null {
+  const expense = tx.select().from(schema.expenses).where(eq(schema.expenses.id, expenseId)).get()
+  if (!expense) return null
+
+  const payments = tx.select().from(schema.payments).where(eq(schema.payments.expenseId, expenseId)).all()
+  const splits = tx.select().from(schema.splits).where(eq(schema.splits.expenseId, expenseId)).all()
+  const items = tx
+    .select()
+    .from(schema.expenseItems)
+    .where(eq(schema.expenseItems.expenseId, expenseId))
+    .orderBy(asc(schema.expenseItems.position))
+    .all()
+  const itemIds = items.map((item) => item.id)
+  const itemMembers = itemIds.length
+    ? tx
+        .select()
+        .from(schema.expenseItemMembers)
+        .where(inArray(schema.expenseItemMembers.itemId, itemIds))
+        .all()
+    : []
+
+  return {
+    id: expense.id,
+    description: expense.description,
+    amount: expense.amount,
+    originalCurrency: expense.originalCurrency,
+    originalAmount: expense.originalAmount,
+    exchangeRate: expense.exchangeRate,
+    date: expense.date ?? new Date(0),
+    splitType: expense.splitType as ExpenseInput['splitType'],
+    categoryId: expense.categoryId,
+    paymentMethodId: expense.paymentMethodId,
+    notes: expense.notes,
+    payments: payments.map((payment) => ({ memberId: payment.memberId, amount: payment.amount })),
+    splits: splits.map((split) => ({
+      memberId: split.memberId,
+      amount: split.amount,
+      shares: split.shares,
+      percent: split.percent,
+      adjustment: split.adjustment,
+      owedAmount: split.owedAmount,
+    })),
+    items: items.map((item) => ({
+      description: item.description,
+      amount: item.amount,
+      memberIds: itemMembers
+        .filter((itemMember) => itemMember.itemId === item.id)
+        .map((itemMember) => itemMember.memberId),
+    })),
+    taxAmount: expense.taxAmount,
+    tipAmount: expense.tipAmount,
+  }
+}
@@ -0,0 +1,121 @@
+import { isPlainObject } from './apiValidation'
+
+// The Kostos export format, written by the export route and read by the importer. Amounts are
+// decimal amounts in the project currency; original amounts are in the currency they were paid in.
+//
+// Version history:
+// 1. Unversioned exports: one payer per expense as paidById, no notes or project metadata
+// 2. formatVersion, every payment of an expense, notes, creation dates, project metadata and the
+//    balances at export time, which the importer checks its result against. Itemized expenses
+//    carry their line items, tax and tip; exports made before that import as amount splits.
+
+export const KOSTOS_FORMAT_VERSION = 2
+
+export interface KostosExportData {
+  formatVersion: number
+  exportedAt: string
+  id: string
+  name: string
+  description: string | null
+  emoji: string | null
+  currency: string
+  debtSimplification: string
+  trashRetentionDays: number
+  createdAt: string | null
+  participants: { id: string; projectId: string; name: string }[]
+  categories: { id: string; projectId: string; name: string; color: string | null }[]
+  paymentMethods: { id: string; projectId: string; name: string; icon: string | null }[]
+  expenses: KostosExpenseExport[]
+  settlements: KostosSettlementExport[]
+  balances: { memberId: string; net: number }[]
+}
+
+export interface KostosExpenseExport {
+  id: string
+  expenseDate: string
+  createdAt: string | null
+  title: string
+  notes: string | null
+  categoryId: string | null
+  paymentMethodId: string | null
+  amount: number
+  originalCurrency: string | null // Currency the expense was paid in, if not the project currency
+  originalAmount: number | null
+  exchangeRate: number | null
+  splitType: string
+  taxAmount: number | null // Only set on itemized expenses, like the tip
+  tipAmount: number | null
+  items: KostosItemExport[] // Line items of itemized expenses
+  payments: { memberId: string; amount: number }[]
+  paidFor: KostosSplitExport[]
+  attachments?: KostosAttachmentExport[] // Only in archives, which contain the files
+}
+
+export interface KostosSplitExport {
+  memberId: string
+  amount: number | null
+  shares: number | null
+  percent: number | null
+  adjustment: number | null
+  owedAmount: number // Recalculated on import; kept for reference
+}
+
+export interface KostosItemExport {
+  description: string
+  amount: number
+  memberIds: string[] // Members sharing the item evenly
+}
+
+export interface KostosAttachmentExport {
+  id: string
+  fileName: string
+  mimeType: string
+  size: number
+  path: string // Location of the file inside the archive
+}
+
+export interface KostosSettlementExport {
+  id: string
+  date: string
+  createdAt: string | null
+  fromMemberId: string
+  toMemberId: string
+  amount: number
+  notes: string | null
+}
+
+/**
+ * Bring an export of any earlier format version up to the current one, so the importer only
+ * reads the current format. Exports from a newer version of Kostos are refused.
+ */
+export function migrateKostosExport(data: Record<string, unknown>): Record<string, unknown> {
+  const version = data.formatVersion ?? 1
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Export format version is invalid')
+  }
+  if (version > KOSTOS_FORMAT_VERSION) {
+    throw new Error(`This export was made by a newer version of Kostos (format ${version})`)
+  }
+
+  let migrated = data
+  if (version < 2) migrated = migrateFromVersion1(migrated)
+  return migrated
+}
+
+// Version 1 named a single payer, who paid the whole amount
+function migrateFromVersion1(data: Record<string, unknown>): Record<string, unknown> {
+  return {
+    ...data,
+    formatVersion: 2,
+    expenses: Array.isArray(data.expenses)
+      ? data.expenses.map((expense) => {
+          if (!isPlainObject(expense)) return expense
+          const { paidById, ...rest } = expense
+          return {
+            ...rest,
+            payments: typeof paidById === 'string' ? [{ memberId: paidById, amount: expense.amount }] : [],
+          }
+        })
+      : data.expenses,
+  }
+}
@@ -1,6 +1,11 @@
+import { getAccessCookieName, getMemberCookieName, getSessionCookieName } from './projectAccess'
+
 // Key for storing joined projects in local storage
 const JOINED_PROJECTS_KEY = 'kostos_joined_projects'
 
+// Access cookies are renewed whenever the app loads; 400 days is the longest browsers allow
+const ACCESS_COOKIE_MAX_AGE = 400 * 24 * 60 * 60
+
 // Type for joined project
 export interface JoinedProject {
   id: string
@@ -8,9 +13,36 @@ export interface JoinedProject {
   memberId: string
   memberName: string
   emoji?: string // Optional emoji field
+  accessToken?: string // Token from the share link; projects joined before share links get one on their next visit
+  sessionToken?: string // Session from entering the project's passphrase, if it has one
   joinedAt: number
 }
 
+function writeCookie(name: string, value: string | null | undefined): void {
+  const attributes = `Path=/api; SameSite=Strict${window.location.protocol === 'https:' ? '; Secure' : ''}`
+  document.cookie = value
+    ? `${name}=${encodeURIComponent(value)}; Max-Age=${ACCESS_COOKIE_MAX_AGE}; ${attributes}`
+    : `${name}=; Max-Age=0; ${attributes}`
+}
+
+/**
+ * Mirror a project's access token into a cookie, so the browser sends it with API requests
+ * @param projectId ID of the project
+ * @param token Access token, or null to remove the cookie
+ */
+function writeAccessCookie(projectId: string, token: string | null | undefined): void {
+  writeCookie(getAccessCookieName(projectId), token)
+}
+
+/**
+ * Mirror a project's passphrase session into a cookie, next to its access token
+ * @param projectId ID of the project
+ * @param token Session token, or null to remove the cookie
+ */
+function writeSessionCookie(projectId: string, token: string | null | undefined): void {
+  writeCookie(getSessionCookieName(projectId), token)
+}
+
 /**
  * Get all joined projects from local storage
  * @returns Array of joined projects
@@ -54,6 +86,8 @@ export function addJoinedProject(project: JoinedProject): void {
         name: project.name,
         memberName: project.memberName,
         emoji: project.emoji,
+        accessToken: project.accessToken ?? currentProjects[existingProjectIndex].accessToken,
+        sessionToken: project.sessionToken ?? currentProjects[existingProjectIndex].sessionToken,
         joinedAt: Date.now(),
       }
     } else {
@@ -63,11 +97,76 @@ export function addJoinedProject(project: JoinedProject): void {
 
     // Save to local storage
     localStorage.setItem(JOINED_PROJECTS_KEY, JSON.stringify(currentProjects))
+
+    if (project.accessToken) writeAccessCookie(project.id, project.accessToken)
+    if (project.sessionToken) writeSessionCookie(project.id, project.sessionToken)
   } catch (error) {
     console.error('Error adding project to local storage:', error)
   }
 }
 
+/**
+ * Replace the access token of a project for every member joined on this device
+ * @param projectId ID of the project
+ * @param accessToken New access token
+ */
+export function setProjectAccessToken(projectId: string, accessToken: string): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    const updatedProjects = getJoinedProjects().map((p) => (p.id === projectId ? { ...p, accessToken } : p))
+
+    localStorage.setItem(JOINED_PROJECTS_KEY, JSON.stringify(updatedProjects))
+    writeAccessCookie(projectId, accessToken)
+  } catch (error) {
+    console.error('Error updating project access token in local storage:', error)
+  }
+}
+
+/**
+ * Replace the passphrase session of a project for every member joined on this device
+ * @param projectId ID of the project
+ * @param sessionToken New session token, or null once the project has no passphrase anymore
+ */
+export function setProjectSessionToken(projectId: string, sessionToken: string | null): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    const updatedProjects = getJoinedProjects().map((p) =>
+      p.id === projectId ? { ...p, sessionToken: sessionToken ?? undefined } : p
+    )
+
+    localStorage.setItem(JOINED_PROJECTS_KEY, JSON.stringify(updatedProjects))
+    writeSessionCookie(projectId, sessionToken)
+  } catch (error) {
+    console.error('Error updating project session token in local storage:', error)
+  }
+}
+
+/**
+ * Tell the API which member this device is using a project as, so the activity log shows who made
+ * each change. Set whenever the project page opens, so the last member opened wins.
+ * @param projectId ID of the project
+ * @param memberId ID of the member
+ */
+export function setActingMember(projectId: string, memberId: string): void {
+  if (typeof window === 'undefined') return
+
+  writeCookie(getMemberCookieName(projectId), memberId)
+}
+
+/**
+ * Write the access and session cookies of all joined projects again, in case they expired or were cleared
+ */
+export function restoreAccessCookies(): void {
+  if (typeof window === 'undefined') return
+
+  for (const project of getJoinedProjects()) {
+    if (project.accessToken) writeAccessCookie(project.id, project.accessToken)
+    if (project.sessionToken) writeSessionCookie(project.id, project.sessionToken)
+  }
+}
+
 /**
  * Remove a project from joined projects in local storage
  * @param projectId ID of the project to remove
@@ -84,6 +183,13 @@ export function removeJoinedProject(projectId: string, memberId: string): void {
 
     // Save to local storage
     localStorage.setItem(JOINED_PROJECTS_KEY, JSON.stringify(updatedProjects))
+
+    // Keep the cookies while another member of the project is still joined on this device
+    if (!updatedProjects.some((p) => p.id === projectId)) {
+      writeAccessCookie(projectId, null)
+      writeSessionCookie(projectId, null)
+      writeCookie(getMemberCookieName(projectId), null)
+    }
   } catch (error) {
     console.error('Error removing project from local storage:', error)
   }
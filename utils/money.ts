@@ -0,0 +1,121 @@
+import { fromMinorUnits } from './currency'
+
+// Money is stored in integer minor units of its currency (cents, or whole yen for JPY)
+// while the API speaks decimal amounts. These helpers convert stored rows into their API
+// shape at the response boundary.
+
+interface StoredPayment {
+  amount: number
+}
+
+interface StoredSplit {
+  amount?: number | null
+  adjustment?: number | null
+  owedAmount: number
+}
+
+interface StoredExpenseItem {
+  amount: number
+}
+
+interface StoredExpense {
+  amount: number
+  originalCurrency: string | null
+  originalAmount: number | null
+  taxAmount?: number | null
+  tipAmount?: number | null
+}
+
+interface StoredExpenseTemplate {
+  splits: Array<{ adjustment: number | null }>
+}
+
+interface StoredSettlement {
+  amount: number
+}
+
+/**
+ * Convert a nullable stored amount to a decimal amount
+ */
+export function fromOptionalMinorUnits(units: number | null, currencyCode: string): number | null {
+  return units === null ? null : fromMinorUnits(units, currencyCode)
+}
+
+/**
+ * Convert a stored payment to its API representation
+ */
+export function toApiPayment<T extends StoredPayment>(payment: T, currencyCode: string): T {
+  return { ...payment, amount: fromMinorUnits(payment.amount, currencyCode) }
+}
+
+/**
+ * Convert a stored split to its API representation
+ */
+export function toApiSplit<T extends StoredSplit>(split: T, currencyCode: string): T {
+  return {
+    ...split,
+    amount: fromOptionalMinorUnits(split.amount ?? null, currencyCode),
+    ...(split.adjustment !== undefined && {
+      adjustment: fromOptionalMinorUnits(split.adjustment, currencyCode),
+    }),
+    owedAmount: fromMinorUnits(split.owedAmount, currencyCode),
+  }
+}
+
+/**
+ * Convert a stored line item of an itemized expense to its API representation
+ */
+export function toApiExpenseItem<T extends StoredExpenseItem>(item: T, currencyCode: string): T {
+  return { ...item, amount: fromMinorUnits(item.amount, currencyCode) }
+}
+
+/**
+ * Convert a stored expense, and its payments, splits and items when present, to its API representation.
+ * The original amount is stored in the minor units of the currency it was paid in.
+ */
+export function toApiExpense<
+  T extends StoredExpense & {
+    payments?: StoredPayment[]
+    splits?: StoredSplit[]
+    items?: StoredExpenseItem[]
+  },
+>(expense: T, currencyCode: string): T {
+  return {
+    ...expense,
+    amount: fromMinorUnits(expense.amount, currencyCode),
+    originalAmount: expense.originalCurrency
+      ? fromOptionalMinorUnits(expense.originalAmount, expense.originalCurrency)
+      : null,
+    ...(expense.taxAmount !== undefined && {
+      taxAmount: fromOptionalMinorUnits(expense.taxAmount, currencyCode),
+    }),
+    ...(expense.tipAmount !== undefined && {
+      tipAmount: fromOptionalMinorUnits(expense.tipAmount, currencyCode),
+    }),
+    ...(expense.payments && {
+      payments: expense.payments.map((payment) => toApiPayment(payment, currencyCode)),
+    }),
+    ...(expense.splits && { splits: expense.splits.map((split) => toApiSplit(split, currencyCode)) }),
+    ...(expense.items && { items: expense.items.map((item) => toApiExpenseItem(item, currencyCode)) }),
+  }
+}
+
+/**
+ * Convert a stored settlement to its API representation
+ */
+export function toApiSettlement<T extends StoredSettlement>(settlement: T, currencyCode: string): T {
+  return { ...settlement, amount: fromMinorUnits(settlement.amount, currencyCode) }
+}
+
+/**
+ * Convert a stored expense template to its API representation; only adjustments carry amounts
+ */
+export function toApiExpenseTemplate<T extends StoredExpenseTemplate>(template: T, currencyCode: string): T {
+  return {
+    ...template,
+    splits: template.splits.map((split) => ({
+      ...split,
+      adjustment: fromOptionalMinorUnits(split.adjustment, currencyCode),
+    })),
+  }
+}
@@ -0,0 +1,169 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { db, schema } from '../db'
+import { generateId } from './id'
+import { and, eq, gt, lte } from 'drizzle-orm'
+
+// scrypt parameters for new hashes. They are stored with each hash, so raising them later does
+// not break existing passphrases.
+const SCRYPT_COST = 2 ** 15
+const SCRYPT_BLOCK_SIZE = 8
+const SCRYPT_PARALLELIZATION = 1
+const KEY_LENGTH = 32
+const SALT_LENGTH = 16
+
+const SESSION_TOKEN_LENGTH = 32
+// Sessions end after this long, and the passphrase has to be entered again
+export const SESSION_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000
+
+// Each derivation holds about 32 MB, so only a few run at once and the rest wait their turn
+const MAX_CONCURRENT_DERIVATIONS = 2
+
+// Failed unlocks allowed per project and client address before further attempts are refused
+const MAX_FAILED_UNLOCKS = 5
+const FAILED_UNLOCK_WINDOW_MS = 15 * 60 * 1000
+const MAX_TRACKED_UNLOCK_KEYS = 10000
+
+let runningDerivations = 0
+const waitingDerivations: Array<() => void> = []
+
+async function withDerivationSlot<T>(derive: () => Promise<T>): Promise<T> {
+  if (runningDerivations < MAX_CONCURRENT_DERIVATIONS) {
+    runningDerivations++
+  } else {
+    // A finishing derivation hands its slot straight to the next one waiting
+    await new Promise<void>((resolve) => waitingDerivations.push(resolve))
+  }
+
+  try {
+    return await derive()
+  } finally {
+    const next = waitingDerivations.shift()
+    if (next) next()
+    else runningDerivations--
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return withDerivationSlot(
+    () =>
+      new Promise((resolve, reject) => {
+        // scrypt needs 128 * N * r bytes; allow twice that so the default 32 MB limit is not hit
+        scrypt(
+          passphrase.normalize('NFC'),
+          salt,
+          KEY_LENGTH,
+          { N, r, p, maxmem: 256 * N * r },
+          (error, key) => (error ? reject(error) : resolve(key))
+        )
+      })
+  )
+}
+
+/**
+ * Hash a passphrase with scrypt, as `scrypt$N$r$p$salt$key` with base64 salt and key
+ */
+export async function hashPassphrase(passphrase: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH)
+  const key = await deriveKey(passphrase, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION)
+  return [
+    'scrypt',
+    SCRYPT_COST,
+    SCRYPT_BLOCK_SIZE,
+    SCRYPT_PARALLELIZATION,
+    salt.toString('base64'),
+    key.toString('base64'),
+  ].join('$')
+}
+
+export async function verifyPassphrase(passphrase: string, storedHash: string): Promise<boolean> {
+  const [algorithm, N, r, p, salt, key] = storedHash.split('$')
+  if (algorithm !== 'scrypt' || !key) return false
+
+  const expected = Buffer.from(key, 'base64')
+  const derived = await deriveKey(passphrase, Buffer.from(salt, 'base64'), Number(N), Number(r), Number(p))
+  return derived.length === expected.length && timingSafeEqual(derived, expected)
+}
+
+// Session tokens are long and random, so a plain SHA-256 is enough to keep them out of the database
+function hashSessionToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// Times of recent failed unlocks, keyed by project and client address. Kept in memory: a restart
+// clears them, which only hands out one more small batch of guesses.
+const failedUnlocks = new Map<string, number[]>()
+
+function getRecentFailedUnlocks(key: string, now: number): number[] {
+  const recent = (failedUnlocks.get(key) ?? []).filter((time) => time > now - FAILED_UNLOCK_WINDOW_MS)
+  if (recent.length > 0) failedUnlocks.set(key, recent)
+  else failedUnlocks.delete(key)
+  return recent
+}
+
+/**
+ * Seconds until another unlock may be tried, or 0 when it may be tried now
+ */
+export function getUnlockRetryDelay(projectId: string, clientAddress: string): number {
+  const now = Date.now()
+  const recent = getRecentFailedUnlocks(`${projectId}:${clientAddress}`, now)
+  if (recent.length < MAX_FAILED_UNLOCKS) return 0
+  return Math.ceil((recent[0] + FAILED_UNLOCK_WINDOW_MS - now) / 1000)
+}
+
+export function recordFailedUnlock(projectId: string, clientAddress: string): void {
+  const now = Date.now()
+  const key = `${projectId}:${clientAddress}`
+  // Addresses that stopped guessing are otherwise only forgotten when they try again
+  if (failedUnlocks.size > MAX_TRACKED_UNLOCK_KEYS) {
+    for (const trackedKey of [...failedUnlocks.keys()]) getRecentFailedUnlocks(trackedKey, now)
+  }
+  failedUnlocks.set(key, [...getRecentFailedUnlocks(key, now), now])
+}
+
+function getSessionCutoff(): Date {
+  return new Date(Date.now() - SESSION_LIFETIME_MS)
+}
+
+/**
+ * Start a session for a passphrase-protected project and return its token
+ */
+export async function createProjectSession(projectId: string): Promise<string> {
+  // Expired sessions of the project are of no use anymore
+  await db
+    .delete(schema.projectSessions)
+    .where(
+      and(
+        eq(schema.projectSessions.projectId, projectId),
+        lte(schema.projectSessions.createdAt, getSessionCutoff())
+      )
+    )
+
+  const token = generateId(SESSION_TOKEN_LENGTH)
+  await db.insert(schema.projectSessions).values({
+    id: generateId(),
+    projectId,
+    tokenHash: hashSessionToken(token),
+    createdAt: new Date(),
+  })
+  return token
+}
+
+export async function isValidProjectSession(projectId: string, token: string | null): Promise<boolean> {
+  if (!token) return false
+
+  const [session] = await db
+    .select({ id: schema.projectSessions.id })
+    .from(schema.projectSessions)
+    .where(
+      and(
+        eq(schema.projectSessions.projectId, projectId),
+        eq(schema.projectSessions.tokenHash, hashSessionToken(token)),
+        gt(schema.projectSessions.createdAt, getSessionCutoff())
+      )
+    )
+  return !!session
+}
+
+export async function endProjectSessions(projectId: string): Promise<void> {
+  await db.delete(schema.projectSessions).where(eq(schema.projectSessions.projectId, projectId))
+}
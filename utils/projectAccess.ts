@@ -0,0 +1,65 @@
+// Access levels of a project, shared by the API middleware and the pages that store and share
+// access tokens. Checking tokens lives in withProjectAccess.ts, which only runs on the server.
+
+export type AccessLevel = 'read' | 'edit' | 'admin'
+
+// Ordered from least to most access
+export const ACCESS_LEVELS: { value: AccessLevel; label: string; description: string }[] = [
+  { value: 'read', label: 'Read-only', description: 'Can view expenses, balances and stats' },
+  { value: 'edit', label: 'Edit', description: 'Can add and change expenses, members and settings' },
+  { value: 'admin', label: 'Admin', description: 'Can change everything, including share links' },
+]
+
+/**
+ * Whether an access level includes the required one
+ */
+export function hasAccessLevel(granted: AccessLevel, required: AccessLevel): boolean {
+  const rank = (level: AccessLevel) => ACCESS_LEVELS.findIndex((option) => option.value === level)
+  return rank(granted) >= rank(required)
+}
+
+/**
+ * Name of the cookie that carries the access token of a project to the API. Browsers send it
+ * with every API request, including image and download links that cannot set headers.
+ */
+export function getAccessCookieName(projectId: string): string {
+  return `kostos_access_${projectId}`
+}
+
+/**
+ * Name of the cookie that carries the session of a passphrase-protected project to the API
+ */
+export function getSessionCookieName(projectId: string): string {
+  return `kostos_session_${projectId}`
+}
+
+/**
+ * Name of the cookie that tells the API which member this device is using a project as, so
+ * changes in the activity log show who made them
+ */
+export function getMemberCookieName(projectId: string): string {
+  return `kostos_member_${projectId}`
+}
+
+// Header that names the acting member for scripts, in place of the cookie
+export const MEMBER_HEADER = 'X-Member-Id'
+
+// Header that sends a session token before it is stored in a cookie, while joining a project
+export const SESSION_HEADER = 'X-Project-Session'
+
+export const MIN_PASSPHRASE_LENGTH = 8
+
+// Error the API answers with when a project needs its passphrase; pages check for it to ask for one
+export const PASSPHRASE_REQUIRED_ERROR = 'This project is protected by a passphrase'
+
+// Error the API answers with when a request has no access token; pages of projects joined before
+// access control check for it to fetch the admin secret they were given
+export const ACCESS_LINK_REQUIRED_ERROR = 'An access link is required'
+
+/**
+ * Join link for a project; the token decides the access level of whoever opens it
+ */
+export function getShareUrl(origin: string, projectId: string, token?: string | null): string {
+  const query = new URLSearchParams({ projectId, ...(token && { token }) })
+  return `${origin}/projects/join?${query}`
+}
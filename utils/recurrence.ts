@@ -0,0 +1,77 @@
+import type { ExpenseInput } from './apiValidation'
+
+// Schedules of recurring expenses. Occurrences are numbered from 0 and computed from the start
+// date in UTC, matching how expense dates are stored (midnight UTC of the chosen day).
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+]
+
+// An expense without its date; each generated occurrence gets its own date
+export type RecurringExpenseTemplate = Omit<ExpenseInput, 'date'>
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency
+  startDate: Date
+  endDate: Date | null
+  occurrenceLimit: number | null
+}
+
+function addUtcMonths(date: Date, months: number): Date {
+  const result = new Date(date.getTime())
+  const day = result.getUTCDate()
+  result.setUTCDate(1)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate()
+  result.setUTCDate(Math.min(day, daysInMonth))
+  return result
+}
+
+/**
+ * Date of an occurrence. Months and years are counted from the start date, so a series starting
+ * on the 31st falls on the last day of shorter months and returns to the 31st afterwards.
+ */
+export function getOccurrenceDate(schedule: RecurrenceSchedule, index: number): Date {
+  const { startDate, frequency } = schedule
+  switch (frequency) {
+    case 'daily':
+      return new Date(startDate.getTime() + index * 86_400_000)
+    case 'weekly':
+      return new Date(startDate.getTime() + index * 7 * 86_400_000)
+    case 'monthly':
+      return addUtcMonths(startDate, index)
+    case 'yearly':
+      return addUtcMonths(startDate, index * 12)
+  }
+}
+
+/**
+ * Whether an occurrence is part of the schedule, given its end date and occurrence limit
+ */
+export function isWithinSchedule(schedule: RecurrenceSchedule, index: number): boolean {
+  if (schedule.occurrenceLimit !== null && index >= schedule.occurrenceLimit) return false
+  if (schedule.endDate && getOccurrenceDate(schedule, index) > schedule.endDate) return false
+  return true
+}
+
+/**
+ * Indexes of the occurrences from `fromIndex` that are due by `now`, at most `limit` of them
+ */
+export function getDueOccurrences(
+  schedule: RecurrenceSchedule,
+  fromIndex: number,
+  now: Date,
+  limit: number
+): number[] {
+  const due: number[] = []
+  for (let index = fromIndex; due.length < limit; index++) {
+    if (!isWithinSchedule(schedule, index) || getOccurrenceDate(schedule, index) > now) break
+    due.push(index)
+  }
+  return due
+}
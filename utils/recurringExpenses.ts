@@ -0,0 +1,146 @@
+import { db, schema } from '../db'
+import { and, eq } from 'drizzle-orm'
+import { validateExpenseReferences } from './apiValidation'
+import { recordActivity } from './activityLog'
+import { insertExpenseDetails, readExpenseSnapshot } from './expenses'
+import { generateId } from './id'
+import { toApiExpense } from './money'
+import {
+  RecurrenceFrequency,
+  RecurrenceSchedule,
+  getDueOccurrences,
+  getOccurrenceDate,
+  isWithinSchedule,
+} from './recurrence'
+
+// Upper bound of occurrences created for one recurring expense per run, so a daily series that
+// was left alone for years cannot stall a request. The rest follow on the next run.
+const MAX_OCCURRENCES_PER_RUN = 366
+
+type RecurringExpense = typeof schema.recurringExpenses.$inferSelect
+
+export function getRecurrenceSchedule(recurring: RecurringExpense): RecurrenceSchedule {
+  return {
+    frequency: recurring.frequency as RecurrenceFrequency,
+    startDate: recurring.startDate,
+    endDate: recurring.endDate,
+    occurrenceLimit: recurring.occurrenceLimit,
+  }
+}
+
+/**
+ * Date of the next occurrence to be generated, or null once the series has ended
+ */
+export function getNextOccurrenceDate(recurring: RecurringExpense): Date | null {
+  const schedule = getRecurrenceSchedule(recurring)
+  return isWithinSchedule(schedule, recurring.nextOccurrence)
+    ? getOccurrenceDate(schedule, recurring.nextOccurrence)
+    : null
+}
+
+/**
+ * Convert a recurring expense to its API representation, with its template amounts in decimals
+ */
+export function toApiRecurringExpense(recurring: RecurringExpense, currencyCode: string) {
+  return {
+    ...recurring,
+    template: toApiExpense(recurring.template, currencyCode),
+    nextDate: getNextOccurrenceDate(recurring),
+  }
+}
+
+/**
+ * Create the expenses of every occurrence that has fallen due in the project's active recurring
+ * expenses. Safe to run repeatedly or concurrently: each occurrence is stored at most once thanks
+ * to the unique (recurring expense, occurrence index) pair on expenses. A template that no longer
+ * fits the project, for example because a member was removed, is paused with the reason.
+ * Returns the number of expenses created.
+ */
+export async function generateDueRecurringExpenses(projectId: string, now = new Date()): Promise<number> {
+  const recurringExpenses = await db
+    .select()
+    .from(schema.recurringExpenses)
+    .where(and(eq(schema.recurringExpenses.projectId, projectId), eq(schema.recurringExpenses.paused, false)))
+
+  let generated = 0
+
+  for (const recurring of recurringExpenses) {
+    const schedule = getRecurrenceSchedule(recurring)
+    const due = getDueOccurrences(schedule, recurring.nextOccurrence, now, MAX_OCCURRENCES_PER_RUN)
+    if (due.length === 0) continue
+
+    try {
+      await validateExpenseReferences(recurring.template, projectId)
+    } catch (error) {
+      await db
+        .update(schema.recurringExpenses)
+        .set({
+          paused: true,
+          lastError: error instanceof Error ? error.message : 'Recurring expense is no longer valid',
+        })
+        .where(eq(schema.recurringExpenses.id, recurring.id))
+      continue
+    }
+
+    const { template } = recurring
+
+    db.transaction((tx) => {
+      const current = tx
+        .select()
+        .from(schema.recurringExpenses)
+        .where(eq(schema.recurringExpenses.id, recurring.id))
+        .get()
+      if (!current || current.paused) return
+
+      for (const index of due) {
+        // Skipped, or generated by another run since this one started
+        if (index < current.nextOccurrence) continue
+
+        const expenseId = generateId()
+        const result = tx
+          .insert(schema.expenses)
+          .values({
+            id: expenseId,
+            projectId,
+            description: template.description,
+            amount: template.amount,
+            originalCurrency: template.originalCurrency,
+            originalAmount: template.originalAmount,
+            exchangeRate: template.exchangeRate,
+            date: getOccurrenceDate(schedule, index),
+            splitType: template.splitType,
+            categoryId: template.categoryId,
+            paymentMethodId: template.paymentMethodId,
+            notes: template.notes,
+            taxAmount: template.taxAmount,
+            tipAmount: template.tipAmount,
+            recurringExpenseId: recurring.id,
+            recurrenceIndex: index,
+            createdAt: new Date(),
+          })
+          .onConflictDoNothing()
+          .run()
+        if (result.changes === 0) continue
+
+        insertExpenseDetails(tx, expenseId, template)
+        // Generated expenses are added by the schedule, not by a member
+        recordActivity(tx, {
+          projectId,
+          actorMemberId: null,
+          entityType: 'expense',
+          entityId: expenseId,
+          action: 'create',
+          after: readExpenseSnapshot(tx, expenseId),
+        })
+        generated++
+      }
+
+      tx.update(schema.recurringExpenses)
+        .set({ nextOccurrence: Math.max(current.nextOccurrence, due[due.length - 1] + 1), lastError: null })
+        .where(eq(schema.recurringExpenses.id, recurring.id))
+        .run()
+    })
+  }
+
+  return generated
+}
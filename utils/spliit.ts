@@ -0,0 +1,499 @@
+import { fromMinorUnits, getCurrencyByCode } from './currency'
+import { formatCsv } from './csv'
+import { isSupportedCurrency } from './exchangeRates'
+import { allocateByLargestRemainder } from './splits'
+import { isPlainObject } from './apiValidation'
+import { KOSTOS_FORMAT_VERSION } from './kostosExport'
+
+// Conversion between Kostos projects and the JSON and CSV exports of Spliit (spliit.app).
+// Spliit keeps money in minor units and a single payer per expense. Each paidFor entry carries
+// shares scaled by 100, so percentages are basis points and amount splits are minor units.
+// Money paid back is an expense flagged isReimbursement, paid by the debtor for the creditor.
+
+export type SpliitSplitMode = 'EVENLY' | 'BY_SHARES' | 'BY_PERCENTAGE' | 'BY_AMOUNT'
+
+export interface SpliitCategory {
+  grouping: string
+  name: string
+}
+
+export interface SpliitExpense {
+  createdAt: string
+  expenseDate: string
+  title: string
+  category: SpliitCategory | null
+  amount: number
+  originalAmount: number | null
+  originalCurrency: string | null
+  conversionRate: string | null
+  paidById: string
+  paidFor: { participantId: string; shares: number }[]
+  isReimbursement: boolean
+  splitMode: SpliitSplitMode
+  recurrenceRule: string
+}
+
+export interface SpliitExport {
+  id: string
+  name: string
+  currency: string // Symbol shown in Spliit
+  currencyCode: string | null
+  expenses: SpliitExpense[]
+  participants: { id: string; name: string }[]
+}
+
+// Spliit's built-in categories. Its database refers to them by ID; exports name them.
+export const SPLIIT_CATEGORIES: (SpliitCategory & { id: number })[] = [
+  { id: 0, grouping: 'Uncategorized', name: 'General' },
+  { id: 1, grouping: 'Uncategorized', name: 'Payment' },
+  { id: 2, grouping: 'Entertainment', name: 'Entertainment' },
+  { id: 3, grouping: 'Entertainment', name: 'Games' },
+  { id: 4, grouping: 'Entertainment', name: 'Movies' },
+  { id: 5, grouping: 'Entertainment', name: 'Music' },
+  { id: 6, grouping: 'Entertainment', name: 'Sports' },
+  { id: 7, grouping: 'Food and Drink', name: 'Food and Drink' },
+  { id: 8, grouping: 'Food and Drink', name: 'Dining Out' },
+  { id: 9, grouping: 'Food and Drink', name: 'Groceries' },
+  { id: 10, grouping: 'Food and Drink', name: 'Liquor' },
+  { id: 11, grouping: 'Home', name: 'Home' },
+  { id: 12, grouping: 'Home', name: 'Electronics' },
+  { id: 13, grouping: 'Home', name: 'Furniture' },
+  { id: 14, grouping: 'Home', name: 'Household Supplies' },
+  { id: 15, grouping: 'Home', name: 'Maintenance' },
+  { id: 16, grouping: 'Home', name: 'Mortgage' },
+  { id: 17, grouping: 'Home', name: 'Pets' },
+  { id: 18, grouping: 'Home', name: 'Rent' },
+  { id: 19, grouping: 'Home', name: 'Services' },
+  { id: 20, grouping: 'Life', name: 'Childcare' },
+  { id: 21, grouping: 'Life', name: 'Clothing' },
+  { id: 22, grouping: 'Life', name: 'Education' },
+  { id: 23, grouping: 'Life', name: 'Gifts' },
+  { id: 24, grouping: 'Life', name: 'Insurance' },
+  { id: 25, grouping: 'Life', name: 'Medical Expenses' },
+  { id: 26, grouping: 'Life', name: 'Taxes' },
+  { id: 27, grouping: 'Transportation', name: 'Transportation' },
+  { id: 28, grouping: 'Transportation', name: 'Bicycle' },
+  { id: 29, grouping: 'Transportation', name: 'Bus/Train' },
+  { id: 30, grouping: 'Transportation', name: 'Car' },
+  { id: 31, grouping: 'Transportation', name: 'Gas/Fuel' },
+  { id: 32, grouping: 'Transportation', name: 'Hotel' },
+  { id: 33, grouping: 'Transportation', name: 'Parking' },
+  { id: 34, grouping: 'Transportation', name: 'Plane' },
+  { id: 35, grouping: 'Transportation', name: 'Taxi' },
+  { id: 36, grouping: 'Utilities', name: 'Utilities' },
+  { id: 37, grouping: 'Utilities', name: 'Cleaning' },
+  { id: 38, grouping: 'Utilities', name: 'Electricity' },
+  { id: 39, grouping: 'Utilities', name: 'Heat/Gas' },
+  { id: 40, grouping: 'Utilities', name: 'Trash' },
+  { id: 41, grouping: 'Utilities', name: 'TV/Phone/Internet' },
+  { id: 42, grouping: 'Utilities', name: 'Water' },
+]
+
+const GENERAL_CATEGORY = SPLIIT_CATEGORIES[0]
+const PAYMENT_CATEGORY = SPLIIT_CATEGORIES[1]
+
+// Spliit has no way to record a reimbursement's note, so they all get the same title
+const REIMBURSEMENT_TITLE = 'Reimbursement'
+
+// A project as read for export, with money in minor units
+export interface SpliitExportSource {
+  project: { id: string; name: string; currency: string }
+  members: { id: string; name: string }[]
+  categories: { id: string; name: string }[]
+  expenses: {
+    description: string
+    amount: number
+    originalCurrency: string | null
+    originalAmount: number | null
+    exchangeRate: number | null
+    date: Date | null
+    createdAt: Date | null
+    splitType: string
+    categoryId: string | null
+    payments: { memberId: string; amount: number }[]
+    splits: { memberId: string; shares: number | null; percent: number | null; owedAmount: number }[]
+  }[]
+  settlements: {
+    fromMemberId: string
+    toMemberId: string
+    amount: number
+    date: Date | null
+    createdAt: Date | null
+  }[]
+}
+
+function toIsoDate(date: Date | null, fallback: Date | null): string {
+  return (date ?? fallback ?? new Date()).toISOString()
+}
+
+function toSpliitCategory(name: string | undefined): SpliitCategory {
+  const match =
+    name && SPLIIT_CATEGORIES.find((category) => category.name.toLowerCase() === name.toLowerCase())
+  const { grouping, name: categoryName } = match || GENERAL_CATEGORY
+  return { grouping, name: categoryName }
+}
+
+// Even, share and percent splits keep their mode; every other split is sent as owed amounts
+function toSpliitSplit(
+  splitType: string,
+  splits: SpliitExportSource['expenses'][0]['splits']
+): Pick<SpliitExpense, 'splitMode' | 'paidFor'> {
+  switch (splitType) {
+    case 'even':
+      return {
+        splitMode: 'EVENLY',
+        paidFor: splits.map((split) => ({ participantId: split.memberId, shares: 100 })),
+      }
+    case 'shares':
+      return {
+        splitMode: 'BY_SHARES',
+        paidFor: splits.map((split) => ({
+          participantId: split.memberId,
+          shares: (split.shares ?? 0) * 100,
+        })),
+      }
+    case 'percent':
+      return {
+        splitMode: 'BY_PERCENTAGE',
+        paidFor: splits.map((split) => ({
+          participantId: split.memberId,
+          shares: Math.round((split.percent ?? 0) * 100),
+        })),
+      }
+    default:
+      return {
+        splitMode: 'BY_AMOUNT',
+        paidFor: splits.map((split) => ({ participantId: split.memberId, shares: split.owedAmount })),
+      }
+  }
+}
+
+/**
+ * Spread what each member owes over the payers of an expense, so every payer becomes a separate
+ * single-payer expense. Each payment is split in proportion to what members still owe, which
+ * keeps every part within what is left and makes the parts add up to the owed amounts exactly.
+ */
+function splitByPayer(
+  payments: { memberId: string; amount: number }[],
+  splits: { memberId: string; owedAmount: number }[]
+): { memberId: string; amount: number; owed: number[] }[] {
+  const remaining = splits.map((split) => split.owedAmount)
+
+  return payments.map((payment, index) => {
+    const owed =
+      index === payments.length - 1
+        ? [...remaining]
+        : allocateByLargestRemainder(
+            payment.amount,
+            remaining.map((amount) => Math.max(amount, 0))
+          )
+    owed.forEach((amount, splitIndex) => {
+      remaining[splitIndex] -= amount
+    })
+    return { memberId: payment.memberId, amount: payment.amount, owed }
+  })
+}
+
+/**
+ * Convert a project to a Spliit JSON export. Expenses with several payers become one expense
+ * per payer, and settlements become reimbursements.
+ */
+export function toSpliitExport(source: SpliitExportSource): SpliitExport {
+  const currency = getCurrencyByCode(source.project.currency)
+  const expenses: SpliitExpense[] = []
+
+  for (const expense of source.expenses) {
+    const categoryName = source.categories.find((category) => category.id === expense.categoryId)?.name
+    const base = {
+      createdAt: toIsoDate(expense.createdAt, expense.date),
+      expenseDate: toIsoDate(expense.date, expense.createdAt),
+      title: expense.description,
+      category: toSpliitCategory(categoryName),
+      originalAmount: expense.originalCurrency ? expense.originalAmount : null,
+      originalCurrency: expense.originalCurrency,
+      conversionRate: expense.exchangeRate === null ? null : String(expense.exchangeRate),
+      isReimbursement: false,
+      recurrenceRule: 'NONE',
+    }
+
+    if (expense.payments.length === 1) {
+      expenses.push({
+        ...base,
+        amount: expense.amount,
+        paidById: expense.payments[0].memberId,
+        ...toSpliitSplit(expense.splitType, expense.splits),
+      })
+      continue
+    }
+
+    // The original amount belongs to the whole expense, so the parts leave it out
+    for (const part of splitByPayer(expense.payments, expense.splits)) {
+      expenses.push({
+        ...base,
+        originalAmount: null,
+        originalCurrency: null,
+        conversionRate: null,
+        amount: part.amount,
+        paidById: part.memberId,
+        paidFor: expense.splits
+          .map((split, index) => ({ participantId: split.memberId, shares: part.owed[index] }))
+          .filter((paidFor) => paidFor.shares !== 0),
+        splitMode: 'BY_AMOUNT',
+      })
+    }
+  }
+
+  for (const settlement of source.settlements) {
+    expenses.push({
+      createdAt: toIsoDate(settlement.createdAt, settlement.date),
+      expenseDate: toIsoDate(settlement.date, settlement.createdAt),
+      title: REIMBURSEMENT_TITLE,
+      category: { grouping: PAYMENT_CATEGORY.grouping, name: PAYMENT_CATEGORY.name },
+      amount: settlement.amount,
+      originalAmount: null,
+      originalCurrency: null,
+      conversionRate: null,
+      paidById: settlement.fromMemberId,
+      paidFor: [{ participantId: settlement.toMemberId, shares: settlement.amount }],
+      isReimbursement: true,
+      splitMode: 'BY_AMOUNT',
+      recurrenceRule: 'NONE',
+    })
+  }
+
+  // Spliit lists expenses oldest first
+  expenses.sort(
+    (a, b) => a.expenseDate.localeCompare(b.expenseDate) || a.createdAt.localeCompare(b.createdAt)
+  )
+
+  return {
+    id: source.project.id,
+    name: source.project.name,
+    currency: currency.symbol,
+    currencyCode: currency.code,
+    expenses,
+    participants: source.members.map((member) => ({ id: member.id, name: member.name })),
+  }
+}
+
+/**
+ * What each participant owes of a Spliit expense, in minor units
+ */
+function getSpliitOwedAmounts(expense: Pick<SpliitExpense, 'amount' | 'paidFor' | 'splitMode'>): number[] {
+  if (expense.splitMode === 'BY_AMOUNT') return expense.paidFor.map((paidFor) => paidFor.shares)
+  if (expense.paidFor.length === 0) return []
+  return allocateByLargestRemainder(
+    expense.amount,
+    expense.paidFor.map((paidFor) => (expense.splitMode === 'EVENLY' ? 1 : paidFor.shares))
+  )
+}
+
+const SPLIIT_SPLIT_MODE_LABELS: Record<SpliitSplitMode, string> = {
+  EVENLY: 'Evenly',
+  BY_SHARES: 'Unevenly – By shares',
+  BY_PERCENTAGE: 'Unevenly – By percentage',
+  BY_AMOUNT: 'Unevenly – By amount',
+}
+
+/**
+ * Format a Spliit export as Spliit's CSV: one row per expense, then one column per participant
+ * with what the expense changes in their balance (paid minus owed).
+ */
+export function toSpliitCsv(data: SpliitExport): string {
+  const currencyCode = data.currencyCode ?? getCurrencyByCode(data.currency).code
+  const money = (units: number, code = currencyCode) => fromMinorUnits(units, code)
+
+  const header = [
+    'Date',
+    'Description',
+    'Category',
+    'Currency',
+    'Cost',
+    'Original cost',
+    'Original currency',
+    'Conversion rate',
+    'Is Reimbursement',
+    'Split mode',
+    ...data.participants.map((participant) => participant.name),
+  ]
+
+  const rows = data.expenses.map((expense) => {
+    const owedAmounts = getSpliitOwedAmounts(expense)
+    const balances = data.participants.map((participant) => {
+      const paid = expense.paidById === participant.id ? expense.amount : 0
+      const owed = expense.paidFor.reduce(
+        (sum, paidFor, index) => (paidFor.participantId === participant.id ? sum + owedAmounts[index] : sum),
+        0
+      )
+      return money(paid - owed)
+    })
+
+    return [
+      expense.expenseDate.split('T')[0],
+      expense.title,
+      expense.category?.name ?? GENERAL_CATEGORY.name,
+      currencyCode,
+      money(expense.amount),
+      expense.originalCurrency && expense.originalAmount !== null
+        ? money(expense.originalAmount, getCurrencyByCode(expense.originalCurrency).code)
+        : null,
+      expense.originalCurrency,
+      expense.conversionRate,
+      expense.isReimbursement ? 'Yes' : 'No',
+      SPLIIT_SPLIT_MODE_LABELS[expense.splitMode],
+      ...balances,
+    ]
+  })
+
+  return formatCsv([header, ...rows])
+}
+
+/**
+ * Whether an uploaded import is a Spliit export rather than a Kostos one. Kostos exports always
+ * list their categories; Spliit names the category on each expense.
+ */
+export function isSpliitExport(body: unknown): body is Record<string, unknown> {
+  return (
+    isPlainObject(body) &&
+    Array.isArray(body.participants) &&
+    Array.isArray(body.expenses) &&
+    !Array.isArray(body.categories)
+  )
+}
+
+function asMinorUnitsInteger(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value))
+    throw new Error(`${field} must be a whole number`)
+  return value
+}
+
+// Expenses name their category; rows read straight from Spliit's database give its ID instead
+function readSpliitCategoryName(expense: Record<string, unknown>): string | null {
+  const category =
+    typeof expense.categoryId === 'number'
+      ? SPLIIT_CATEGORIES.find((option) => option.id === expense.categoryId)
+      : isPlainObject(expense.category) && typeof expense.category.name === 'string'
+        ? { name: expense.category.name }
+        : undefined
+
+  // General is Spliit's default, which Kostos shows as no category
+  if (!category || category.name === GENERAL_CATEGORY.name) return null
+  return category.name
+}
+
+/**
+ * Convert a Spliit JSON export to the Kostos export format, so the importer can validate and
+ * store it like any other export. Reimbursements become settlements.
+ */
+export function fromSpliitExport(data: Record<string, unknown>): Record<string, unknown> {
+  const currencyField =
+    typeof data.currencyCode === 'string' && data.currencyCode ? data.currencyCode : data.currency
+  if (typeof currencyField !== 'string' || !currencyField) throw new Error('Spliit export has no currency')
+  const currency = getCurrencyByCode(currencyField).code
+
+  const participants = (data.participants as unknown[]).map((participant, index) => {
+    if (!isPlainObject(participant)) throw new Error(`Participant ${index + 1} is invalid`)
+    return { id: participant.id, name: participant.name }
+  })
+
+  const categoryNames: string[] = []
+  const expenses: Record<string, unknown>[] = []
+  const settlements: Record<string, unknown>[] = []
+
+  for (const [index, expense] of (data.expenses as unknown[]).entries()) {
+    const label = `Spliit expense ${index + 1}`
+    if (!isPlainObject(expense)) throw new Error(`${label} is invalid`)
+    if (!Array.isArray(expense.paidFor) || expense.paidFor.length === 0) {
+      throw new Error(`${label} must include paidFor`)
+    }
+
+    const amount = asMinorUnitsInteger(expense.amount, `${label} amount`)
+    const splitMode = String(expense.splitMode ?? 'EVENLY') as SpliitSplitMode
+    const paidFor = expense.paidFor.map((paidFor, paidForIndex) => {
+      if (!isPlainObject(paidFor)) throw new Error(`${label} paidFor ${paidForIndex + 1} is invalid`)
+      return {
+        participantId: String(paidFor.participantId ?? ''),
+        shares: asMinorUnitsInteger(paidFor.shares ?? 0, `${label} shares`),
+      }
+    })
+
+    if (expense.isReimbursement === true) {
+      const owedAmounts = getSpliitOwedAmounts({ amount, paidFor, splitMode })
+      paidFor.forEach((paidFor, paidForIndex) => {
+        if (paidFor.participantId === expense.paidById || owedAmounts[paidForIndex] <= 0) return
+        settlements.push({
+          date: expense.expenseDate,
+          fromMemberId: expense.paidById,
+          toMemberId: paidFor.participantId,
+          amount: fromMinorUnits(owedAmounts[paidForIndex], currency),
+          notes:
+            typeof expense.title === 'string' && expense.title !== REIMBURSEMENT_TITLE ? expense.title : null,
+        })
+      })
+      continue
+    }
+
+    // Whole shares come back as they were entered; fractional ones keep their scale, which keeps the ratio
+    const wholeShares = paidFor.every((split) => split.shares % 100 === 0)
+    const splitType =
+      splitMode === 'BY_SHARES'
+        ? 'shares'
+        : splitMode === 'BY_PERCENTAGE'
+          ? 'percent'
+          : splitMode === 'BY_AMOUNT'
+            ? 'amount'
+            : 'even'
+
+    const categoryName = readSpliitCategoryName(expense)
+    if (categoryName && !categoryNames.includes(categoryName)) categoryNames.push(categoryName)
+
+    const originalCurrency =
+      typeof expense.originalCurrency === 'string' && isSupportedCurrency(expense.originalCurrency)
+        ? expense.originalCurrency
+        : null
+    const hasOriginalAmount =
+      originalCurrency !== null &&
+      typeof expense.originalAmount === 'number' &&
+      expense.conversionRate != null
+
+    expenses.push({
+      id: `spliit-expense-${index + 1}`,
+      expenseDate: expense.expenseDate,
+      title: expense.title,
+      categoryId: categoryName,
+      paymentMethodId: null,
+      amount: fromMinorUnits(amount, currency),
+      originalCurrency: hasOriginalAmount ? originalCurrency : null,
+      originalAmount: hasOriginalAmount
+        ? fromMinorUnits(expense.originalAmount as number, originalCurrency)
+        : null,
+      exchangeRate: hasOriginalAmount ? Number(expense.conversionRate) : null,
+      payments:
+        typeof expense.paidById === 'string'
+          ? [{ memberId: expense.paidById, amount: fromMinorUnits(amount, currency) }]
+          : [],
+      splitType,
+      paidFor: paidFor.map((split) => ({
+        memberId: split.participantId,
+        amount: splitType === 'amount' ? fromMinorUnits(split.shares, currency) : null,
+        shares: splitType === 'shares' ? (wholeShares ? split.shares / 100 : split.shares) : null,
+        percent: splitType === 'percent' ? split.shares / 100 : null,
+        adjustment: null,
+        owedAmount: 0,
+      })),
+    })
+  }
+
+  return {
+    formatVersion: KOSTOS_FORMAT_VERSION,
+    id: data.id,
+    name: data.name,
+    currency,
+    participants,
+    // Categories are referred to by name, which doubles as their ID within the import
+    categories: categoryNames.map((name) => ({ id: name, name, color: null })),
+    paymentMethods: [],
+    expenses,
+    settlements,
+  }
+}
@@ -0,0 +1,127 @@
+// Shared split engine used by the expense API, the importer and the expense form.
+// Amounts are integer minor units, so owed amounts always add up to the expense total exactly.
+
+export const SPLIT_TYPES = ['even', 'amount', 'shares', 'percent', 'itemized', 'adjustment'] as const
+
+export type SplitType = (typeof SPLIT_TYPES)[number]
+
+export interface SplitShareInput {
+  memberId: string
+  amount?: number | null
+  shares?: number | null
+  percent?: number | null
+  adjustment?: number | null
+}
+
+export interface ItemShareInput {
+  amount: number
+  memberIds: string[]
+}
+
+/**
+ * Split an integer amount proportionally to the weights. Every share is rounded down and the
+ * leftover units go to the largest remainders; ties go to the earliest weight.
+ */
+export function allocateByLargestRemainder(total: number, weights: number[]): number[] {
+  if (total < 0) return allocateByLargestRemainder(-total, weights).map((share) => -share)
+
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0)
+  if (weightTotal <= 0) throw new Error('Split weights must add up to more than 0')
+
+  const exact = weights.map((weight) => (total * weight) / weightTotal)
+  const shares = exact.map((value) => Math.floor(value))
+  let remainder = total - shares.reduce((sum, share) => sum + share, 0)
+
+  const order = exact
+    .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index)
+
+  for (let i = 0; remainder > 0; i = (i + 1) % order.length, remainder--) {
+    shares[order[i].index] += 1
+  }
+
+  return shares
+}
+
+/**
+ * Calculate each split's owed amount from the split type and its raw inputs.
+ * Members are ordered by ID before leftover units are handed out, so the result does not
+ * depend on the order the splits were sent in. Amount splits are taken as given, and so are
+ * itemized splits, whose amount is the member's total from calculateItemizedOwedAmounts.
+ * Adjustment splits add each member's signed adjustment to an even share of what is left.
+ */
+export function calculateOwedAmounts(
+  total: number,
+  splitType: SplitType,
+  splits: SplitShareInput[]
+): number[] {
+  if (splits.length === 0) return []
+
+  if (splitType === 'amount' || splitType === 'itemized') return splits.map((split) => split.amount ?? 0)
+
+  if (splitType === 'adjustment') {
+    const adjustments = splits.map((split) => split.adjustment ?? 0)
+    const remainder = total - adjustments.reduce((sum, adjustment) => sum + adjustment, 0)
+    return calculateOwedAmounts(remainder, 'even', splits).map((share, index) => share + adjustments[index])
+  }
+
+  const weight = (split: SplitShareInput): number => {
+    switch (splitType) {
+      case 'shares':
+        return split.shares ?? 0
+      case 'percent':
+        return split.percent ?? 0
+      default:
+        return 1
+    }
+  }
+
+  const order = splits
+    .map((split, index) => ({ index, memberId: split.memberId }))
+    .sort((a, b) => (a.memberId < b.memberId ? -1 : a.memberId > b.memberId ? 1 : a.index - b.index))
+
+  const allocated = allocateByLargestRemainder(
+    total,
+    order.map(({ index }) => weight(splits[index]))
+  )
+
+  const owedAmounts: number[] = new Array(splits.length)
+  order.forEach(({ index }, position) => {
+    owedAmounts[index] = allocated[position]
+  })
+  return owedAmounts
+}
+
+/**
+ * Calculate each member's owed amount for an itemized expense. Every item is split evenly among
+ * its members, then tax and tip are distributed in proportion to each member's item subtotal.
+ * Members are returned ordered by ID.
+ */
+export function calculateItemizedOwedAmounts(
+  items: ItemShareInput[],
+  taxAmount: number,
+  tipAmount: number
+): { memberId: string; owedAmount: number }[] {
+  const subtotals = new Map<string, number>()
+  for (const item of items) {
+    const itemShares = calculateOwedAmounts(
+      item.amount,
+      'even',
+      item.memberIds.map((memberId) => ({ memberId }))
+    )
+    item.memberIds.forEach((memberId, index) => {
+      subtotals.set(memberId, (subtotals.get(memberId) ?? 0) + itemShares[index])
+    })
+  }
+
+  const memberIds = Array.from(subtotals.keys()).sort()
+  const memberSubtotals = memberIds.map((memberId) => subtotals.get(memberId) ?? 0)
+  const extras = taxAmount + tipAmount
+  const extraShares =
+    extras === 0 ? memberSubtotals.map(() => 0) : allocateByLargestRemainder(extras, memberSubtotals)
+
+  return memberIds.map((memberId, index) => ({
+    memberId,
+    owedAmount: memberSubtotals[index] + extraShares[index],
+  }))
+}
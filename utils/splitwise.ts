@@ -0,0 +1,206 @@
+import { fromMinorUnits, toMinorUnits } from './currency'
+import { parseCsv } from './csv'
+import { isSupportedCurrency } from './exchangeRates'
+import { KOSTOS_FORMAT_VERSION } from './kostosExport'
+import { allocateByLargestRemainder } from './splits'
+
+// Conversion of Splitwise's CSV export to the Kostos export format. Splitwise writes one row per
+// expense with its date, description, category, cost and currency, then one column per member
+// holding what the expense changed in their balance: what they paid minus what they owed.
+// Payments between members are rows in the Payment category, and a final "Total balance" row
+// holds every member's balance.
+
+const SPLITWISE_COLUMNS = ['date', 'description', 'category', 'cost', 'currency']
+const PAYMENT_CATEGORY = 'Payment'
+// Splitwise's default category, which Kostos shows as no category
+const GENERAL_CATEGORY = 'General'
+const TOTAL_BALANCE_ROW = 'total balance'
+
+function parseSplitwiseNumber(value: string | undefined, currency: string, field: string): number {
+  const trimmed = (value ?? '').trim()
+  if (trimmed === '') return 0
+  const number = Number(trimmed)
+  if (!Number.isFinite(number)) throw new Error(`${field} is not a number`)
+  return toMinorUnits(number, currency)
+}
+
+/**
+ * Work out who paid and who owed what from the balance changes of an expense. Members who came
+ * out ahead paid; the part of the cost nobody else owed is their own share, spread evenly among
+ * them. Members who paid exactly their own share leave no trace in the export and are left out.
+ */
+function reconstructExpense(
+  cost: number,
+  nets: number[]
+): { payments: { index: number; amount: number }[]; owed: { index: number; amount: number }[] } {
+  const payerIndexes = nets.flatMap((net, index) => (net > 0 ? [index] : []))
+  const ownShare = cost - nets.reduce((sum, net) => (net > 0 ? sum + net : sum), 0)
+  if (ownShare < 0) throw new Error('the member amounts are larger than the cost')
+
+  const payerShares = allocateByLargestRemainder(
+    ownShare,
+    payerIndexes.map(() => 1)
+  )
+
+  return {
+    payments: payerIndexes.map((index, position) => ({
+      index,
+      amount: nets[index] + payerShares[position],
+    })),
+    owed: nets
+      .map((net, index) => {
+        const position = payerIndexes.indexOf(index)
+        return { index, amount: position === -1 ? -net : payerShares[position] }
+      })
+      .filter((owed) => owed.amount > 0),
+  }
+}
+
+/**
+ * Pair the members of a payment row: whoever came out ahead paid whoever came out behind
+ */
+function reconstructPayments(nets: number[]): { fromIndex: number; toIndex: number; amount: number }[] {
+  const payers = nets.flatMap((net, index) => (net > 0 ? [{ index, amount: net }] : []))
+  const receivers = nets.flatMap((net, index) => (net < 0 ? [{ index, amount: -net }] : []))
+  const transfers: { fromIndex: number; toIndex: number; amount: number }[] = []
+
+  for (const payer of payers) {
+    for (const receiver of receivers) {
+      const amount = Math.min(payer.amount, receiver.amount)
+      if (amount <= 0) continue
+      transfers.push({ fromIndex: payer.index, toIndex: receiver.index, amount })
+      payer.amount -= amount
+      receiver.amount -= amount
+    }
+  }
+
+  return transfers
+}
+
+/**
+ * Convert a Splitwise CSV export to the Kostos export format, so the importer can validate and
+ * store it like any other export. The "Total balance" row becomes the balances the import is
+ * checked against. Expenses are stored as amount splits, since Splitwise does not export how an
+ * expense was split.
+ */
+export function fromSplitwiseCsv(text: string, projectName: string): Record<string, unknown> {
+  const [header, ...rows] = parseCsv(text)
+  if (!header || SPLITWISE_COLUMNS.some((column, index) => header[index]?.trim().toLowerCase() !== column)) {
+    throw new Error(
+      'A Splitwise export starts with the columns Date, Description, Category, Cost and Currency'
+    )
+  }
+
+  const memberNames = header.slice(SPLITWISE_COLUMNS.length).map((name) => name.trim())
+  if (memberNames.length === 0 || memberNames.some((name) => !name)) {
+    throw new Error('The Splitwise export must have a named column for every member')
+  }
+
+  const memberId = (index: number) => `splitwise-member-${index + 1}`
+  const dataRows = rows.filter((row) => row[1]?.trim().toLowerCase() !== TOTAL_BALANCE_ROW)
+  const totalRow = rows.find((row) => row[1]?.trim().toLowerCase() === TOTAL_BALANCE_ROW)
+
+  // Kostos projects have a single currency, so every row must use the same one
+  const currency = (dataRows[0]?.[4] ?? totalRow?.[4] ?? '').trim().toUpperCase()
+  if (!isSupportedCurrency(currency)) throw new Error(`Currency ${currency || '(none)'} is not supported`)
+
+  const categoryNames: string[] = []
+  const expenses: Record<string, unknown>[] = []
+  const settlements: Record<string, unknown>[] = []
+
+  dataRows.forEach((row, rowIndex) => {
+    const label = `Row ${rowIndex + 1}`
+    const [date, description, category, costText, rowCurrency] = SPLITWISE_COLUMNS.map((_, index) =>
+      (row[index] ?? '').trim()
+    )
+
+    if (rowCurrency.toUpperCase() !== currency) {
+      throw new Error(
+        `${label} is in ${rowCurrency}, but the import only supports one currency (${currency})`
+      )
+    }
+
+    const cost = parseSplitwiseNumber(costText, currency, `${label} cost`)
+    const nets = memberNames.map((name, index) =>
+      parseSplitwiseNumber(row[SPLITWISE_COLUMNS.length + index], currency, `${label} amount of ${name}`)
+    )
+    if (nets.reduce((sum, net) => sum + net, 0) !== 0) {
+      throw new Error(`${label}: the member amounts do not add up to zero`)
+    }
+    // Rows that change nobody's balance cannot tell who paid, and leave balances as they are
+    if (nets.every((net) => net === 0)) return
+
+    if (category === PAYMENT_CATEGORY) {
+      for (const transfer of reconstructPayments(nets)) {
+        settlements.push({
+          date,
+          fromMemberId: memberId(transfer.fromIndex),
+          toMemberId: memberId(transfer.toIndex),
+          amount: fromMinorUnits(transfer.amount, currency),
+          notes: description || null,
+        })
+      }
+      return
+    }
+
+    let reconstructed: ReturnType<typeof reconstructExpense>
+    try {
+      reconstructed = reconstructExpense(cost, nets)
+    } catch (error) {
+      throw new Error(`${label}: ${error instanceof Error ? error.message : 'the row is invalid'}`)
+    }
+
+    const categoryName = category && category !== GENERAL_CATEGORY ? category : null
+    if (categoryName && !categoryNames.includes(categoryName)) categoryNames.push(categoryName)
+
+    expenses.push({
+      id: `splitwise-expense-${rowIndex + 1}`,
+      expenseDate: date,
+      title: description,
+      categoryId: categoryName,
+      paymentMethodId: null,
+      amount: fromMinorUnits(cost, currency),
+      originalCurrency: null,
+      originalAmount: null,
+      exchangeRate: null,
+      splitType: 'amount',
+      payments: reconstructed.payments.map((payment) => ({
+        memberId: memberId(payment.index),
+        amount: fromMinorUnits(payment.amount, currency),
+      })),
+      paidFor: reconstructed.owed.map((owed) => ({
+        memberId: memberId(owed.index),
+        amount: fromMinorUnits(owed.amount, currency),
+        shares: null,
+        percent: null,
+        adjustment: null,
+        owedAmount: fromMinorUnits(owed.amount, currency),
+      })),
+    })
+  })
+
+  return {
+    formatVersion: KOSTOS_FORMAT_VERSION,
+    name: projectName,
+    currency,
+    participants: memberNames.map((name, index) => ({ id: memberId(index), name })),
+    // Categories are referred to by name, which doubles as their ID within the import
+    categories: categoryNames.map((name) => ({ id: name, name, color: null })),
+    paymentMethods: [],
+    expenses,
+    settlements,
+    ...(totalRow && {
+      balances: memberNames.map((name, index) => ({
+        memberId: memberId(index),
+        net: fromMinorUnits(
+          parseSplitwiseNumber(
+            totalRow[SPLITWISE_COLUMNS.length + index],
+            currency,
+            `Total balance of ${name}`
+          ),
+          currency
+        ),
+      })),
+    }),
+  }
+}
@@ -0,0 +1,60 @@
+import { db, schema } from '../db'
+import { removeAttachmentFiles } from './attachmentStorage'
+import { and, eq, inArray, isNotNull, lt } from 'drizzle-orm'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * When an expense deleted at the given time leaves the trash for good
+ */
+export function getPurgeDate(deletedAt: Date, retentionDays: number): Date {
+  return new Date(deletedAt.getTime() + retentionDays * DAY_MS)
+}
+
+/**
+ * Remove expenses with their payments, splits, items and attachment files for good
+ */
+export async function deleteExpensesPermanently(expenseIds: string[]): Promise<void> {
+  if (expenseIds.length === 0) return
+
+  const attachments = await db
+    .select({ storedName: schema.attachments.storedName })
+    .from(schema.attachments)
+    .where(inArray(schema.attachments.expenseId, expenseIds))
+
+  db.transaction((tx) => {
+    tx.delete(schema.payments).where(inArray(schema.payments.expenseId, expenseIds)).run()
+    tx.delete(schema.splits).where(inArray(schema.splits.expenseId, expenseIds)).run()
+    tx.delete(schema.expenseItems).where(inArray(schema.expenseItems.expenseId, expenseIds)).run()
+    tx.delete(schema.attachments).where(inArray(schema.attachments.expenseId, expenseIds)).run()
+    tx.delete(schema.expenses).where(inArray(schema.expenses.id, expenseIds)).run()
+  })
+
+  await removeAttachmentFiles(attachments.map((attachment) => attachment.storedName))
+}
+
+/**
+ * Remove the expenses that have been in a project's trash longer than its retention period.
+ * Runs whenever the project or its trash is opened. Returns the number of expenses removed.
+ */
+export async function purgeExpiredTrash(projectId: string, now = new Date()): Promise<number> {
+  const [project] = await db
+    .select({ trashRetentionDays: schema.projects.trashRetentionDays })
+    .from(schema.projects)
+    .where(eq(schema.projects.id, projectId))
+  if (!project) return 0
+
+  const expired = await db
+    .select({ id: schema.expenses.id })
+    .from(schema.expenses)
+    .where(
+      and(
+        eq(schema.expenses.projectId, projectId),
+        isNotNull(schema.expenses.deletedAt),
+        lt(schema.expenses.deletedAt, new Date(now.getTime() - project.trashRetentionDays * DAY_MS))
+      )
+    )
+
+  await deleteExpensesPermanently(expired.map((expense) => expense.id))
+  return expired.length
+}
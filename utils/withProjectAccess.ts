@@ -0,0 +1,267 @@
+import { timingSafeEqual } from 'crypto'
+import { NextApiRequest, NextApiResponse } from 'next'
+import { db, schema } from '../db'
+import { sendError } from './api'
+import { generateId } from './id'
+import { isValidProjectSession } from './passphrase'
+import {
+  ACCESS_LINK_REQUIRED_ERROR,
+  AccessLevel,
+  MEMBER_HEADER,
+  PASSPHRASE_REQUIRED_ERROR,
+  SESSION_HEADER,
+  getAccessCookieName,
+  getMemberCookieName,
+  getSessionCookieName,
+  hasAccessLevel,
+} from './projectAccess'
+import { and, eq } from 'drizzle-orm'
+
+type StoredProject = typeof schema.projects.$inferSelect
+type ProjectSecrets = Pick<StoredProject, 'adminSecret' | 'editToken' | 'readToken' | 'passphraseHash'>
+
+const ACCESS_TOKEN_LENGTH = 32
+
+export interface ProjectAccess {
+  projectId: string
+  level: AccessLevel
+  hasPassphrase: boolean
+  // The member the request is made as, when the client names one of the project's members
+  memberId: string | null
+}
+
+export type ProjectAccessHandler = (
+  req: NextApiRequest,
+  res: NextApiResponse,
+  access: ProjectAccess
+) => unknown | Promise<unknown>
+
+interface ProjectAccessOptions {
+  // Finds the project the request is about; null when it, or the resource it names, does not exist
+  resolveProjectId: (req: NextApiRequest) => string | null | Promise<string | null>
+  notFoundMessage?: string
+  // Defaults to read access for GET requests and edit access for everything else
+  requiredLevel?: (req: NextApiRequest) => AccessLevel
+  // Lets requests without a passphrase session through, for the route that starts one
+  allowWithoutSession?: boolean
+}
+
+export function generateAccessToken(): string {
+  return generateId(ACCESS_TOKEN_LENGTH)
+}
+
+function tokenMatches(token: string, secret: string | null): boolean {
+  if (!secret) return false
+
+  const given = Buffer.from(token)
+  const expected = Buffer.from(secret)
+  return given.length === expected.length && timingSafeEqual(given, expected)
+}
+
+/**
+ * The access a token grants to a project, or null when it grants none
+ */
+export function getAccessLevel(project: ProjectSecrets, token: string | null): AccessLevel | null {
+  if (!token) return null
+  if (tokenMatches(token, project.adminSecret)) return 'admin'
+  if (tokenMatches(token, project.editToken)) return 'edit'
+  if (tokenMatches(token, project.readToken)) return 'read'
+  return null
+}
+
+/**
+ * The access token of a request: a bearer token for scripts, otherwise the project's cookie
+ */
+function getRequestToken(req: NextApiRequest, projectId: string): string | null {
+  const authorization = req.headers.authorization
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim()
+
+  return req.cookies[getAccessCookieName(projectId)] ?? null
+}
+
+/**
+ * The passphrase session token of a request: the header sent while joining, otherwise the cookie
+ */
+function getRequestSessionToken(req: NextApiRequest, projectId: string): string | null {
+  const header = req.headers[SESSION_HEADER.toLowerCase()]
+  if (typeof header === 'string' && header) return header
+
+  return req.cookies[getSessionCookieName(projectId)] ?? null
+}
+
+/**
+ * The member a request is made as: the header for scripts, otherwise the cookie of the project page.
+ * Ignored unless it names a member of the project.
+ */
+async function getRequestMemberId(req: NextApiRequest, projectId: string): Promise<string | null> {
+  const header = req.headers[MEMBER_HEADER.toLowerCase()]
+  const memberId = typeof header === 'string' && header ? header : req.cookies[getMemberCookieName(projectId)]
+  if (!memberId) return null
+
+  const [member] = await db
+    .select({ id: schema.members.id })
+    .from(schema.members)
+    .where(and(eq(schema.members.id, memberId), eq(schema.members.projectId, projectId)))
+  return member?.id ?? null
+}
+
+function defaultRequiredLevel(req: NextApiRequest): AccessLevel {
+  return req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'edit'
+}
+
+/**
+ * Wrap an API route so it only runs for requests whose token grants enough access to the project
+ * they are about. The handler receives the granted access as its third argument.
+ */
+export function withProjectAccess(handler: ProjectAccessHandler, options: ProjectAccessOptions) {
+  const {
+    resolveProjectId,
+    notFoundMessage = 'Project not found',
+    requiredLevel = defaultRequiredLevel,
+    allowWithoutSession = false,
+  } = options
+
+  return async function projectAccessHandler(req: NextApiRequest, res: NextApiResponse) {
+    try {
+      // Access is checked for one project, so a request must not name another one elsewhere
+      const queryProjectId = req.query.projectId
+      const bodyProjectId = req.body?.projectId
+      if (
+        typeof queryProjectId === 'string' &&
+        typeof bodyProjectId === 'string' &&
+        queryProjectId !== bodyProjectId
+      ) {
+        return sendError(res, 'Project IDs in the query and the request body do not match', 400)
+      }
+
+      const projectId = await resolveProjectId(req)
+      const [project] = projectId
+        ? await db.select().from(schema.projects).where(eq(schema.projects.id, projectId))
+        : []
+
+      if (!project) return sendError(res, notFoundMessage, 404)
+
+      const token = getRequestToken(req, project.id)
+      const level = getAccessLevel(project, token)
+
+      if (!level) {
+        return sendError(
+          res,
+          token ? 'This access link is not valid anymore' : ACCESS_LINK_REQUIRED_ERROR,
+          401
+        )
+      }
+
+      if (
+        project.passphraseHash &&
+        !allowWithoutSession &&
+        !(await isValidProjectSession(project.id, getRequestSessionToken(req, project.id)))
+      ) {
+        return sendError(res, PASSPHRASE_REQUIRED_ERROR, 401)
+      }
+
+      const required = requiredLevel(req)
+      if (!hasAccessLevel(level, required)) {
+        return sendError(
+          res,
+          required === 'admin'
+            ? 'Only project admins can do this'
+            : 'You have read-only access to this project',
+          403
+        )
+      }
+
+      return handler(req, res, {
+        projectId: project.id,
+        level,
+        hasPassphrase: !!project.passphraseHash,
+        memberId: await getRequestMemberId(req, project.id),
+      })
+    } catch (error) {
+      console.error('Error checking project access:', error)
+      return sendError(res, 'Failed to check project access', 500)
+    }
+  }
+}
+
+/**
+ * Drop the access secrets from a stored project before it is sent to a client
+ */
+export function withoutAccessSecrets<T extends ProjectSecrets>(
+  project: T
+): Omit<T, 'adminSecret' | 'editToken' | 'readToken' | 'passphraseHash'> {
+  const { adminSecret, editToken, readToken, passphraseHash, ...rest } = project
+  return rest
+}
+
+// Resolvers for the ways API routes name the project they are about
+
+export function projectIdFromRoute(req: NextApiRequest): string | null {
+  return typeof req.query.id === 'string' ? req.query.id : null
+}
+
+// Listing routes take ?projectId=..., creating routes take it in the JSON body. Handlers must use
+// the project ID of the granted access rather than either value.
+export function projectIdFromRequest(req: NextApiRequest): string | null {
+  if (typeof req.query.projectId === 'string') return req.query.projectId
+  return typeof req.body?.projectId === 'string' ? req.body.projectId : null
+}
+
+async function projectIdOfExpense(expenseId: unknown): Promise<string | null> {
+  if (typeof expenseId !== 'string') return null
+
+  const [expense] = await db
+    .select({ projectId: schema.expenses.projectId })
+    .from(schema.expenses)
+    .where(eq(schema.expenses.id, expenseId))
+  return expense?.projectId ?? null
+}
+
+export function projectIdFromExpense(req: NextApiRequest): Promise<string | null> {
+  return projectIdOfExpense(req.query.id)
+}
+
+export function projectIdFromExpenseQuery(req: NextApiRequest): Promise<string | null> {
+  return projectIdOfExpense(req.query.expenseId)
+}
+
+export async function projectIdFromAttachment(req: NextApiRequest): Promise<string | null> {
+  if (typeof req.query.id !== 'string') return null
+
+  const [attachment] = await db
+    .select({ projectId: schema.expenses.projectId })
+    .from(schema.attachments)
+    .innerJoin(schema.expenses, eq(schema.expenses.id, schema.attachments.expenseId))
+    .where(eq(schema.attachments.id, req.query.id))
+  return attachment?.projectId ?? null
+}
+
+export async function projectIdFromCategory(req: NextApiRequest): Promise<string | null> {
+  if (typeof req.query.id !== 'string') return null
+
+  const [category] = await db
+    .select({ projectId: schema.categories.projectId })
+    .from(schema.categories)
+    .where(eq(schema.categories.id, req.query.id))
+  return category?.projectId ?? null
+}
+
+export async function projectIdFromPaymentMethod(req: NextApiRequest): Promise<string | null> {
+  if (typeof req.query.id !== 'string') return null
+
+  const [paymentMethod] = await db
+    .select({ projectId: schema.paymentMethods.projectId })
+    .from(schema.paymentMethods)
+    .where(eq(schema.paymentMethods.id, req.query.id))
+  return paymentMethod?.projectId ?? null
+}
+
+export async function projectIdFromExpenseTemplate(req: NextApiRequest): Promise<string | null> {
+  if (typeof req.query.id !== 'string') return null
+
+  const [template] = await db
+    .select({ projectId: schema.expenseTemplates.projectId })
+    .from(schema.expenseTemplates)
+    .where(eq(schema.expenseTemplates.id, req.query.id))
+  return template?.projectId ?? null
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Every test file gets its own in-memory database, migrated when db/index.ts is first loaded
+    env: {
+      DATABASE_URL: ':memory:',
+    },
+  },
+})